@@ -0,0 +1,100 @@
+// Service worker for the Blotter Entry System.
+//
+// Precaches the app shell so the app opens with no network at all, and keeps
+// a runtime cache of the hashed build assets. Supabase API calls are
+// cross-origin and never cached here; offline writes go through the
+// IndexedDB outbox instead.
+
+const CACHE_VERSION = 'v1';
+const SHELL_CACHE = `blotter-shell-${CACHE_VERSION}`;
+const ASSET_CACHE = `blotter-assets-${CACHE_VERSION}`;
+
+const SHELL_URLS = [
+  '/',
+  '/index.html',
+  '/manifest.webmanifest',
+  '/journal-book.png',
+  '/suspect.png',
+  '/favicon.ico',
+];
+
+// Vite emits hashed file names, so read them from index.html at install time.
+const discoverBuildAssets = async () => {
+  try {
+    const response = await fetch('/index.html', { cache: 'no-store' });
+    const html = await response.text();
+    const matches = html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g);
+    return Array.from(matches, (match) => match[1]);
+  } catch {
+    return [];
+  }
+};
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    (async () => {
+      const cache = await caches.open(SHELL_CACHE);
+      const assets = await discoverBuildAssets();
+      await cache.addAll([...SHELL_URLS, ...assets]);
+      await self.skipWaiting();
+    })()
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    (async () => {
+      const keep = [SHELL_CACHE, ASSET_CACHE];
+      const keys = await caches.keys();
+      await Promise.all(keys.filter((key) => !keep.includes(key)).map((key) => caches.delete(key)));
+      await self.clients.claim();
+    })()
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+  // Navigations: network first so deploys show up, cached shell when offline.
+  // The app uses a HashRouter, so every navigation resolves to index.html.
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      (async () => {
+        try {
+          const response = await fetch(request);
+          const cache = await caches.open(SHELL_CACHE);
+          cache.put('/index.html', response.clone());
+          return response;
+        } catch {
+          return (await caches.match('/index.html')) || Response.error();
+        }
+      })()
+    );
+    return;
+  }
+
+  // Static assets: serve from cache, refresh in the background.
+  event.respondWith(
+    (async () => {
+      const cached = await caches.match(request);
+      const network = fetch(request)
+        .then(async (response) => {
+          if (response.ok) {
+            const cache = await caches.open(ASSET_CACHE);
+            cache.put(request, response.clone());
+          }
+          return response;
+        })
+        .catch(() => undefined);
+
+      if (cached) {
+        event.waitUntil(network);
+        return cached;
+      }
+      return (await network) || Response.error();
+    })()
+  );
+});
@@ -4,12 +4,24 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { HashRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/contexts/AuthContext";
+import { SyncProvider } from "@/contexts/SyncContext";
 import { ProtectedRoute } from "@/components/ProtectedRoute";
+import { IdleLock } from "@/components/IdleLock";
 import Login from "./pages/Login";
+import SetPassword from "./pages/SetPassword";
+import TwoFactor from "./pages/TwoFactor";
 import BlotterList from "./pages/BlotterList";
 import AddEntry from "./pages/AddEntry";
 import EntryDetail from "./pages/EntryDetail";
+import EntryReport from "./pages/EntryReport";
+import Logbook from "./pages/Logbook";
+import PersonProfile from "./pages/PersonProfile";
 import Settings from "./pages/Settings";
+import Import from "./pages/Import";
+import ImportHistory from "./pages/ImportHistory";
+import AuditLog from "./pages/AuditLog";
+import Trash from "./pages/Trash";
+import AdminUsers from "./pages/AdminUsers";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -21,43 +33,112 @@ const App = () => (
       <Sonner />
       <HashRouter>
         <AuthProvider>
-          <Routes>
-            <Route path="/login" element={<Login />} />
-            <Route
-              path="/"
-              element={
-                <ProtectedRoute>
-                  <BlotterList />
-                </ProtectedRoute>
-              }
-            />
-            <Route
-              path="/add"
-              element={
-                <ProtectedRoute>
-                  <AddEntry />
-                </ProtectedRoute>
-              }
-            />
-            <Route
-              path="/entry/:id"
-              element={
-                <ProtectedRoute>
-                  <EntryDetail />
-                </ProtectedRoute>
-              }
-            />
-            <Route
-              path="/settings"
-              element={
-                <ProtectedRoute>
-                  <Settings />
-                </ProtectedRoute>
-              }
-            />
-            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-            <Route path="*" element={<NotFound />} />
-          </Routes>
+          <SyncProvider>
+            <Routes>
+              <Route path="/login" element={<Login />} />
+              <Route path="/set-password" element={<SetPassword />} />
+              <Route path="/mfa" element={<TwoFactor />} />
+              <Route
+                path="/"
+                element={
+                  <ProtectedRoute>
+                    <BlotterList />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/add"
+                element={
+                  <ProtectedRoute permission="entries:create">
+                    <AddEntry />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/entry/:id"
+                element={
+                  <ProtectedRoute>
+                    <EntryDetail />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/entry/:id/print"
+                element={
+                  <ProtectedRoute>
+                    <EntryReport />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/logbook"
+                element={
+                  <ProtectedRoute>
+                    <Logbook />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/person/:id"
+                element={
+                  <ProtectedRoute>
+                    <PersonProfile />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/settings"
+                element={
+                  <ProtectedRoute>
+                    <Settings />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/import"
+                element={
+                  <ProtectedRoute permission="entries:import">
+                    <Import />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/imports"
+                element={
+                  <ProtectedRoute permission="entries:import">
+                    <ImportHistory />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/audit"
+                element={
+                  <ProtectedRoute permission="audit:view">
+                    <AuditLog />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/trash"
+                element={
+                  <ProtectedRoute permission="entries:manage_trash">
+                    <Trash />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/admin/users"
+                element={
+                  <ProtectedRoute permission="users:manage">
+                    <AdminUsers />
+                  </ProtectedRoute>
+                }
+              />
+              {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+              <Route path="*" element={<NotFound />} />
+            </Routes>
+            <IdleLock />
+          </SyncProvider>
         </AuthProvider>
       </HashRouter>
     </TooltipProvider>
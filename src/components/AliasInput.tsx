@@ -0,0 +1,64 @@
+import { KeyboardEvent, useState } from 'react';
+import { X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { mergeAliases } from '@/lib/names';
+
+interface AliasInputProps {
+  id?: string;
+  value: string[];
+  onChange: (aliases: string[]) => void;
+}
+
+/**
+ * Free-form list of aliases. Enter or a comma adds the typed alias; leaving
+ * the field adds whatever is left so it isn't silently dropped on save.
+ */
+export const AliasInput = ({ id, value, onChange }: AliasInputProps) => {
+  const [draft, setDraft] = useState('');
+
+  const commit = () => {
+    if (!draft.trim()) return;
+    onChange(mergeAliases(value, [draft]));
+    setDraft('');
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      commit();
+    } else if (e.key === 'Backspace' && !draft && value.length > 0) {
+      onChange(value.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Input
+        id={id}
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={commit}
+        placeholder='e.g. "Boy Tigas", then press Enter'
+      />
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {value.map((alias) => (
+            <Badge key={alias} variant="secondary" className="gap-1 pr-1">
+              {alias}
+              <button
+                type="button"
+                onClick={() => onChange(value.filter((a) => a !== alias))}
+                className="rounded-full p-0.5 hover:bg-background/60"
+                aria-label={`Remove alias ${alias}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
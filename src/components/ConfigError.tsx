@@ -0,0 +1,14 @@
+import { Settings2 } from 'lucide-react';
+
+// Shown instead of the app when it can't start, most often because a setting
+// from .env.example is missing or invalid; see src/lib/config.ts.
+export const ConfigError = ({ error }: { error: Error }) => (
+  <div className="flex min-h-screen flex-col items-center justify-center gap-4 bg-secondary p-4 text-center">
+    <Settings2 className="h-10 w-10 text-destructive" />
+    <h1 className="text-xl font-bold">The app couldn't start</h1>
+    <p className="max-w-md text-sm text-muted-foreground">{error.message}</p>
+    <p className="max-w-md text-sm text-muted-foreground">
+      If a setting is named above, set it in the build's environment (see <code>.env.example</code>) and build again.
+    </p>
+  </div>
+);
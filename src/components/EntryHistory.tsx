@@ -0,0 +1,172 @@
+import { useEffect, useState } from 'react';
+import { History, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { repository } from '@/lib/repository';
+import { BlotterEntry, EntryRevision } from '@/lib/types';
+import { changedFields, diffWords, formatRevisionValue, restoreChanges } from '@/lib/revisions';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+
+interface EntryHistoryProps {
+  entryId: number;
+  // Reloads the list after the entry is saved elsewhere on the page.
+  entry: BlotterEntry;
+  canRestore: boolean;
+  onRestore: (entry: BlotterEntry) => void;
+}
+
+const NarrativeDiff = ({ before, after }: { before: string; after: string }) => (
+  <p className="whitespace-pre-wrap rounded-md bg-muted p-3 text-sm">
+    {diffWords(before, after).map((part, i) =>
+      part.type === 'added' ? (
+        <ins key={i} className="bg-green-200 text-green-900 no-underline dark:bg-green-900 dark:text-green-100">
+          {part.text}
+        </ins>
+      ) : part.type === 'removed' ? (
+        <del key={i} className="bg-red-200 text-red-900 dark:bg-red-900 dark:text-red-100">
+          {part.text}
+        </del>
+      ) : (
+        <span key={i}>{part.text}</span>
+      )
+    )}
+  </p>
+);
+
+/**
+ * Every revision of an entry, newest first, each compared with the one
+ * before it. Older revisions can be restored.
+ */
+export const EntryHistory = ({ entryId, entry, canRestore, onRestore }: EntryHistoryProps) => {
+  const [revisions, setRevisions] = useState<EntryRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [restoring, setRestoring] = useState<EntryRevision | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    repository
+      .listRevisions(entryId)
+      .then((data) => {
+        if (!cancelled) setRevisions(data);
+      })
+      .catch((error) => toast.error('Error loading history: ' + error.message))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [entryId, entry]);
+
+  const handleRestore = async () => {
+    if (!restoring) return;
+    try {
+      const updated = await repository.updateEntry(entryId, restoreChanges(restoring.snapshot));
+      onRestore(updated);
+      toast.success(`Restored revision ${restoring.revision}`);
+    } catch (error) {
+      toast.error('Error restoring revision: ' + (error as Error).message);
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <div className="h-6 w-6 animate-spin rounded-full border-4 border-primary border-t-transparent"></div>
+      </div>
+    );
+  }
+
+  if (revisions.length === 0) {
+    return (
+      <div className="flex flex-col items-center gap-2 py-8 text-sm text-muted-foreground">
+        <History className="h-6 w-6" />
+        No revisions recorded yet.
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <ol className="space-y-4">
+        {revisions.map((revision, i) => {
+          const previous = revisions[i + 1]?.snapshot;
+          const changes = changedFields(previous, revision.snapshot);
+          const narrativeChanged = changes.some(({ field }) => field === 'blotter_entry');
+          return (
+            <li key={revision.id ?? revision.revision} className="space-y-2 rounded-md border p-3">
+              <div className="flex flex-wrap items-center gap-2">
+                <Badge variant={i === 0 ? 'default' : 'secondary'}>Revision {revision.revision}</Badge>
+                {i === 0 && <span className="text-xs text-muted-foreground">Current</span>}
+                <span className="text-sm text-muted-foreground">
+                  {format(new Date(revision.created_at), 'MMM d, yyyy h:mm a')} · {revision.actor_email ?? 'Unknown'}
+                </span>
+                {i > 0 && canRestore && (
+                  <Button variant="outline" size="sm" className="ml-auto" onClick={() => setRestoring(revision)}>
+                    <RotateCcw className="mr-2 h-4 w-4" />
+                    Restore
+                  </Button>
+                )}
+              </div>
+              {narrativeChanged && previous && (
+                <NarrativeDiff before={previous.blotter_entry ?? ''} after={revision.snapshot.blotter_entry ?? ''} />
+              )}
+              <dl className="grid gap-x-4 gap-y-1 text-sm sm:grid-cols-[10rem_1fr]">
+                {changes
+                  .filter(({ field }) => !(field === 'blotter_entry' && previous))
+                  .map(({ field, label }) => (
+                    <div key={field} className="contents">
+                      <dt className="text-muted-foreground">{label}</dt>
+                      <dd className="break-words">
+                        {previous ? (
+                          <>
+                            <span className="text-muted-foreground line-through">
+                              {formatRevisionValue(field, previous[field])}
+                            </span>
+                            {' → '}
+                          </>
+                        ) : null}
+                        <span className={field === 'blotter_entry' ? 'whitespace-pre-wrap' : undefined}>
+                          {formatRevisionValue(field, revision.snapshot[field])}
+                        </span>
+                      </dd>
+                    </div>
+                  ))}
+              </dl>
+            </li>
+          );
+        })}
+      </ol>
+
+      <AlertDialog open={restoring !== null} onOpenChange={(open) => !open && setRestoring(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore Revision {restoring?.revision}</AlertDialogTitle>
+            <AlertDialogDescription>
+              The entry will be set back to this revision. This is saved as a new revision, so the current
+              version stays in the history.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRestore}>Restore</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
@@ -0,0 +1,155 @@
+import { useState } from 'react';
+import { Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useAuth } from '@/contexts/AuthContext';
+import { EntryListQuery } from '@/lib/repository';
+import { appConfig } from '@/lib/config';
+import {
+  EXPORT_COLUMNS,
+  EXPORT_FORMATS,
+  exportEntries,
+  ExportFormat,
+  fetchAllEntries,
+  IMPORTABLE_COLUMNS,
+} from '@/lib/export';
+import { toast } from 'sonner';
+
+interface ExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The list's current search, filters and sort; every page is exported.
+  query: Omit<EntryListQuery, 'page' | 'pageSize'>;
+  count: number;
+  // Printed in the export header, e.g. 'Search "theft"; From 2026-01-01'.
+  criteria: string;
+}
+
+export const ExportDialog = ({ open, onOpenChange, query, count, criteria }: ExportDialogProps) => {
+  const { user, profile } = useAuth();
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('xlsx');
+  const [fields, setFields] = useState(() => new Set(EXPORT_COLUMNS.map(({ field }) => field)));
+  const [exporting, setExporting] = useState(false);
+
+  const columns = EXPORT_COLUMNS.filter(({ field }) => fields.has(field));
+  const missingForImport = IMPORTABLE_COLUMNS.filter(({ field }) => !fields.has(field));
+
+  const toggleField = (field: (typeof EXPORT_COLUMNS)[number]['field'], checked: boolean) => {
+    const next = new Set(fields);
+    if (checked) {
+      next.add(field);
+    } else {
+      next.delete(field);
+    }
+    setFields(next);
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const entries = await fetchAllEntries(query);
+      await exportEntries(exportFormat, entries, columns, {
+        station: profile?.station || appConfig.stationName,
+        generatedAt: new Date(),
+        exportedBy: user?.email ?? 'Unknown user',
+        criteria,
+      });
+      toast.success(`Exported ${entries.length} ${entries.length === 1 ? 'entry' : 'entries'}`);
+      onOpenChange(false);
+    } catch (error) {
+      toast.error('Error exporting entries: ' + (error as Error).message);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Export Entries</DialogTitle>
+          <DialogDescription>
+            All {count} {count === 1 ? 'entry' : 'entries'} matching the current search and filters, not just this
+            page.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label>Format</Label>
+          <RadioGroup
+            value={exportFormat}
+            onValueChange={(value) => setExportFormat(value as ExportFormat)}
+            className="flex flex-wrap gap-4"
+          >
+            {EXPORT_FORMATS.map((option) => (
+              <div key={option.value} className="flex items-center gap-2">
+                <RadioGroupItem id={`export-format-${option.value}`} value={option.value} />
+                <Label htmlFor={`export-format-${option.value}`} className="font-normal">
+                  {option.label}
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>Columns</Label>
+            <div className="flex gap-1">
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => setFields(new Set(EXPORT_COLUMNS.map(({ field }) => field)))}
+              >
+                All
+              </Button>
+              <Button type="button" variant="ghost" size="sm" onClick={() => setFields(new Set())}>
+                None
+              </Button>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            {EXPORT_COLUMNS.map(({ field, label }) => (
+              <div key={field} className="flex items-center gap-2">
+                <Checkbox
+                  id={`export-column-${field}`}
+                  checked={fields.has(field)}
+                  onCheckedChange={(checked) => toggleField(field, checked === true)}
+                />
+                <Label htmlFor={`export-column-${field}`} className="font-normal">
+                  {label}
+                </Label>
+              </div>
+            ))}
+          </div>
+          {exportFormat === 'xlsx' && missingForImport.length > 0 && (
+            <p className="text-sm text-muted-foreground">
+              Include {missingForImport.map(({ label }) => label).join(', ')} to be able to import this file again.
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={exporting}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={exporting || columns.length === 0 || count === 0}>
+            <Download className="mr-2 h-4 w-4" />
+            {exporting ? 'Exporting...' : 'Export'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
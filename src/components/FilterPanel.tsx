@@ -0,0 +1,157 @@
+import { useState } from 'react';
+import { DateRange } from 'react-day-picker';
+import { format, parseISO } from 'date-fns';
+import { ArrowDownWideNarrow, ArrowUpNarrowWide, CalendarIcon, Check, ChevronsUpDown, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { ListParams } from '@/hooks/useListParams';
+import { SortField } from '@/lib/repository';
+import { cn } from '@/lib/utils';
+
+type FilterValues = Pick<ListParams, 'from' | 'to' | 'types' | 'sort' | 'dir'>;
+
+interface FilterPanelProps {
+  value: FilterValues;
+  onChange: (changes: Partial<FilterValues>) => void;
+  caseTypes: string[];
+  // Relevance is only offered while there is search text to rank by.
+  searching: boolean;
+}
+
+const SORT_OPTIONS: { value: SortField | 'relevance'; label: string }[] = [
+  { value: 'relevance', label: 'Relevance' },
+  { value: 'date', label: 'Incident date' },
+  { value: 'name', label: 'Last name' },
+  { value: 'created_at', label: 'Date recorded' },
+];
+
+const toIsoDate = (date: Date | undefined) => (date ? format(date, 'yyyy-MM-dd') : undefined);
+
+const formatRange = (from?: string, to?: string) => {
+  const label = (value: string) => format(parseISO(value), 'MMM d, yyyy');
+  if (from && to) return `${label(from)} – ${label(to)}`;
+  if (from) return `From ${label(from)}`;
+  if (to) return `Until ${label(to)}`;
+  return 'Any date';
+};
+
+export const FilterPanel = ({ value, onChange, caseTypes, searching }: FilterPanelProps) => {
+  const [typesOpen, setTypesOpen] = useState(false);
+  const range: DateRange | undefined = value.from || value.to
+    ? { from: value.from ? parseISO(value.from) : undefined, to: value.to ? parseISO(value.to) : undefined }
+    : undefined;
+  const sortValue = value.sort ?? (searching ? 'relevance' : 'date');
+  const hasFilters = Boolean(value.from || value.to || value.types.length || value.sort || value.dir === 'asc');
+
+  const toggleType = (type: string) => {
+    const types = value.types.includes(type) ? value.types.filter((t) => t !== type) : [...value.types, type];
+    onChange({ types });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {/* Date range */}
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" className={cn('justify-start', !range && 'text-muted-foreground')}>
+            <CalendarIcon className="mr-2 h-4 w-4" />
+            {formatRange(value.from, value.to)}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="start">
+          <Calendar
+            mode="range"
+            selected={range}
+            defaultMonth={range?.from}
+            onSelect={(selected) => onChange({ from: toIsoDate(selected?.from), to: toIsoDate(selected?.to) })}
+            numberOfMonths={1}
+          />
+          {range && (
+            <div className="border-t p-2">
+              <Button variant="ghost" size="sm" className="w-full" onClick={() => onChange({ from: undefined, to: undefined })}>
+                Clear dates
+              </Button>
+            </div>
+          )}
+        </PopoverContent>
+      </Popover>
+
+      {/* Case types */}
+      <Popover open={typesOpen} onOpenChange={setTypesOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            variant="outline"
+            size="sm"
+            role="combobox"
+            aria-expanded={typesOpen}
+            className={cn('justify-between', value.types.length === 0 && 'text-muted-foreground')}
+          >
+            {value.types.length === 0
+              ? 'All case types'
+              : value.types.length === 1
+                ? value.types[0]
+                : `${value.types.length} case types`}
+            <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-64 p-0" align="start">
+          <Command>
+            <CommandInput placeholder="Find case type..." />
+            <CommandList>
+              <CommandEmpty>No case types found.</CommandEmpty>
+              <CommandGroup>
+                {caseTypes.map((type) => (
+                  <CommandItem key={type} value={type} onSelect={() => toggleType(type)}>
+                    <Check className={cn('mr-2 h-4 w-4', value.types.includes(type) ? 'opacity-100' : 'opacity-0')} />
+                    {type}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+
+      {/* Sort */}
+      <Select
+        value={sortValue}
+        onValueChange={(sort) => onChange({ sort: sort === 'relevance' ? undefined : (sort as SortField) })}
+      >
+        <SelectTrigger className="h-9 w-[160px]">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {SORT_OPTIONS.filter((option) => option.value !== 'relevance' || searching).map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button
+        variant="outline"
+        size="icon"
+        className="h-9 w-9"
+        disabled={sortValue === 'relevance'}
+        onClick={() => onChange({ dir: value.dir === 'asc' ? 'desc' : 'asc' })}
+        aria-label={value.dir === 'asc' ? 'Sort descending' : 'Sort ascending'}
+      >
+        {value.dir === 'asc' ? <ArrowUpNarrowWide className="h-4 w-4" /> : <ArrowDownWideNarrow className="h-4 w-4" />}
+      </Button>
+
+      {hasFilters && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onChange({ from: undefined, to: undefined, types: [], sort: undefined, dir: 'desc' })}
+        >
+          <X className="mr-1 h-4 w-4" />
+          Reset
+        </Button>
+      )}
+    </div>
+  );
+};
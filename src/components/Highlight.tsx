@@ -0,0 +1,20 @@
+import { highlightSegments, SearchQuery } from '@/lib/search';
+
+interface HighlightProps {
+  text: string;
+  query: SearchQuery;
+}
+
+export const Highlight = ({ text, query }: HighlightProps) => (
+  <>
+    {highlightSegments(text, query).map((segment, i) =>
+      segment.match ? (
+        <mark key={i} className="rounded-sm bg-yellow-200 px-0.5 text-foreground">
+          {segment.text}
+        </mark>
+      ) : (
+        <span key={i}>{segment.text}</span>
+      )
+    )}
+  </>
+);
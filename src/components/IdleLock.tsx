@@ -0,0 +1,212 @@
+import { useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Lock } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { auth } from '@/lib/repository';
+import { appConfig } from '@/lib/config';
+import {
+  checkLockPassword,
+  checkPin,
+  hasPin,
+  isLocked,
+  lastActivity,
+  pinExhausted,
+  recordActivity,
+  setLocked as storeLocked,
+} from '@/lib/idleLock';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { toast } from 'sonner';
+
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart', 'scroll'] as const;
+const CHECK_INTERVAL_MS = 10_000;
+// Pointer moves fire constantly; storing every one would be wasted work.
+const ACTIVITY_WRITE_INTERVAL_MS = 5_000;
+const BLUR = 'blur(12px)';
+
+/**
+ * Covers the app with a lock screen after idleLockMinutes without input, and
+ * signs out after idleSignOutMinutes. The app stays mounted underneath,
+ * blurred and inert, so half-filled forms are still there after unlocking.
+ */
+export const IdleLock = () => {
+  const { user, signOut } = useAuth();
+  const [locked, setLocked] = useState(false);
+  const [usePassword, setUsePassword] = useState(false);
+  const [secret, setSecret] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [checking, setChecking] = useState(false);
+  const overlayRef = useRef<HTMLDivElement>(null);
+  // signOut is a new function on every AuthProvider render.
+  const signOutRef = useRef(signOut);
+  signOutRef.current = signOut;
+
+  const userId = user?.id;
+  const lockMs = appConfig.idleLockMinutes * 60_000;
+  const signOutMs = appConfig.idleSignOutMinutes * 60_000;
+
+  useEffect(() => {
+    if (!userId || (!lockMs && !signOutMs)) {
+      setLocked(false);
+      return;
+    }
+
+    let lastWrite = 0;
+    const handleActivity = () => {
+      if (isLocked()) return;
+      const now = Date.now();
+      if (now - lastWrite >= ACTIVITY_WRITE_INTERVAL_MS) {
+        lastWrite = now;
+        recordActivity(now);
+      }
+    };
+
+    const check = () => {
+      const idle = Date.now() - lastActivity();
+      if (signOutMs && idle >= signOutMs) {
+        toast.info('Signed out after a period of inactivity');
+        signOutRef.current();
+        return;
+      }
+      if (lockMs && idle >= lockMs && !isLocked()) {
+        storeLocked(true);
+      }
+      setLocked(isLocked());
+    };
+
+    check();
+    const timer = window.setInterval(check, CHECK_INTERVAL_MS);
+    ACTIVITY_EVENTS.forEach((name) => window.addEventListener(name, handleActivity, { passive: true }));
+    // Locking or unlocking in another tab.
+    window.addEventListener('storage', check);
+    return () => {
+      window.clearInterval(timer);
+      ACTIVITY_EVENTS.forEach((name) => window.removeEventListener(name, handleActivity));
+      window.removeEventListener('storage', check);
+    };
+  }, [userId, lockMs, signOutMs]);
+
+  // Blur and disable everything else on the page, including open dialogs,
+  // which portal outside #root.
+  useEffect(() => {
+    if (!locked) return;
+    setUsePassword(!userId || !hasPin(userId) || pinExhausted(userId));
+    setSecret('');
+    setError(null);
+
+    const covered = Array.from(document.body.children).filter(
+      (element): element is HTMLElement => element instanceof HTMLElement && !element.contains(overlayRef.current)
+    );
+    const previous = covered.map((element) => ({ element, filter: element.style.filter, inert: element.inert }));
+    covered.forEach((element) => {
+      element.style.filter = BLUR;
+      element.inert = true;
+    });
+    return () => {
+      previous.forEach(({ element, filter, inert }) => {
+        element.style.filter = filter;
+        element.inert = inert;
+      });
+    };
+  }, [locked, userId]);
+
+  if (!locked || !user) return null;
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!secret) return;
+    setChecking(true);
+    setError(null);
+    try {
+      const result = usePassword
+        ? await checkLockPassword(user.id, () => auth.verifyPassword(secret))
+        : await checkPin(user.id, secret);
+
+      if (result === 'ok') {
+        storeLocked(false);
+        recordActivity();
+        setLocked(false);
+        return;
+      }
+
+      setSecret('');
+      if (result === 'exhausted') {
+        toast.error(
+          usePassword
+            ? 'Too many incorrect passwords. Sign in again.'
+            : 'Too many incorrect PINs. Sign in again with your password.'
+        );
+        signOut();
+      } else {
+        setError(usePassword ? 'Incorrect password' : 'Incorrect PIN');
+      }
+    } catch (error) {
+      setError('Error checking: ' + (error as Error).message);
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  return createPortal(
+    <div
+      ref={overlayRef}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="idle-lock-title"
+      // Radix dialogs turn off pointer events on the body while open.
+      style={{ pointerEvents: 'auto' }}
+      className="fixed inset-0 z-[100] flex items-center justify-center bg-background/60 p-4"
+    >
+      <Card className="w-full max-w-sm shadow-lg">
+        <CardHeader className="items-center text-center">
+          <Lock className="h-10 w-10 text-primary" />
+          <CardTitle id="idle-lock-title">Screen Locked</CardTitle>
+          <CardDescription>
+            Locked after inactivity. Signed in as <span className="font-medium text-foreground">{user.email}</span>
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleUnlock} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="idle-lock-secret">{usePassword ? 'Password' : 'PIN'}</Label>
+              <Input
+                id="idle-lock-secret"
+                type="password"
+                inputMode={usePassword ? undefined : 'numeric'}
+                autoComplete={usePassword ? 'current-password' : 'off'}
+                value={secret}
+                onChange={(e) => setSecret(e.target.value)}
+                disabled={checking}
+                autoFocus
+              />
+              {error && <p className="text-sm text-destructive">{error}</p>}
+            </div>
+            <Button type="submit" className="w-full" disabled={checking || !secret}>
+              {checking ? 'Checking...' : 'Unlock'}
+            </Button>
+            {!usePassword && (
+              <Button
+                type="button"
+                variant="link"
+                className="w-full"
+                onClick={() => {
+                  setUsePassword(true);
+                  setSecret('');
+                  setError(null);
+                }}
+              >
+                Use password instead
+              </Button>
+            )}
+            <Button type="button" variant="ghost" className="w-full" onClick={() => signOut()} disabled={checking}>
+              Sign out
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>,
+    document.body
+  );
+};
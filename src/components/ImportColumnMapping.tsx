@@ -0,0 +1,204 @@
+import { useState } from 'react';
+import { AlertCircle, Save, Trash2 } from 'lucide-react';
+import { splitFullName } from '@/lib/names';
+import {
+  ColumnMapping,
+  deleteTemplate,
+  FULL_NAME,
+  IMPORT_TARGETS,
+  ImportTemplate,
+  listTemplates,
+  mappingProblems,
+  saveTemplate,
+  templateMapping,
+} from '@/lib/importMapping';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from 'sonner';
+
+// Radix Select can't hold an empty value, so "ignore" stands in for unmapped.
+const IGNORE = 'ignore';
+const NO_TEMPLATE = 'none';
+const SAMPLE_COUNT = 3;
+
+const sampleValues = (rows: Record<string, unknown>[], header: string) =>
+  rows
+    .map((row) => row[header])
+    .filter((value) => value !== undefined && value !== null && String(value).trim() !== '')
+    .slice(0, SAMPLE_COUNT)
+    .map(String);
+
+const splitPreview = (value: string) => {
+  const parts = splitFullName(value);
+  return [
+    parts.last_name && `Last: ${parts.last_name}`,
+    parts.first_name && `First: ${parts.first_name}`,
+    parts.middle_name && `Middle: ${parts.middle_name}`,
+    parts.suffix && `Suffix: ${parts.suffix}`,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+};
+
+interface ImportColumnMappingProps {
+  headers: string[];
+  // The first rows of the sheet, for sample values.
+  rows: Record<string, unknown>[];
+  mapping: ColumnMapping;
+  onMappingChange: (mapping: ColumnMapping) => void;
+  // Name of the template the mapping came from, if any.
+  template: string | null;
+  onTemplateChange: (template: string | null) => void;
+}
+
+/**
+ * Matches the file's columns to entry fields, starting from suggestions or a
+ * saved template, and saves the result as a template for the next file.
+ */
+export const ImportColumnMapping = ({
+  headers,
+  rows,
+  mapping,
+  onMappingChange,
+  template,
+  onTemplateChange,
+}: ImportColumnMappingProps) => {
+  const [templates, setTemplates] = useState<ImportTemplate[]>(listTemplates);
+  const [templateName, setTemplateName] = useState(template ?? '');
+  const { missing, duplicates } = mappingProblems(mapping);
+
+  const applyTemplate = (name: string) => {
+    const selected = templates.find((t) => t.name === name);
+    onTemplateChange(selected ? selected.name : null);
+    if (selected) {
+      onMappingChange(templateMapping(selected, headers));
+      setTemplateName(selected.name);
+    }
+  };
+
+  const handleSave = () => {
+    try {
+      const saved = saveTemplate(templateName, mapping);
+      setTemplates(listTemplates());
+      onTemplateChange(saved.name);
+      toast.success(`Template "${saved.name}" saved`);
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!template) return;
+    deleteTemplate(template);
+    setTemplates(listTemplates());
+    onTemplateChange(null);
+    toast.success(`Template "${template}" deleted`);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label>Template</Label>
+          <div className="flex gap-2">
+            <Select value={template ?? NO_TEMPLATE} onValueChange={applyTemplate}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_TEMPLATE}>{templates.length ? 'No template' : 'No saved templates'}</SelectItem>
+                {templates.map((t) => (
+                  <SelectItem key={t.name} value={t.name}>
+                    {t.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="icon" onClick={handleDelete} disabled={!template} aria-label="Delete template">
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="import-template-name">Save mapping as</Label>
+          <div className="flex gap-2">
+            <Input
+              id="import-template-name"
+              placeholder="e.g. Station 5 logbook"
+              value={templateName}
+              onChange={(e) => setTemplateName(e.target.value)}
+            />
+            <Button variant="outline" onClick={handleSave} disabled={!templateName.trim()}>
+              <Save className="mr-2 h-4 w-4" />
+              Save
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {(missing.length > 0 || duplicates.length > 0) && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            {missing.length > 0 && <p>Choose a column for: {missing.join(', ')}.</p>}
+            {duplicates.length > 0 && <p>Only one column can go to: {duplicates.join(', ')}.</p>}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="rounded-md border bg-background">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Column in File</TableHead>
+              <TableHead>Sample Values</TableHead>
+              <TableHead className="w-56">Import As</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {headers.map((header) => {
+              const samples = sampleValues(rows, header);
+              const target = mapping[header];
+              return (
+                <TableRow key={header} className="align-top">
+                  <TableCell className="font-medium">{header}</TableCell>
+                  <TableCell className="max-w-md text-sm text-muted-foreground">
+                    {samples.length === 0 && <span className="italic">All blank</span>}
+                    {samples.map((sample, i) => (
+                      <p key={i} className="truncate">
+                        {sample}
+                        {target === FULL_NAME && <span className="text-foreground"> → {splitPreview(sample)}</span>}
+                      </p>
+                    ))}
+                  </TableCell>
+                  <TableCell>
+                    <Select
+                      value={target ?? IGNORE}
+                      onValueChange={(value) => onMappingChange({ ...mapping, [header]: value === IGNORE ? null : value })}
+                    >
+                      <SelectTrigger className={target ? '' : 'text-muted-foreground'}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={IGNORE}>Don't import</SelectItem>
+                        {IMPORT_TARGETS.map(({ value, label }) => (
+                          <SelectItem key={value} value={value}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
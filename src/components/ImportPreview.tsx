@@ -0,0 +1,390 @@
+import { useState } from 'react';
+import { AlertCircle, AlertTriangle, Copy, SlidersHorizontal } from 'lucide-react';
+import { BlotterEntry, ENTRY_STATUSES, EntryStatus, personName } from '@/lib/types';
+import { ImportCheck, ImportIssues, ImportRow, hasIssues, importAction } from '@/lib/importer';
+import { DUPLICATE_RESOLUTIONS, DuplicateResolution, ImportDuplicate } from '@/lib/duplicates';
+import { REVISION_FIELDS } from '@/lib/revisions';
+import { SUBJECT_FIELDS, SubjectErrors } from '@/lib/subject';
+import { SubjectProfileFields } from '@/components/SubjectProfileFields';
+import { AliasInput } from '@/components/AliasInput';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { cn } from '@/lib/utils';
+
+const ROWS_PER_PAGE = 25;
+
+type PreviewFilter = 'all' | 'problems' | 'duplicates' | 'excluded';
+
+const SUBJECT_FIELD_SET = new Set<string>(SUBJECT_FIELDS);
+
+// Profile messages ("Enter the ID number") don't name their field; the
+// required-field ones do.
+const issueMessages = (issues: ImportIssues) =>
+  Object.entries(issues).map(([field, message]) =>
+    SUBJECT_FIELD_SET.has(field)
+      ? `${REVISION_FIELDS.find((column) => column.field === field)?.label ?? field}: ${message}`
+      : message
+  );
+
+const subjectErrors = (errors: ImportIssues): SubjectErrors =>
+  Object.fromEntries(Object.entries(errors).filter(([field]) => SUBJECT_FIELD_SET.has(field)));
+
+// A repeat of an earlier row has no entry to update yet.
+const resolutionsFor = (duplicate: ImportDuplicate) =>
+  DUPLICATE_RESOLUTIONS.filter(({ value }) => value !== 'update' || duplicate.kind === 'existing');
+
+const DuplicateNotice = ({ duplicate }: { duplicate: ImportDuplicate }) => (
+  <p className="flex gap-1 text-amber-600">
+    <Copy className="h-3.5 w-3.5 shrink-0" />
+    {duplicate.kind === 'existing' ? (
+      <span>
+        Probable duplicate of{' '}
+        <a href={`#/entry/${duplicate.entry.id}`} target="_blank" rel="noreferrer" className="underline">
+          entry #{duplicate.entry.id}
+        </a>{' '}
+        ({personName(duplicate.entry)}, {duplicate.entry.case_type})
+      </span>
+    ) : (
+      <span>Probable duplicate of row {duplicate.rowNumber}</span>
+    )}
+  </p>
+);
+
+interface ImportPreviewProps {
+  rows: ImportRow[];
+  // One per row, in the same order.
+  checks: ImportCheck[];
+  duplicates: (ImportDuplicate | undefined)[];
+  caseTypes: string[];
+  onEntryChange: (rowNumber: number, changes: Partial<BlotterEntry>) => void;
+  onExcludedChange: (rowNumbers: number[], excluded: boolean) => void;
+  onResolutionChange: (rowNumbers: number[], resolution: DuplicateResolution) => void;
+}
+
+/**
+ * The rows of an import file as an editable table. Problems are flagged on
+ * the cells and listed per row; rows can be fixed in place or left out, and
+ * probable duplicates skipped, imported anyway or saved over the entry they
+ * repeat.
+ */
+export const ImportPreview = ({
+  rows,
+  checks,
+  duplicates,
+  caseTypes,
+  onEntryChange,
+  onExcludedChange,
+  onResolutionChange,
+}: ImportPreviewProps) => {
+  const [filter, setFilter] = useState<PreviewFilter>('all');
+  const [page, setPage] = useState(1);
+  const [detailsFor, setDetailsFor] = useState<number | null>(null);
+
+  const items = rows.map((row, i) => ({ row, check: checks[i], duplicate: duplicates[i] }));
+  const withErrors = items.filter(
+    ({ row, check, duplicate }) => importAction(row, duplicate) !== 'skip' && hasIssues(check.errors)
+  );
+  const withDuplicates = items.filter(({ row, duplicate }) => duplicate && !row.excluded);
+  const visible = items.filter(({ row, check, duplicate }) =>
+    filter === 'excluded'
+      ? row.excluded
+      : filter === 'problems'
+        ? hasIssues(check.errors) || hasIssues(check.warnings)
+        : filter === 'duplicates'
+          ? duplicate && !row.excluded
+          : true
+  );
+  const totalPages = Math.max(1, Math.ceil(visible.length / ROWS_PER_PAGE));
+  const currentPage = Math.min(page, totalPages);
+  const pageItems = visible.slice((currentPage - 1) * ROWS_PER_PAGE, currentPage * ROWS_PER_PAGE);
+  const details = items.find(({ row }) => row.rowNumber === detailsFor);
+
+  const cellClass = (errors: ImportIssues, warnings: ImportIssues, field: keyof ImportIssues) =>
+    cn('h-8 text-sm', errors[field] ? 'border-destructive' : warnings[field] && 'border-amber-500');
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <Tabs
+          value={filter}
+          onValueChange={(value) => {
+            setFilter(value as PreviewFilter);
+            setPage(1);
+          }}
+        >
+          <TabsList>
+            <TabsTrigger value="all">All ({rows.length})</TabsTrigger>
+            <TabsTrigger value="problems">
+              Problems ({items.filter(({ check }) => hasIssues(check.errors) || hasIssues(check.warnings)).length})
+            </TabsTrigger>
+            <TabsTrigger value="duplicates">Duplicates ({withDuplicates.length})</TabsTrigger>
+            <TabsTrigger value="excluded">Excluded ({rows.filter((row) => row.excluded).length})</TabsTrigger>
+          </TabsList>
+        </Tabs>
+        <div className="flex flex-wrap items-center gap-2">
+          {withDuplicates.length > 0 && (
+            <Select
+              value=""
+              onValueChange={(value) =>
+                onResolutionChange(
+                  withDuplicates.map(({ row }) => row.rowNumber),
+                  value as DuplicateResolution
+                )
+              }
+            >
+              <SelectTrigger className="h-9 w-56">
+                <SelectValue placeholder={`All ${withDuplicates.length} duplicates...`} />
+              </SelectTrigger>
+              <SelectContent>
+                {DUPLICATE_RESOLUTIONS.map(({ value, label }) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {withErrors.length > 0 && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => onExcludedChange(withErrors.map(({ row }) => row.rowNumber), true)}
+            >
+              Exclude {withErrors.length} {withErrors.length === 1 ? 'row' : 'rows'} with errors
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <datalist id="import-case-types">
+        {caseTypes.map((caseType) => (
+          <option key={caseType} value={caseType} />
+        ))}
+      </datalist>
+
+      <div className="rounded-md border bg-background">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-10">
+                <span className="sr-only">Include</span>
+              </TableHead>
+              <TableHead className="w-12">Row</TableHead>
+              <TableHead>Date</TableHead>
+              <TableHead>Last Name</TableHead>
+              <TableHead>First Name</TableHead>
+              <TableHead>Case Type</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Narrative</TableHead>
+              <TableHead>Issues</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {pageItems.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={9} className="py-8 text-center text-muted-foreground">
+                  {filter === 'excluded'
+                    ? 'No rows are excluded.'
+                    : filter === 'duplicates'
+                      ? 'No probable duplicates.'
+                      : 'No rows with problems.'}
+                </TableCell>
+              </TableRow>
+            )}
+            {pageItems.map(({ row, check, duplicate }) => {
+              const { entry, rowNumber } = row;
+              const { errors, warnings } = check;
+              const update = (changes: Partial<BlotterEntry>) => onEntryChange(rowNumber, changes);
+              const resolution = duplicate && importAction(row, duplicate) === 'skip' ? 'skip' : row.resolution;
+              // A blank status saves as open, and leaves an updated entry's as it is.
+              const status = entry.status ?? 'open';
+              return (
+                <TableRow
+                  key={rowNumber}
+                  className={cn('align-top', importAction(row, duplicate) === 'skip' && 'opacity-50')}
+                >
+                  <TableCell>
+                    <Checkbox
+                      checked={!row.excluded}
+                      onCheckedChange={(checked) => onExcludedChange([rowNumber], checked !== true)}
+                      aria-label={`Include row ${rowNumber}`}
+                      className="mt-2"
+                    />
+                  </TableCell>
+                  <TableCell className="pt-4 text-muted-foreground">{rowNumber}</TableCell>
+                  <TableCell>
+                    <Input
+                      value={entry.date}
+                      placeholder="YYYY-MM-DD"
+                      onChange={(e) => update({ date: e.target.value })}
+                      className={cn(cellClass(errors, warnings, 'date'), 'w-32')}
+                      aria-invalid={Boolean(errors.date)}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      value={entry.last_name}
+                      onChange={(e) => update({ last_name: e.target.value })}
+                      className={cn(cellClass(errors, warnings, 'last_name'), 'min-w-28')}
+                      aria-invalid={Boolean(errors.last_name)}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      value={entry.first_name}
+                      onChange={(e) => update({ first_name: e.target.value })}
+                      className={cn(cellClass(errors, warnings, 'first_name'), 'min-w-28')}
+                      aria-invalid={Boolean(errors.first_name)}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      value={entry.case_type}
+                      list="import-case-types"
+                      onChange={(e) => update({ case_type: e.target.value })}
+                      className={cn(cellClass(errors, warnings, 'case_type'), 'min-w-32')}
+                      aria-invalid={Boolean(errors.case_type)}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Select
+                      value={ENTRY_STATUSES.some((item) => item.value === status) ? status : undefined}
+                      onValueChange={(value) => update({ status: value as EntryStatus })}
+                    >
+                      <SelectTrigger className={cn(cellClass(errors, warnings, 'status'), 'w-40')}>
+                        <SelectValue placeholder="Choose status" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ENTRY_STATUSES.map((status) => (
+                          <SelectItem key={status.value} value={status.value}>
+                            {status.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell>
+                    <Textarea
+                      value={entry.blotter_entry}
+                      rows={2}
+                      onChange={(e) => update({ blotter_entry: e.target.value })}
+                      className={cn(cellClass(errors, warnings, 'blotter_entry'), 'h-auto min-h-0 min-w-64')}
+                      aria-invalid={Boolean(errors.blotter_entry)}
+                    />
+                  </TableCell>
+                  <TableCell className="min-w-56 space-y-1 text-xs">
+                    {issueMessages(errors).map((message) => (
+                      <p key={message} className="flex gap-1 text-destructive">
+                        <AlertCircle className="h-3.5 w-3.5 shrink-0" />
+                        {message}
+                      </p>
+                    ))}
+                    {issueMessages(warnings).map((message) => (
+                      <p key={message} className="flex gap-1 text-amber-600">
+                        <AlertTriangle className="h-3.5 w-3.5 shrink-0" />
+                        {message}
+                      </p>
+                    ))}
+                    {duplicate && !row.excluded && (
+                      <>
+                        <DuplicateNotice duplicate={duplicate} />
+                        <Select
+                          value={resolution ?? 'skip'}
+                          onValueChange={(value) => onResolutionChange([rowNumber], value as DuplicateResolution)}
+                        >
+                          <SelectTrigger className="h-7 w-40 text-xs">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {resolutionsFor(duplicate).map(({ value, label }) => (
+                              <SelectItem key={value} value={value}>
+                                {label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </>
+                    )}
+                    <Button
+                      variant="link"
+                      size="sm"
+                      className="h-auto p-0 text-xs"
+                      onClick={() => setDetailsFor(rowNumber)}
+                    >
+                      <SlidersHorizontal className="mr-1 h-3.5 w-3.5" />
+                      Subject details
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+
+      {totalPages > 1 && (
+        <div className="flex flex-col items-center justify-between gap-4 sm:flex-row">
+          <Button
+            variant="outline"
+            onClick={() => setPage(currentPage - 1)}
+            disabled={currentPage === 1}
+            className="w-full sm:w-auto"
+          >
+            Previous
+          </Button>
+          <div className="text-center text-sm text-muted-foreground">
+            Page {currentPage} of {totalPages}
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => setPage(currentPage + 1)}
+            disabled={currentPage >= totalPages}
+            className="w-full sm:w-auto"
+          >
+            Next
+          </Button>
+        </div>
+      )}
+
+      <Dialog open={details !== undefined} onOpenChange={(open) => !open && setDetailsFor(null)}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          {details && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Row {details.row.rowNumber}</DialogTitle>
+                <DialogDescription>
+                  {details.row.entry.first_name} {details.row.entry.last_name} · Changes apply to the import only.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="import-aliases">Aliases</Label>
+                  <AliasInput
+                    id="import-aliases"
+                    value={details.row.entry.aliases ?? []}
+                    onChange={(aliases) => onEntryChange(details.row.rowNumber, { aliases })}
+                  />
+                </div>
+                <SubjectProfileFields
+                  value={details.row.entry}
+                  onChange={(changes) => onEntryChange(details.row.rowNumber, changes)}
+                  errors={subjectErrors(details.check.errors)}
+                />
+              </div>
+              <DialogFooter>
+                <Button onClick={() => setDetailsFor(null)}>Done</Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
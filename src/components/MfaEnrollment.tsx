@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { auth, MfaEnrollment as Enrollment } from '@/lib/repository';
+import { toast } from 'sonner';
+
+export const MFA_CODE_LENGTH = 6;
+
+interface MfaCodeInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  onComplete?: (value: string) => void;
+  disabled?: boolean;
+}
+
+// The six-digit code from an authenticator app.
+export const MfaCodeInput = ({ value, onChange, onComplete, disabled }: MfaCodeInputProps) => (
+  <InputOTP
+    maxLength={MFA_CODE_LENGTH}
+    value={value}
+    onChange={(next) => onChange(next.replace(/\D/g, ''))}
+    onComplete={onComplete}
+    disabled={disabled}
+    inputMode="numeric"
+    autoFocus
+  >
+    <InputOTPGroup>
+      {Array.from({ length: MFA_CODE_LENGTH }, (_, index) => (
+        <InputOTPSlot key={index} index={index} />
+      ))}
+    </InputOTPGroup>
+  </InputOTP>
+);
+
+interface MfaEnrollmentProps {
+  onEnrolled: () => void | Promise<void>;
+}
+
+// Sets up an authenticator app: shows its QR code, then confirms it with a
+// first code.
+export const MfaEnrollment = ({ onEnrolled }: MfaEnrollmentProps) => {
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [code, setCode] = useState('');
+  const [starting, setStarting] = useState(false);
+  const [verifying, setVerifying] = useState(false);
+
+  const handleStart = async () => {
+    setStarting(true);
+    try {
+      setEnrollment(await auth.enrollMfa());
+      setCode('');
+    } catch (error) {
+      toast.error('Error setting up two-factor authentication: ' + (error as Error).message);
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const handleVerify = async (value = code) => {
+    if (!enrollment || value.length < MFA_CODE_LENGTH) return;
+    setVerifying(true);
+    try {
+      await auth.verifyMfa(value, enrollment.factorId);
+      toast.success('Two-factor authentication is on');
+      setEnrollment(null);
+      await onEnrolled();
+    } catch (error) {
+      toast.error('That code did not work: ' + (error as Error).message);
+      setCode('');
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  if (!enrollment) {
+    return (
+      <Button onClick={handleStart} disabled={starting} className="w-full">
+        {starting ? 'Preparing...' : 'Set Up Authenticator App'}
+      </Button>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Scan this code with an authenticator app such as Google Authenticator, Microsoft Authenticator or Authy.
+      </p>
+      <div className="flex justify-center">
+        <img src={enrollment.qrCode} alt="Authenticator QR code" className="h-48 w-48 rounded-md bg-white p-2" />
+      </div>
+      <p className="text-center text-xs text-muted-foreground">
+        Can't scan it? Enter this key instead:
+        <span className="mt-1 block select-all break-all font-mono text-sm text-foreground">{enrollment.secret}</span>
+      </p>
+      <div className="flex flex-col items-center gap-3">
+        <p className="text-sm">Enter the 6-digit code the app shows</p>
+        <MfaCodeInput value={code} onChange={setCode} onComplete={handleVerify} disabled={verifying} />
+      </div>
+      <div className="flex gap-2">
+        <Button variant="outline" className="flex-1" onClick={() => setEnrollment(null)} disabled={verifying}>
+          Cancel
+        </Button>
+        <Button
+          className="flex-1"
+          onClick={() => handleVerify()}
+          disabled={verifying || code.length < MFA_CODE_LENGTH}
+        >
+          {verifying ? 'Verifying...' : 'Verify'}
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,103 @@
+import { useEffect, useState } from 'react';
+import { Check, ChevronsUpDown, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { useDebounce } from '@/hooks/useDebounce';
+import { repository } from '@/lib/repository';
+import { Person, personName } from '@/lib/types';
+import { cn } from '@/lib/utils';
+
+interface PersonPickerProps {
+  value: Person[];
+  onChange: (persons: Person[]) => void;
+  placeholder?: string;
+}
+
+/**
+ * Multi-select for linking an entry to people already in the registry.
+ */
+export const PersonPicker = ({ value, onChange, placeholder = 'Link an existing person...' }: PersonPickerProps) => {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState('');
+  const debouncedSearch = useDebounce(search, 300);
+  const [results, setResults] = useState<Person[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setLoading(true);
+    repository
+      .searchPersons(debouncedSearch)
+      .then((persons) => {
+        if (!cancelled) setResults(persons);
+      })
+      .catch((error) => console.error('Unable to search persons', error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [debouncedSearch, open]);
+
+  const isSelected = (person: Person) => value.some((p) => p.id === person.id);
+
+  const toggle = (person: Person) => {
+    onChange(isSelected(person) ? value.filter((p) => p.id !== person.id) : [...value, person]);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            type="button"
+            variant="outline"
+            role="combobox"
+            aria-expanded={open}
+            className="w-full justify-between font-normal text-muted-foreground"
+          >
+            {placeholder}
+            <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+          <Command shouldFilter={false}>
+            <CommandInput placeholder="Search by name..." value={search} onValueChange={setSearch} />
+            <CommandList>
+              <CommandEmpty>{loading ? 'Searching...' : 'No matching persons.'}</CommandEmpty>
+              <CommandGroup>
+                {results.map((person) => (
+                  <CommandItem key={person.id} value={String(person.id)} onSelect={() => toggle(person)}>
+                    <Check className={cn('mr-2 h-4 w-4', isSelected(person) ? 'opacity-100' : 'opacity-0')} />
+                    {personName(person)}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {value.map((person) => (
+            <Badge key={person.id} variant="secondary" className="gap-1 pr-1">
+              {personName(person)}
+              <button
+                type="button"
+                onClick={() => toggle(person)}
+                className="rounded-full p-0.5 hover:bg-background/60"
+                aria-label={`Unlink ${personName(person)}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
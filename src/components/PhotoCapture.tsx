@@ -0,0 +1,109 @@
+import { useEffect, useRef, useState } from 'react';
+import { Camera, ImagePlus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { NewPhoto } from '@/lib/repository';
+import { preparePhoto } from '@/lib/images';
+import { toast } from 'sonner';
+
+interface PhotoCaptureProps {
+  onCapture: (photos: NewPhoto[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Camera and upload buttons. On phones, "Take Photo" opens the rear camera
+ * directly; every image is resized before it's handed to `onCapture`.
+ */
+export const PhotoCapture = ({ onCapture, disabled }: PhotoCaptureProps) => {
+  const cameraInputRef = useRef<HTMLInputElement>(null);
+  const uploadInputRef = useRef<HTMLInputElement>(null);
+  const [processing, setProcessing] = useState(false);
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    setProcessing(true);
+    const photos: NewPhoto[] = [];
+    for (const file of files) {
+      try {
+        photos.push(await preparePhoto(file));
+      } catch (error) {
+        toast.error('Error processing photo: ' + (error as Error).message);
+      }
+    }
+    setProcessing(false);
+    if (photos.length) onCapture(photos);
+  };
+
+  return (
+    <div className="flex gap-2">
+      <input
+        ref={cameraInputRef}
+        type="file"
+        accept="image/*"
+        capture="environment"
+        onChange={handleFiles}
+        className="hidden"
+      />
+      <input ref={uploadInputRef} type="file" accept="image/*" multiple onChange={handleFiles} className="hidden" />
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => cameraInputRef.current?.click()}
+        disabled={disabled || processing}
+      >
+        <Camera className="mr-2 h-4 w-4" />
+        Take Photo
+      </Button>
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => uploadInputRef.current?.click()}
+        disabled={disabled || processing}
+      >
+        <ImagePlus className="mr-2 h-4 w-4" />
+        {processing ? 'Processing...' : 'Upload'}
+      </Button>
+    </div>
+  );
+};
+
+const PendingPhoto = ({ photo, onRemove }: { photo: NewPhoto; onRemove: () => void }) => {
+  const [url, setUrl] = useState<string>();
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(photo.thumbnail);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [photo]);
+
+  return (
+    <div className="relative h-20 w-20 overflow-hidden rounded-md border">
+      {url && <img src={url} alt="" className="h-full w-full object-cover" />}
+      <button
+        type="button"
+        onClick={onRemove}
+        className="absolute right-1 top-1 rounded-full bg-background/80 p-0.5 hover:bg-background"
+        aria-label="Remove photo"
+      >
+        <X className="h-3 w-3" />
+      </button>
+    </div>
+  );
+};
+
+/**
+ * Thumbnails of photos picked but not saved yet.
+ */
+export const PendingPhotos = ({ photos, onChange }: { photos: NewPhoto[]; onChange: (photos: NewPhoto[]) => void }) =>
+  photos.length > 0 ? (
+    <div className="flex flex-wrap gap-2">
+      {photos.map((photo, i) => (
+        <PendingPhoto key={i} photo={photo} onRemove={() => onChange(photos.filter((p) => p !== photo))} />
+      ))}
+    </div>
+  ) : null;
@@ -0,0 +1,120 @@
+import { useEffect, useState } from 'react';
+import { ImageOff, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Carousel, CarouselContent, CarouselItem, CarouselNext, CarouselPrevious } from '@/components/ui/carousel';
+import { PhotoCapture } from '@/components/PhotoCapture';
+import { NewPhoto, repository } from '@/lib/repository';
+import { EntryPhoto } from '@/lib/types';
+import { useSync } from '@/contexts/SyncContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+
+interface PhotoGalleryProps {
+  entryId: number;
+}
+
+/**
+ * An entry's photos in a swipeable carousel, with camera/upload to add more.
+ */
+export const PhotoGallery = ({ entryId }: PhotoGalleryProps) => {
+  const { isOnline } = useSync();
+  const { can } = useAuth();
+  const canEdit = can('entries:edit');
+  const [photos, setPhotos] = useState<EntryPhoto[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [uploading, setUploading] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    repository
+      .listPhotos(entryId)
+      .then((data) => {
+        if (!cancelled) setPhotos(data);
+      })
+      .catch((error) => toast.error('Error loading photos: ' + error.message))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [entryId]);
+
+  const handleCapture = async (newPhotos: NewPhoto[]) => {
+    setUploading(true);
+    try {
+      for (const photo of newPhotos) {
+        const saved = await repository.addPhoto(entryId, photo);
+        setPhotos((prev) => [...prev, saved]);
+      }
+      toast.success(newPhotos.length === 1 ? 'Photo added' : `${newPhotos.length} photos added`);
+    } catch (error) {
+      toast.error('Error uploading photo: ' + (error as Error).message);
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleDelete = async (photo: EntryPhoto) => {
+    try {
+      await repository.deletePhoto(photo);
+      setPhotos((prev) => prev.filter((p) => p.id !== photo.id));
+      toast.success('Photo deleted');
+    } catch (error) {
+      toast.error('Error deleting photo: ' + (error as Error).message);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {loading ? (
+        <div className="flex h-48 items-center justify-center rounded-md bg-muted">
+          <div className="h-6 w-6 animate-spin rounded-full border-4 border-primary border-t-transparent"></div>
+        </div>
+      ) : photos.length === 0 ? (
+        <div className="flex h-32 flex-col items-center justify-center gap-2 rounded-md bg-muted text-sm text-muted-foreground">
+          <ImageOff className="h-6 w-6" />
+          No photos yet
+        </div>
+      ) : (
+        <Carousel className="mx-10">
+          <CarouselContent>
+            {photos.map((photo, i) => (
+              <CarouselItem key={photo.id}>
+                <div className="relative flex h-72 items-center justify-center overflow-hidden rounded-md bg-muted">
+                  <img
+                    src={photo.url}
+                    alt={`Photo ${i + 1} of ${photos.length}`}
+                    className="max-h-full max-w-full object-contain"
+                  />
+                  {canEdit && (
+                    <Button
+                      variant="destructive"
+                      size="icon"
+                      className="absolute right-2 top-2 h-8 w-8"
+                      onClick={() => handleDelete(photo)}
+                      aria-label="Delete photo"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                  <span className="absolute bottom-2 left-2 rounded bg-background/80 px-2 py-0.5 text-xs">
+                    {i + 1} / {photos.length}
+                  </span>
+                </div>
+              </CarouselItem>
+            ))}
+          </CarouselContent>
+          {photos.length > 1 && (
+            <>
+              <CarouselPrevious />
+              <CarouselNext />
+            </>
+          )}
+        </Carousel>
+      )}
+      {canEdit && <PhotoCapture onCapture={handleCapture} disabled={uploading || !isOnline} />}
+    </div>
+  );
+};
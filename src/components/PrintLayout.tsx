@@ -0,0 +1,136 @@
+import { ReactNode } from 'react';
+import { format } from 'date-fns';
+import { appConfig } from '@/lib/config';
+import { PAPER_SIZES, PaperSize, SIGNATORIES, Signatories } from '@/lib/report';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+/**
+ * Building blocks shared by the printable reports (a single entry and the
+ * logbook): the page itself, the letterhead and the certification. The
+ * matching PDF layout is in lib/report.
+ */
+
+const PAPER_WIDTHS: Record<PaperSize, string> = { a4: '210mm', letter: '8.5in' };
+const PAGE_MARGIN = '18mm';
+
+interface PrintPageProps {
+  paper: PaperSize;
+  // Printed at the bottom left of every page, beside the page number.
+  footer: string;
+  printedAt: Date;
+  printedBy: string;
+  children: ReactNode;
+}
+
+export const PrintPage = ({ paper, footer, printedAt, printedBy, children }: PrintPageProps) => (
+  <div className="overflow-x-auto px-4 pb-8 print:overflow-visible print:p-0">
+    {/* The browser numbers printed pages in the @page margin boxes. */}
+    <style>{`
+      @page {
+        size: ${PAPER_SIZES.find((size) => size.value === paper)?.css ?? 'A4'};
+        margin: ${PAGE_MARGIN};
+        @bottom-left { content: ${JSON.stringify(footer)}; font-size: 8pt; }
+        @bottom-right { content: "Page " counter(page) " of " counter(pages); font-size: 8pt; }
+      }
+      @media print {
+        html, body { background: white; }
+      }
+    `}</style>
+    <article
+      // The page width less its margins on screen; the printer sets it on paper.
+      style={{ width: `calc(${PAPER_WIDTHS[paper]} - 2 * ${PAGE_MARGIN})`, boxSizing: 'content-box' }}
+      className="mx-auto bg-white p-[18mm] font-serif text-black shadow-md print:!w-auto print:p-0 print:shadow-none"
+    >
+      {children}
+      <p className="mt-8 text-xs text-neutral-600">
+        Printed {format(printedAt, 'MMMM d, yyyy h:mm a')} by {printedBy}
+      </p>
+    </article>
+  </div>
+);
+
+export const ReportLetterhead = ({ station, title, subtitle }: { station: string; title: string; subtitle: string }) => (
+  <>
+    <div className="relative mb-6 border-b-2 border-black pb-4 text-center">
+      {appConfig.letterheadLogo && (
+        <img
+          src={appConfig.letterheadLogo}
+          alt=""
+          className="absolute left-0 top-0 h-20 w-20 object-contain"
+          onError={(e) => (e.currentTarget.style.display = 'none')}
+        />
+      )}
+      <div className="flex min-h-20 flex-col justify-center">
+        {appConfig.letterhead.map((line) => (
+          <p key={line} className="text-sm">
+            {line}
+          </p>
+        ))}
+        {station && <p className="text-base font-bold uppercase">{station}</p>}
+      </div>
+    </div>
+
+    <div className="mb-6 text-center">
+      <h2 className="text-xl font-bold">{title}</h2>
+      <p className="text-xs">{subtitle}</p>
+    </div>
+  </>
+);
+
+export const ReportCertification = ({ text, signatories }: { text: string; signatories: Signatories }) => (
+  <section className="break-inside-avoid">
+    <p className="mb-12 text-sm">{text}</p>
+    <div className="grid grid-cols-2 gap-12">
+      {SIGNATORIES.map(({ key, title, caption }) => (
+        <div key={key} className="text-sm">
+          <p className="mb-10">{caption}:</p>
+          <div className="border-t border-black pt-1 text-center">
+            <p className="min-h-5 font-bold">{signatories[key]}</p>
+            <p>{title}</p>
+          </div>
+        </div>
+      ))}
+    </div>
+  </section>
+);
+
+interface ReportSettingsProps {
+  paper: PaperSize;
+  onPaperChange: (paper: PaperSize) => void;
+  signatories: Signatories;
+  onSignatoriesChange: (signatories: Signatories) => void;
+}
+
+// Paper size and signatory names, above the page and left off the printout.
+export const ReportSettings = ({ paper, onPaperChange, signatories, onSignatoriesChange }: ReportSettingsProps) => (
+  <div className="grid gap-4 sm:grid-cols-3">
+    <div className="space-y-2">
+      <Label>Paper</Label>
+      <Select value={paper} onValueChange={(value) => onPaperChange(value as PaperSize)}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {PAPER_SIZES.map((size) => (
+            <SelectItem key={size.value} value={size.value}>
+              {size.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+    {SIGNATORIES.map(({ key, title }) => (
+      <div key={key} className="space-y-2">
+        <Label htmlFor={`report-${key}`}>{title}</Label>
+        <Input
+          id={`report-${key}`}
+          placeholder="Name and rank (optional)"
+          value={signatories[key]}
+          onChange={(e) => onSignatoriesChange({ ...signatories, [key]: e.target.value })}
+        />
+      </div>
+    ))}
+  </div>
+);
@@ -1,12 +1,26 @@
-import { Navigate } from 'react-router-dom';
+import { Link, Navigate } from 'react-router-dom';
+import { ShieldAlert } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Permission } from '@/lib/permissions';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
+  // Shown only to users whose role grants this.
+  permission?: Permission;
 }
 
-export const ProtectedRoute = ({ children }: ProtectedRouteProps) => {
-  const { user, loading } = useAuth();
+const AccessDenied = ({ title, message, children }: { title: string; message: string; children: React.ReactNode }) => (
+  <div className="flex min-h-screen flex-col items-center justify-center gap-4 bg-secondary p-4 text-center">
+    <ShieldAlert className="h-10 w-10 text-destructive" />
+    <h1 className="text-xl font-bold">{title}</h1>
+    <p className="max-w-sm text-sm text-muted-foreground">{message}</p>
+    {children}
+  </div>
+);
+
+export const ProtectedRoute = ({ children, permission }: ProtectedRouteProps) => {
+  const { user, loading, profile, role, can, mfaStep, signOut } = useAuth();
 
   if (loading) {
     return (
@@ -20,5 +34,38 @@ export const ProtectedRoute = ({ children }: ProtectedRouteProps) => {
     return <Navigate to="/login" replace />;
   }
 
+  if (!role) {
+    return (
+      <AccessDenied
+        title="No access"
+        message="Your account is inactive or hasn't been given a role yet. Ask an administrator for access."
+      >
+        <Button variant="outline" onClick={() => signOut()}>
+          Sign Out
+        </Button>
+      </AccessDenied>
+    );
+  }
+
+  // Temporary passwords from an invite or an admin reset must be replaced
+  // before anything else.
+  if (profile?.must_change_password) {
+    return <Navigate to="/set-password" replace />;
+  }
+
+  if (mfaStep) {
+    return <Navigate to="/mfa" replace />;
+  }
+
+  if (permission && !can(permission)) {
+    return (
+      <AccessDenied title="Not authorized" message="Your role doesn't allow access to this page.">
+        <Button variant="outline" asChild>
+          <Link to="/">Back to Blotter</Link>
+        </Button>
+      </AccessDenied>
+    );
+  }
+
   return <>{children}</>;
 };
@@ -0,0 +1,70 @@
+import { useMemo, useState } from 'react';
+import { Command, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { getSuggestions, QUALIFIERS } from '@/lib/qualifiers';
+
+interface SearchBarProps {
+  value: string;
+  onChange: (value: string) => void;
+  caseTypes: string[];
+  errors?: string[];
+}
+
+/**
+ * The blotter search box. Free text goes to full-text search; `key:value`
+ * qualifiers are autocompleted from the cmdk list under the input.
+ */
+export const SearchBar = ({ value, onChange, caseTypes, errors = [] }: SearchBarProps) => {
+  const [focused, setFocused] = useState(false);
+  const suggestions = useMemo(() => getSuggestions(value, { caseTypes }), [value, caseTypes]);
+  const open = focused && suggestions.length > 0;
+
+  return (
+    <div className="space-y-1">
+      <div className="relative">
+        <Command
+          shouldFilter={false}
+          className="overflow-visible rounded-md border bg-background [&_[cmdk-input-wrapper]]:border-b-0"
+        >
+          <CommandInput
+            placeholder="Search names, case type, narrative... or try type:theft"
+            className="h-10 text-foreground"
+            value={value}
+            onValueChange={onChange}
+            onFocus={() => setFocused(true)}
+            onBlur={() => setFocused(false)}
+          />
+          {open && (
+            <CommandList
+              className="absolute left-0 right-0 top-full z-20 mt-1 rounded-md border bg-popover shadow-md"
+              // Keep focus in the input so clicking a suggestion doesn't close the list first.
+              onMouseDown={(e) => e.preventDefault()}
+            >
+              <CommandGroup heading="Suggestions">
+                {suggestions.map((suggestion) => (
+                  <CommandItem
+                    key={suggestion.label}
+                    value={suggestion.label}
+                    onSelect={() => onChange(suggestion.value)}
+                  >
+                    <span className="font-mono">{suggestion.label}</span>
+                    {suggestion.description && (
+                      <span className="ml-auto text-xs text-muted-foreground">{suggestion.description}</span>
+                    )}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </CommandList>
+          )}
+        </Command>
+      </div>
+      {errors.length > 0 ? (
+        <p className="text-xs text-destructive">{errors.join('. ')}</p>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          Use "quotes" for an exact phrase and -word to exclude. Filters:{' '}
+          {QUALIFIERS.map((q) => q.example).join(' ')}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,135 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { BlotterEntry, CIVIL_STATUSES, ID_TYPES, NAME_SUFFIXES, SEXES } from '@/lib/types';
+import { computeAge, SubjectErrors } from '@/lib/subject';
+
+interface SubjectProfileFieldsProps {
+  value: BlotterEntry;
+  onChange: (changes: Partial<BlotterEntry>) => void;
+  errors?: SubjectErrors;
+}
+
+// Radix Select can't hold an empty value, so "none" stands in for unset.
+const NONE = 'none';
+
+const FieldError = ({ message }: { message?: string }) =>
+  message ? <p className="text-xs text-destructive">{message}</p> : null;
+
+/**
+ * The optional subject profile inputs shared by the add and edit forms.
+ */
+export const SubjectProfileFields = ({ value, onChange, errors = {} }: SubjectProfileFieldsProps) => {
+  const age = computeAge(value.date_of_birth);
+
+  const handleInput = (e: React.ChangeEvent<HTMLInputElement>) => onChange({ [e.target.name]: e.target.value });
+
+  const optionalSelect = (
+    field: 'suffix' | 'sex' | 'civil_status' | 'id_type',
+    options: { value: string; label: string }[],
+    placeholder: string
+  ) => (
+    <Select
+      value={value[field] || NONE}
+      onValueChange={(selected) => onChange({ [field]: selected === NONE ? null : selected })}
+    >
+      <SelectTrigger id={field}>
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NONE}>{placeholder}</SelectItem>
+        {options.map((option) => (
+          <SelectItem key={option.value} value={option.value}>
+            {option.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="middle_name">Middle Name</Label>
+          <Input id="middle_name" name="middle_name" value={value.middle_name ?? ''} onChange={handleInput} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="suffix">Suffix</Label>
+          {optionalSelect('suffix', NAME_SUFFIXES.map((suffix) => ({ value: suffix, label: suffix })), 'None')}
+          <FieldError message={errors.suffix} />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="date_of_birth">Date of Birth</Label>
+          <Input
+            id="date_of_birth"
+            name="date_of_birth"
+            type="date"
+            value={value.date_of_birth ?? ''}
+            onChange={handleInput}
+          />
+          {errors.date_of_birth ? (
+            <FieldError message={errors.date_of_birth} />
+          ) : (
+            age !== undefined && <p className="text-xs text-muted-foreground">Age {age}</p>
+          )}
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="sex">Sex</Label>
+          {optionalSelect('sex', SEXES, 'Not specified')}
+          <FieldError message={errors.sex} />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="civil_status">Civil Status</Label>
+        {optionalSelect('civil_status', CIVIL_STATUSES, 'Not specified')}
+        <FieldError message={errors.civil_status} />
+      </div>
+
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+        <div className="space-y-2">
+          <Label htmlFor="barangay">Barangay</Label>
+          <Input id="barangay" name="barangay" value={value.barangay ?? ''} onChange={handleInput} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="municipality">Municipality / City</Label>
+          <Input id="municipality" name="municipality" value={value.municipality ?? ''} onChange={handleInput} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="province">Province</Label>
+          <Input id="province" name="province" value={value.province ?? ''} onChange={handleInput} />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="contact_number">Contact Number</Label>
+        <Input
+          id="contact_number"
+          name="contact_number"
+          type="tel"
+          placeholder="0917 123 4567"
+          value={value.contact_number ?? ''}
+          onChange={handleInput}
+        />
+        <FieldError message={errors.contact_number} />
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="id_type">ID Presented</Label>
+          {optionalSelect('id_type', ID_TYPES.map((type) => ({ value: type, label: type })), 'None')}
+          <FieldError message={errors.id_type} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="id_number">ID Number</Label>
+          <Input id="id_number" name="id_number" value={value.id_number ?? ''} onChange={handleInput} />
+          <FieldError message={errors.id_number} />
+        </div>
+      </div>
+    </div>
+  );
+};
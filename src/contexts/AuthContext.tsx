@@ -1,6 +1,10 @@
-import React, { createContext, useContext, useEffect, useState } from 'react';
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
 import { User, Session } from '@supabase/supabase-js';
-import { supabase } from '@/lib/supabase';
+import { auth } from '@/lib/repository';
+import { takeAuthRedirect } from '@/lib/authRedirect';
+import { endIdleSession, startIdleSession } from '@/lib/idleLock';
+import { MfaStatus, UserProfile } from '@/lib/types';
+import { hasPermission, MFA_REQUIRED_ROLES, Permission, Role } from '@/lib/permissions';
 import { useNavigate } from 'react-router-dom';
 import { toast } from 'sonner';
 
@@ -10,6 +14,19 @@ interface AuthContextType {
   signIn: (email: string, password: string) => Promise<{ error: any }>;
   signOut: () => Promise<void>;
   loading: boolean;
+  // Role and status of the signed-in account; null until loaded or when the
+  // account has no profile.
+  profile: UserProfile | null;
+  role: Role | null;
+  can: (permission: Permission) => boolean;
+  mfa: MfaStatus | null;
+  // What the session still needs before ProtectedRoute lets it in: a code
+  // from the enrolled authenticator app, or enrolling one because the role
+  // requires it.
+  mfaStep: 'challenge' | 'enroll' | null;
+  // Re-reads the profile and MFA status, e.g. after the user changes a
+  // required password or verifies a code.
+  refreshProfile: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -18,6 +35,10 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const [loading, setLoading] = useState(true);
+  const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [mfa, setMfa] = useState<MfaStatus | null>(null);
+  // The user id the profile was last loaded for.
+  const [profileFor, setProfileFor] = useState<string | null>(null);
   const navigate = useNavigate();
 
   useEffect(() => {
@@ -25,7 +46,20 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
     // Initial session fetch
     const init = async () => {
-      const { data: { session } } = await supabase.auth.getSession();
+      // Finish signing in from an emailed link first, so the session below
+      // already includes it.
+      const redirect = takeAuthRedirect();
+      if (redirect) {
+        const { error } =
+          'error' in redirect ? { error: new Error(redirect.error) } : await auth.completeAuthRedirect(redirect);
+        if (error) {
+          toast.error(error.message);
+        } else {
+          startIdleSession();
+        }
+      }
+
+      const session = await auth.getSession();
       if (!mounted) return;
       setSession(session);
       setUser(session?.user ?? null);
@@ -34,7 +68,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     init();
 
     // Auth state changes after initial load
-    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+    const unsubscribe = auth.onAuthStateChange((session) => {
       if (!mounted) return;
       setSession(session);
       setUser(session?.user ?? null);
@@ -42,20 +76,74 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
     return () => {
       mounted = false;
-      subscription.unsubscribe();
+      unsubscribe();
     };
   }, []);
 
+  // Load the role separately from the auth callback, which must not make
+  // further auth calls of its own. Keyed on the id so token refreshes
+  // don't refetch.
+  const userId = user?.id;
+  useEffect(() => {
+    if (!userId) {
+      setProfile(null);
+      setMfa(null);
+      return;
+    }
+    let cancelled = false;
+    Promise.all([auth.getProfile(), auth.getMfaStatus()])
+      .then(([data, mfaStatus]) => {
+        if (cancelled) return;
+        setProfile(data);
+        setMfa(mfaStatus);
+      })
+      .catch((error) => {
+        console.error('Unable to load user profile', error);
+        if (cancelled) return;
+        setProfile(null);
+        setMfa(null);
+      })
+      .finally(() => {
+        if (!cancelled) setProfileFor(userId);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const refreshProfile = useCallback(async () => {
+    const [data, mfaStatus] = await Promise.all([auth.getProfile(), auth.getMfaStatus()]);
+    setProfile(data);
+    setMfa(mfaStatus);
+  }, []);
+
+  const profileLoading = Boolean(userId) && profileFor !== userId;
+  const role = profile?.active ? profile.role : null;
+  const can = useCallback((permission: Permission) => hasPermission(role, permission), [role]);
+
+  let mfaStep: AuthContextType['mfaStep'] = null;
+  if (mfa?.available && mfa.enrolled && !mfa.verified) {
+    mfaStep = 'challenge';
+  } else if (mfa?.available && !mfa.enrolled && role && MFA_REQUIRED_ROLES.includes(role)) {
+    mfaStep = 'enroll';
+  }
+
   const signIn = async (email: string, password: string) => {
-    const { error } = await supabase.auth.signInWithPassword({
-      email,
-      password,
-    });
+    const { error } = await auth.signInWithPassword(email, password);
 
     if (error) {
       toast.error(error.message);
       return { error };
     }
+    startIdleSession();
+
+    // With an authenticator app enrolled, the password alone only gets as
+    // far as the code prompt.
+    const mfaStatus = await auth.getMfaStatus().catch(() => null);
+    if (mfaStatus?.enrolled && !mfaStatus.verified) {
+      navigate('/mfa');
+      return { error: null };
+    }
 
     toast.success('Welcome back!');
     navigate('/');
@@ -68,18 +156,11 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       setUser(null);
       setSession(null);
       setLoading(true);
+      endIdleSession();
 
-      // Try global sign-out first (server).
-      const { error } = await supabase.auth.signOut();
-      // Always clear local persisted session to be safe.
-      await supabase.auth.signOut({ scope: 'local' });
+      const { error } = await auth.signOut();
       if (error) {
-        const msg = String(error.message || '').toLowerCase();
-        if (!(msg.includes('session') && msg.includes('missing'))) {
-          toast.error(error.message);
-        } else {
-          toast.success('Logged out successfully');
-        }
+        toast.error(error.message);
       } else {
         toast.success('Logged out successfully');
       }
@@ -93,7 +174,21 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   };
 
   return (
-    <AuthContext.Provider value={{ user, session, signIn, signOut, loading }}>
+    <AuthContext.Provider
+      value={{
+        user,
+        session,
+        signIn,
+        signOut,
+        loading: loading || profileLoading,
+        profile,
+        role,
+        can,
+        mfa,
+        mfaStep,
+        refreshProfile,
+      }}
+    >
       {children}
     </AuthContext.Provider>
   );
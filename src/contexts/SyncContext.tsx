@@ -0,0 +1,118 @@
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { listOutbox, subscribeOutbox, OutboxEntry } from '@/lib/outbox';
+import { syncOutbox } from '@/lib/sync';
+import { repository } from '@/lib/repository';
+import { toast } from 'sonner';
+
+const SYNC_INTERVAL_MS = 30_000;
+
+type SyncOptions = {
+  // Also retry entries the backend previously rejected.
+  includeFailed?: boolean;
+  // Skip the "synced" toast, e.g. when the caller already confirmed the save.
+  quiet?: boolean;
+};
+
+interface SyncContextType {
+  outbox: OutboxEntry[];
+  // Whether the data backend is reachable; always true for on-device backends.
+  isOnline: boolean;
+  syncing: boolean;
+  // Bumped whenever entries reach the server so lists know to refetch.
+  lastSyncedAt: number;
+  syncNow: (options?: SyncOptions) => Promise<void>;
+  // Makes lists refetch after a change made elsewhere, e.g. an undo.
+  refreshLists: () => void;
+}
+
+const SyncContext = createContext<SyncContextType | undefined>(undefined);
+
+export const SyncProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const [outbox, setOutbox] = useState<OutboxEntry[]>([]);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [syncing, setSyncing] = useState(false);
+  const [lastSyncedAt, setLastSyncedAt] = useState(0);
+
+  useEffect(() => {
+    let mounted = true;
+
+    const refresh = async () => {
+      try {
+        const items = await listOutbox();
+        if (mounted) setOutbox(items);
+      } catch (error) {
+        console.error('Unable to read offline outbox', error);
+      }
+    };
+    refresh();
+
+    const unsubscribe = subscribeOutbox(refresh);
+    return () => {
+      mounted = false;
+      unsubscribe();
+    };
+  }, []);
+
+  const syncNow = useCallback(
+    async ({ includeFailed = false, quiet = false }: SyncOptions = {}) => {
+      if (!user) return;
+      setSyncing(true);
+      try {
+        const { synced } = await syncOutbox(includeFailed);
+        if (synced > 0) {
+          setLastSyncedAt(Date.now());
+          if (repository.remote && !quiet) {
+            toast.success(`Synced ${synced} offline ${synced === 1 ? 'entry' : 'entries'}`);
+          }
+        }
+      } catch (error) {
+        console.error('Background sync failed', error);
+      } finally {
+        setSyncing(false);
+      }
+    },
+    [user]
+  );
+
+  const refreshLists = useCallback(() => setLastSyncedAt(Date.now()), []);
+
+  // Sync on sign-in, whenever the connection comes back, and periodically.
+  useEffect(() => {
+    if (!user) return;
+
+    const handleOnline = () => {
+      setIsOnline(true);
+      syncNow();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    const interval = window.setInterval(() => syncNow(), SYNC_INTERVAL_MS);
+    syncNow();
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      window.clearInterval(interval);
+    };
+  }, [user, syncNow]);
+
+  return (
+    <SyncContext.Provider
+      value={{ outbox, isOnline: isOnline || !repository.remote, syncing, lastSyncedAt, syncNow, refreshLists }}
+    >
+      {children}
+    </SyncContext.Provider>
+  );
+};
+
+export const useSync = () => {
+  const context = useContext(SyncContext);
+  if (context === undefined) {
+    throw new Error('useSync must be used within a SyncProvider');
+  }
+  return context;
+};
@@ -0,0 +1,72 @@
+import { useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { SortDirection, SortField } from '@/lib/repository';
+
+export type ListParams = {
+  q: string;
+  from?: string;
+  to?: string;
+  types: string[];
+  // Unset means relevance when searching, otherwise newest first.
+  sort?: SortField;
+  dir: SortDirection;
+  page: number;
+};
+
+const SORT_FIELDS: SortField[] = ['date', 'name', 'created_at'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const readParams = (params: URLSearchParams): ListParams => {
+  const sort = params.get('sort') as SortField | null;
+  const from = params.get('from');
+  const to = params.get('to');
+  const page = Number.parseInt(params.get('page') || '1', 10);
+  return {
+    q: params.get('q') || '',
+    from: from && DATE_PATTERN.test(from) ? from : undefined,
+    to: to && DATE_PATTERN.test(to) ? to : undefined,
+    types: params.getAll('type'),
+    sort: sort && SORT_FIELDS.includes(sort) ? sort : undefined,
+    dir: params.get('dir') === 'asc' ? 'asc' : 'desc',
+    page: Number.isFinite(page) && page > 0 ? page : 1,
+  };
+};
+
+const writeParams = (state: ListParams): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (state.q) params.set('q', state.q);
+  if (state.from) params.set('from', state.from);
+  if (state.to) params.set('to', state.to);
+  state.types.forEach((type) => params.append('type', type));
+  if (state.sort) params.set('sort', state.sort);
+  if (state.dir === 'asc') params.set('dir', 'asc');
+  if (state.page > 1) params.set('page', String(state.page));
+  return params;
+};
+
+/**
+ * BlotterList's search, filter, sort and page state, kept in the hash-router
+ * query string (e.g. `#/?q=motorcycle&type=Theft&sort=name&page=2`) so a view
+ * survives refreshes and can be bookmarked or shared.
+ */
+export const useListParams = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const params = useMemo(() => readParams(searchParams), [searchParams]);
+
+  // Anything other than a page change sends the user back to page 1.
+  // `replace` is for updates that shouldn't each add a history entry, like typing.
+  const updateParams = useCallback(
+    (changes: Partial<ListParams>, options: { replace?: boolean } = {}) => {
+      setSearchParams(
+        (current) => {
+          const next = { ...readParams(current), page: 1, ...changes };
+          return writeParams(next);
+        },
+        { replace: options.replace }
+      );
+    },
+    [setSearchParams]
+  );
+
+  return [params, updateParams] as const;
+};
@@ -0,0 +1,29 @@
+import { useEffect, useState } from 'react';
+import { useSync } from '@/contexts/SyncContext';
+import { repository } from '@/lib/repository';
+import { Person } from '@/lib/types';
+
+/**
+ * The full person registry for fuzzy name matching. Loads only once
+ * `enabled` (e.g. when a name is first typed) and again after each sync.
+ */
+export const usePersonRegistry = (enabled: boolean) => {
+  const { lastSyncedAt } = useSync();
+  const [persons, setPersons] = useState<Person[]>([]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+    repository
+      .listPersons()
+      .then((data) => {
+        if (!cancelled) setPersons(data);
+      })
+      .catch((error) => console.error('Unable to load person registry', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, lastSyncedAt]);
+
+  return persons;
+};
@@ -0,0 +1,60 @@
+import { AuditAction } from '@/lib/types';
+
+export const AUDIT_ACTIONS: { value: AuditAction; label: string }[] = [
+  { value: 'create', label: 'Created' },
+  { value: 'update', label: 'Updated' },
+  { value: 'delete', label: 'Deleted' },
+];
+
+export const AUDIT_TABLE_LABELS: Record<string, string> = {
+  blotter_entries: 'Entry',
+  persons: 'Person',
+  entry_persons: 'Person link',
+  entry_photos: 'Photo',
+};
+
+type Row = Record<string, unknown>;
+
+// Read-only or derived fields that shouldn't be logged as data.
+const DERIVED_FIELDS = ['persons', 'url', 'thumbnail_url', 'search_vector'];
+
+export const auditSnapshot = (row: object): Row => {
+  const snapshot: Row = { ...(row as Row) };
+  DERIVED_FIELDS.forEach((field) => delete snapshot[field]);
+  return snapshot;
+};
+
+/**
+ * The fields that differ between two versions of a row, as before/after
+ * halves. Returns null when nothing changed.
+ */
+export const diffRows = (before: object, after: object): { before: Row; after: Row } | null => {
+  const a = auditSnapshot(before);
+  const b = auditSnapshot(after);
+  const changed = Array.from(new Set([...Object.keys(a), ...Object.keys(b)])).filter(
+    (key) => JSON.stringify(a[key] ?? null) !== JSON.stringify(b[key] ?? null)
+  );
+  if (changed.length === 0) return null;
+  return {
+    before: Object.fromEntries(changed.map((key) => [key, a[key] ?? null])),
+    after: Object.fromEntries(changed.map((key) => [key, b[key] ?? null])),
+  };
+};
+
+/**
+ * ISO timestamps bounding whole local days, for filtering occurred_at.
+ * `end` is exclusive (midnight after the `to` day).
+ */
+export const dayBounds = (from?: string, to?: string) => {
+  const start = from ? new Date(`${from}T00:00:00`) : undefined;
+  const end = to ? new Date(`${to}T00:00:00`) : undefined;
+  end?.setDate(end.getDate() + 1);
+  return { start: start?.toISOString(), end: end?.toISOString() };
+};
+
+export const formatAuditValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (Array.isArray(value)) return value.length ? value.join(', ') : '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
@@ -0,0 +1,39 @@
+/**
+ * Emailed reset and sign-in links return with the session in the URL
+ * fragment (#access_token=...&type=recovery), which HashRouter would read as
+ * a route. captureAuthRedirect moves it out of the URL before the router
+ * mounts; AuthContext then takes it and completes the sign-in.
+ */
+
+export type AuthRedirect =
+  | { type: string; accessToken: string; refreshToken: string }
+  | { error: string };
+
+let pending: AuthRedirect | null = null;
+
+const replaceRoute = (route: string) =>
+  window.history.replaceState(null, '', `${window.location.pathname}${window.location.search}#${route}`);
+
+export const captureAuthRedirect = () => {
+  const params = new URLSearchParams(window.location.hash.replace(/^#/, ''));
+  const accessToken = params.get('access_token');
+  const refreshToken = params.get('refresh_token');
+
+  if (params.has('error') || params.has('error_description')) {
+    // Typically an expired or already used link.
+    pending = { error: params.get('error_description') || 'This link is invalid or has expired' };
+    replaceRoute('/login');
+  } else if (accessToken && refreshToken) {
+    const type = params.get('type') ?? 'magiclink';
+    pending = { type, accessToken, refreshToken };
+    // Invited users land on the blotter, where ProtectedRoute sends them on
+    // to choose a password because their profile requires it.
+    replaceRoute(type === 'recovery' ? '/set-password?reason=recovery' : '/');
+  }
+};
+
+export const takeAuthRedirect = () => {
+  const redirect = pending;
+  pending = null;
+  return redirect;
+};
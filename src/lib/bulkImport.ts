@@ -0,0 +1,168 @@
+import { NewBlotterEntry, repository } from '@/lib/repository';
+import { get, getAll, put, remove } from '@/lib/idb';
+
+/**
+ * Saving an import in chunks. Every chunk is one createEntries call tagged
+ * with the import batch's id, so a logbook of tens of thousands of rows never
+ * goes out as a single request. A chunk is saved whole or not at all, in
+ * order, so the number of entries the batch already holds says where to carry
+ * on, whether after a dropped request or a page reload. The rows wait in
+ * IndexedDB until the import finishes, each with its own local_id, so sending
+ * a chunk again returns the rows it already saved instead of repeating them.
+ *
+ * Rows that update existing entries go first, one at a time. The batch can't
+ * count them, so how many are done is kept with the pending import instead,
+ * and rolling the batch back doesn't undo them.
+ */
+
+export const IMPORT_CHUNK_SIZE = 500;
+// Tries per chunk before giving up; the delay doubles after each failure.
+export const MAX_ATTEMPTS = 5;
+const RETRY_DELAY_MS = 1000;
+
+export type ImportUpdate = {
+  // The existing entry's id.
+  id: number;
+  changes: Partial<NewBlotterEntry>;
+};
+
+export type PendingImport = {
+  // The import batch's id.
+  id: string;
+  file_name: string;
+  entries: NewBlotterEntry[];
+  updates: ImportUpdate[];
+  // How many of `updates` are applied.
+  updates_done: number;
+  started_at: string;
+};
+
+export type ImportProgress = {
+  // Updates applied and new entries saved, together.
+  saved: number;
+  total: number;
+  // Set while waiting to try a failed chunk again.
+  retry?: { attempt: number; error: string };
+};
+
+const STORE = 'pending_imports';
+
+/** The most recently started import that hasn't finished, if any. */
+export const getPendingImport = async (): Promise<PendingImport | undefined> => {
+  const items = await getAll<PendingImport>(STORE);
+  return items.sort((a, b) => b.started_at.localeCompare(a.started_at))[0];
+};
+
+// PostgREST reports a lost database connection as PGRST000-PGRST002 and a
+// statement timeout as 57014; the rest are lost requests and gateway errors.
+const TRANSIENT_CODES = ['PGRST000', 'PGRST001', 'PGRST002', '57014', '40001', '40P01'];
+const TRANSIENT_MESSAGES = ['failed to fetch', 'network', 'timeout', 'timed out', 'gateway', 'unavailable'];
+
+/** Whether a failed request is worth repeating as-is. */
+export const isTransientError = (error: unknown) => {
+  if (!repository.remote) return false;
+  const { message = '', code = '' } = (error ?? {}) as { message?: string; code?: string };
+  const msg = String(message).toLowerCase();
+  return !navigator.onLine || TRANSIENT_CODES.includes(code) || TRANSIENT_MESSAGES.some((word) => msg.includes(word));
+};
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const withRetry = async <T>(task: () => Promise<T>, onRetry: (attempt: number, error: Error) => void): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task();
+    } catch (error) {
+      if (attempt >= MAX_ATTEMPTS || !isTransientError(error)) throw error;
+      onRetry(attempt, error as Error);
+      await wait(RETRY_DELAY_MS * 2 ** (attempt - 1));
+    }
+  }
+};
+
+/** Opens an import batch for the rows and keeps them for resuming. */
+export const startImport = async (
+  fileName: string,
+  entries: NewBlotterEntry[],
+  updates: ImportUpdate[] = []
+): Promise<PendingImport> => {
+  const batch = await repository.createImportBatch({ file_name: fileName, total_rows: entries.length });
+  const pending: PendingImport = {
+    id: batch.id,
+    file_name: fileName,
+    entries: entries.map((entry) => ({ ...entry, local_id: crypto.randomUUID() })),
+    updates,
+    updates_done: 0,
+    started_at: batch.created_at,
+  };
+  await put(STORE, pending);
+  return pending;
+};
+
+/** How far an import got, counting applied updates as saved rows. */
+export const importProgress = async (pending: PendingImport): Promise<ImportProgress> => {
+  const stored = await get<PendingImport>(STORE, pending.id);
+  const saved = await repository.countImportBatchEntries(pending.id);
+  return {
+    saved: (stored ?? pending).updates_done + saved,
+    total: pending.updates.length + pending.entries.length,
+  };
+};
+
+/**
+ * Applies the updates not applied yet, then saves the rows the batch doesn't
+ * hold yet, one chunk at a time. Each chunk starts from a fresh count, so a
+ * request that failed after the database saved it isn't sent twice. Checks
+ * `shouldStop` between updates and chunks; returns true once every row is
+ * saved and the batch is marked completed.
+ */
+export const runImport = async (
+  pending: PendingImport,
+  onProgress: (progress: ImportProgress) => void,
+  shouldStop: () => boolean = () => false
+): Promise<boolean> => {
+  const total = pending.updates.length + pending.entries.length;
+  // The copy in the store is the one kept up to date.
+  let updatesDone = ((await get<PendingImport>(STORE, pending.id)) ?? pending).updates_done;
+  let saved = updatesDone;
+  const onRetry = (attempt: number, error: Error) =>
+    onProgress({ saved, total, retry: { attempt, error: error.message } });
+  onProgress({ saved, total });
+
+  while (updatesDone < pending.updates.length) {
+    if (shouldStop()) return false;
+    const { id, changes } = pending.updates[updatesDone];
+    await withRetry(() => repository.updateEntry(id, changes), onRetry);
+    updatesDone++;
+    await put(STORE, { ...pending, updates_done: updatesDone });
+    saved = updatesDone;
+    onProgress({ saved, total });
+  }
+
+  saved = updatesDone + (await withRetry(() => repository.countImportBatchEntries(pending.id), onRetry));
+  onProgress({ saved, total });
+
+  while (saved < total) {
+    if (shouldStop()) return false;
+    saved = await withRetry(async () => {
+      const done = await repository.countImportBatchEntries(pending.id);
+      const chunk = pending.entries.slice(done, done + IMPORT_CHUNK_SIZE);
+      if (chunk.length) await repository.createEntries(chunk.map((entry) => ({ ...entry, import_batch_id: pending.id })));
+      return updatesDone + done + chunk.length;
+    }, onRetry);
+    onProgress({ saved, total });
+  }
+
+  await withRetry(() => repository.setImportBatchStatus(pending.id, 'completed'), onRetry);
+  await remove(STORE, pending.id);
+  return true;
+};
+
+/**
+ * Gives up on an unfinished import. Rows already saved stay until rolled back;
+ * updates already applied stay for good.
+ */
+export const cancelImport = async (pending: PendingImport) => {
+  await repository.setImportBatchStatus(pending.id, 'cancelled');
+  await remove(STORE, pending.id);
+};
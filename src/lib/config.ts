@@ -0,0 +1,57 @@
+// Runtime configuration, read from Vite env variables (see `.env.example`).
+//
+// VITE_DATA_BACKEND selects where entries and accounts live:
+//   supabase - the hosted Supabase project (default)
+//   local    - IndexedDB on this device, for stations with no internet
+//   memory   - throwaway in-memory store seeded with sample data, for demos
+//              and training
+
+export type DataBackend = 'supabase' | 'local' | 'memory';
+
+const BACKENDS: DataBackend[] = ['supabase', 'local', 'memory'];
+
+const env = import.meta.env;
+
+const readBackend = (): DataBackend => {
+  const value = String(env.VITE_DATA_BACKEND || 'supabase').trim().toLowerCase();
+  if (!BACKENDS.includes(value as DataBackend)) {
+    throw new Error(`Unknown VITE_DATA_BACKEND "${value}". Expected one of: ${BACKENDS.join(', ')}`);
+  }
+  return value as DataBackend;
+};
+
+// "|"-separated lines from an env variable.
+const readLines = (name: string, fallback: string[]) => {
+  const raw = String(env[name] ?? '').trim();
+  return raw ? raw.split('|').map((line) => line.trim()).filter(Boolean) : fallback;
+};
+
+// Minutes from an env variable; 0 turns the feature off.
+const readMinutes = (name: string, fallback: number) => {
+  const raw = env[name];
+  if (raw === undefined || raw === '') return fallback;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0) {
+    throw new Error(`${name} must be a number of minutes, got "${raw}"`);
+  }
+  return value;
+};
+
+export const appConfig = {
+  backend: readBackend(),
+  supabaseUrl: env.VITE_SUPABASE_URL as string | undefined,
+  supabaseAnonKey: env.VITE_SUPABASE_ANON_KEY as string | undefined,
+  // Account created on first start of the local and memory backends.
+  localAdminEmail: (env.VITE_LOCAL_ADMIN_EMAIL as string | undefined) || 'admin@station.local',
+  localAdminPassword: (env.VITE_LOCAL_ADMIN_PASSWORD as string | undefined) || 'blotter',
+  // Printed on exports and reports for accounts without a station of their own.
+  stationName: (env.VITE_STATION_NAME as string | undefined) || '',
+  // Printed reports: letterhead lines above the station name, and the logo
+  // beside them (a URL or a path under public/; empty for none).
+  letterhead: readLines('VITE_LETTERHEAD', ['Republic of the Philippines', 'Philippine National Police']),
+  letterheadLogo: (env.VITE_LETTERHEAD_LOGO as string | undefined) ?? '/suspect.png',
+  // Idle time before the lock screen covers the app, and before the session
+  // is signed out entirely. Station terminals are shared.
+  idleLockMinutes: readMinutes('VITE_IDLE_LOCK_MINUTES', 5),
+  idleSignOutMinutes: readMinutes('VITE_IDLE_SIGN_OUT_MINUTES', 30),
+};
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { duplicateScore, findDuplicates, findImportDuplicates, narrativeSimilarity } from '@/lib/duplicates';
+import { BlotterEntry } from '@/lib/types';
+
+const entry = (changes: Partial<BlotterEntry> = {}): BlotterEntry => ({
+  blotter_entry: 'Stolen red motorcycle at the public market.',
+  first_name: 'Juan',
+  last_name: 'Dela Cruz',
+  case_type: 'Theft',
+  date: '2025-03-14',
+  ...changes,
+});
+
+// Shares 4 of its 7 words with the default narrative.
+const RETOLD = 'Stolen blue motorcycle at the town plaza.';
+
+describe('narrativeSimilarity', () => {
+  it.each([
+    ['Stolen red motorcycle at the public market.', 1],
+    ['STOLEN red motorcycle, at the public market', 1],
+    [RETOLD, 8 / 14],
+    ['Noise complaint from the neighbours.', 2 / 12],
+    ['', 0],
+  ])('%j is %f alike', (narrative, similarity) => {
+    expect(narrativeSimilarity(entry(), entry({ blotter_entry: narrative }))).toBeCloseTo(similarity);
+  });
+
+  it.each([
+    ['Peña', 'pena', 1],
+    ['', '', 1],
+    ['a b', 'c', 1],
+  ])('%j and %j are %f alike', (a, b, similarity) => {
+    expect(narrativeSimilarity(entry({ blotter_entry: a }), entry({ blotter_entry: b }))).toBe(similarity);
+  });
+});
+
+describe('duplicateScore', () => {
+  it.each([
+    ['the same entry', {}],
+    ['a sound-alike name', { first_name: 'Jhon', last_name: 'Delacruz' }],
+    ['a retold narrative of the same case type', { blotter_entry: RETOLD }],
+    ['the same narrative under another case type', { case_type: 'Robbery' }],
+    ['a case type differing in spacing and capitals', { case_type: ' theft ' }],
+  ])('%s is a duplicate', (_, changes) => {
+    expect(duplicateScore(entry(), entry(changes))).toBeGreaterThan(0);
+  });
+
+  it.each([
+    ['another date', { date: '2025-03-15' }],
+    ['another subject', { first_name: 'Maria', last_name: 'Reyes' }],
+    ['another incident', { blotter_entry: 'Noise complaint from the neighbours.' }],
+    ['a retold narrative under another case type', { blotter_entry: RETOLD, case_type: 'Robbery' }],
+  ])('%s is not a duplicate', (_, changes) => {
+    expect(duplicateScore(entry(), entry(changes))).toBe(0);
+  });
+
+  it('scores a matching case type above another one', () => {
+    expect(duplicateScore(entry(), entry())).toBeGreaterThan(duplicateScore(entry(), entry({ case_type: 'Robbery' })));
+  });
+});
+
+describe('findDuplicates', () => {
+  it('returns probable duplicates best first', () => {
+    const same = entry({ id: 1 });
+    const retold = entry({ id: 2, blotter_entry: RETOLD });
+    const other = entry({ id: 3, date: '2025-03-15' });
+    expect(findDuplicates(entry(), [retold, other, same]).map(({ entry }) => entry.id)).toEqual([1, 2]);
+  });
+});
+
+describe('findImportDuplicates', () => {
+  const row = (rowNumber: number, changes: Partial<BlotterEntry> = {}, excluded = false) => ({
+    rowNumber,
+    entry: entry(changes),
+    excluded,
+  });
+  const existing = [entry({ id: 1 })];
+
+  it('points each row at the entry or earlier row it repeats', () => {
+    const rows = [
+      row(2),
+      row(3, { date: '2025-04-01' }),
+      row(4, { date: '2025-04-01' }),
+      row(5, { date: '2025-04-01', blotter_entry: RETOLD }),
+      row(6, { date: '2025-05-01' }),
+    ];
+    expect(findImportDuplicates(rows, existing)).toEqual([
+      { kind: 'existing', entry: existing[0], score: expect.any(Number) },
+      undefined,
+      { kind: 'file', rowNumber: 3, score: expect.any(Number) },
+      { kind: 'file', rowNumber: 3, score: expect.any(Number) },
+      undefined,
+    ]);
+  });
+
+  it('prefers an existing entry over an earlier row', () => {
+    const duplicates = findImportDuplicates([row(2), row(3)], existing);
+    expect(duplicates.map((duplicate) => duplicate?.kind)).toEqual(['existing', 'existing']);
+  });
+
+  it('ignores excluded rows as originals but still checks them', () => {
+    const rows = [row(2, { date: '2025-04-01' }, true), row(3, { date: '2025-04-01' }), row(4, {}, true)];
+    expect(findImportDuplicates(rows, existing).map((duplicate) => duplicate?.kind)).toEqual([
+      undefined,
+      undefined,
+      'existing',
+    ]);
+  });
+});
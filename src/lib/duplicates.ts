@@ -0,0 +1,132 @@
+import { BlotterEntry } from '@/lib/types';
+import { scoreSubject } from '@/lib/names';
+
+/**
+ * Spotting an incident recorded twice: the same subject on the same day,
+ * told in much the same words. A matching case type lowers the bar for the
+ * narrative; a different one raises it, since a re-typed entry sometimes
+ * files the same incident under another heading. The importer checks rows
+ * against the blotter and against earlier rows of the file, and AddEntry
+ * checks a new entry before saving it.
+ */
+
+export type DuplicateFields = Pick<
+  BlotterEntry,
+  'first_name' | 'last_name' | 'aliases' | 'date' | 'case_type' | 'blotter_entry'
+>;
+
+export type DuplicateResolution = 'skip' | 'import' | 'update';
+
+export const DUPLICATE_RESOLUTIONS: { value: DuplicateResolution; label: string }[] = [
+  { value: 'skip', label: 'Skip' },
+  { value: 'import', label: 'Import anyway' },
+  { value: 'update', label: 'Update existing' },
+];
+
+// Names must be at least this close (see scoreSubject).
+const NAME_THRESHOLD = 0.85;
+// Share of narrative words in common, by case type match.
+const SAME_CASE_NARRATIVE = 0.5;
+const OTHER_CASE_NARRATIVE = 0.8;
+
+const caseTypeKey = (caseType: string) => caseType.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Narratives are compared often, so their word sets are kept per entry.
+const wordCache = new WeakMap<DuplicateFields, Set<string>>();
+
+const narrativeWords = (entry: DuplicateFields) => {
+  let words = wordCache.get(entry);
+  if (!words) {
+    words = new Set(
+      entry.blotter_entry
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .split(/[^a-z0-9]+/)
+        .filter((word) => word.length > 1)
+    );
+    wordCache.set(entry, words);
+  }
+  return words;
+};
+
+/** Share of words two narratives have in common, from 0 to 1 (Dice coefficient). */
+export const narrativeSimilarity = (a: DuplicateFields, b: DuplicateFields): number => {
+  const x = narrativeWords(a);
+  const y = narrativeWords(b);
+  if (x.size === 0 && y.size === 0) return 1;
+  let shared = 0;
+  x.forEach((word) => {
+    if (y.has(word)) shared++;
+  });
+  return (2 * shared) / (x.size + y.size);
+};
+
+/**
+ * How likely `b` records the same incident as `a`, from 0 to 1; 0 when they
+ * aren't probable duplicates at all.
+ */
+export const duplicateScore = (a: DuplicateFields, b: DuplicateFields): number => {
+  if (a.date !== b.date) return 0;
+  const name = scoreSubject(a, b);
+  if (name < NAME_THRESHOLD) return 0;
+  const sameCase = caseTypeKey(a.case_type) === caseTypeKey(b.case_type);
+  const narrative = narrativeSimilarity(a, b);
+  if (narrative < (sameCase ? SAME_CASE_NARRATIVE : OTHER_CASE_NARRATIVE)) return 0;
+  return (name + narrative + (sameCase ? 1 : 0)) / 3;
+};
+
+export type DuplicateMatch<T> = {
+  entry: T;
+  score: number;
+};
+
+/** Probable duplicates of `entry` among `candidates`, best first. */
+export const findDuplicates = <T extends DuplicateFields>(entry: DuplicateFields, candidates: T[]): DuplicateMatch<T>[] =>
+  candidates
+    .map((candidate) => ({ entry: candidate, score: duplicateScore(entry, candidate) }))
+    .filter((match) => match.score > 0)
+    .sort((a, b) => b.score - a.score);
+
+// Only entries on the same date can match, so candidates are grouped by it.
+const addByDate = <T extends { date: string }>(groups: Map<string, T[]>, item: T) => {
+  const group = groups.get(item.date);
+  if (group) {
+    group.push(item);
+  } else {
+    groups.set(item.date, [item]);
+  }
+};
+
+// What an import row repeats: an entry already in the blotter, or an earlier
+// row of the same file.
+export type ImportDuplicate =
+  | { kind: 'existing'; entry: BlotterEntry; score: number }
+  | { kind: 'file'; rowNumber: number; score: number };
+
+/**
+ * For each row, in order, the existing entry or earlier included row it
+ * probably repeats. Existing entries win, so re-importing a file that also
+ * repeats itself points every row at the blotter.
+ */
+export const findImportDuplicates = (
+  rows: { rowNumber: number; entry: BlotterEntry; excluded: boolean }[],
+  existing: BlotterEntry[]
+): (ImportDuplicate | undefined)[] => {
+  const existingByDate = new Map<string, BlotterEntry[]>();
+  existing.forEach((entry) => addByDate(existingByDate, entry));
+  const earlier = new Map<string, BlotterEntry[]>();
+  const rowNumbers = new Map<BlotterEntry, number>();
+
+  return rows.map(({ rowNumber, entry, excluded }) => {
+    const [match] = findDuplicates(entry, existingByDate.get(entry.date) ?? []);
+    const [repeat] = match ? [] : findDuplicates(entry, earlier.get(entry.date) ?? []);
+    if (!excluded) {
+      addByDate(earlier, entry);
+      rowNumbers.set(entry, rowNumber);
+    }
+    if (match) return { kind: 'existing', entry: match.entry, score: match.score };
+    if (repeat) return { kind: 'file', rowNumber: rowNumbers.get(repeat.entry) as number, score: repeat.score };
+    return undefined;
+  });
+};
@@ -0,0 +1,174 @@
+import { format } from 'date-fns';
+import { BlotterEntry, CIVIL_STATUSES, ENTRY_STATUSES, SEXES } from '@/lib/types';
+import { REVISION_FIELDS } from '@/lib/revisions';
+import { REQUIRED_COLUMNS } from '@/lib/importer';
+import { EntryListQuery, repository } from '@/lib/repository';
+
+/**
+ * Exports of the blotter list to XLSX, CSV and PDF. Columns use the same
+ * labels as entry history, which normalizeHeader maps back to importer
+ * columns, so an XLSX export with the required columns imports again as is.
+ */
+
+export type ExportFormat = 'xlsx' | 'csv' | 'pdf';
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: 'xlsx', label: 'Excel (.xlsx)' },
+  { value: 'csv', label: 'CSV (.csv)' },
+  { value: 'pdf', label: 'PDF (.pdf)' },
+];
+
+export type ExportColumn = (typeof REVISION_FIELDS)[number];
+
+export const EXPORT_COLUMNS: ExportColumn[] = REVISION_FIELDS;
+
+// Columns an export needs for Settings to import it again.
+export const IMPORTABLE_COLUMNS = EXPORT_COLUMNS.filter(({ field }) => REQUIRED_COLUMNS.includes(field));
+
+export type ExportHeader = {
+  station: string;
+  generatedAt: Date;
+  exportedBy: string;
+  // The search and filters the entries were selected by, if any.
+  criteria?: string;
+};
+
+// Page size for collecting the whole result set; the list shows 20 at a time.
+const EXPORT_PAGE_SIZE = 500;
+
+/** Every entry matching the list's search and filters, in the list's order. */
+export const fetchAllEntries = async (query: Omit<EntryListQuery, 'page' | 'pageSize'>) => {
+  const entries: BlotterEntry[] = [];
+  for (let page = 1; ; page++) {
+    const { data, count } = await repository.listEntries({ ...query, page, pageSize: EXPORT_PAGE_SIZE });
+    entries.push(...data);
+    if (data.length < EXPORT_PAGE_SIZE || entries.length >= count) return entries;
+  }
+};
+
+const VALUE_LABELS: Partial<Record<keyof BlotterEntry, { value: string; label: string }[]>> = {
+  status: ENTRY_STATUSES,
+  sex: SEXES,
+  civil_status: CIVIL_STATUSES,
+};
+
+// Labels rather than stored values ("Under Investigation"), which the
+// importer accepts too; blanks stay blank so they import as unset.
+export const exportCellValue = (entry: BlotterEntry, field: keyof BlotterEntry): string => {
+  const value = entry[field];
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return value.join('; ');
+  return VALUE_LABELS[field]?.find((option) => option.value === value)?.label ?? String(value);
+};
+
+const headerLines = (header: ExportHeader, count: number) => [
+  ['Station', header.station || '—'],
+  ['Generated', format(header.generatedAt, 'MMMM d, yyyy h:mm a')],
+  ['Exported by', header.exportedBy],
+  ['Criteria', header.criteria || 'All entries'],
+  ['Entries', String(count)],
+];
+
+const tableRows = (entries: BlotterEntry[], columns: ExportColumn[]) =>
+  entries.map((entry) => columns.map(({ field }) => exportCellValue(entry, field)));
+
+const fileName = (header: ExportHeader, extension: string) =>
+  `blotter-export-${format(header.generatedAt, 'yyyyMMdd-HHmm')}.${extension}`;
+
+const download = (blob: Blob, name: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = name;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Some browsers start the download after click() returns.
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Spreadsheet apps run a CSV cell starting with one of these as a formula
+// (a narrative such as "=HYPERLINK(...)"); a leading apostrophe keeps it text.
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const csvCell = (value: string) => (FORMULA_START.test(value) ? `'${value}` : value);
+
+// The entries sheet comes first with a plain header row, since the importer
+// reads the first sheet; the export header goes on a sheet of its own.
+const exportXlsx = async (entries: BlotterEntry[], columns: ExportColumn[], header: ExportHeader) => {
+  // Loaded on demand, like jsPDF below; both are large.
+  const XLSX = await import('xlsx');
+  const workbook = XLSX.utils.book_new();
+  const sheet = XLSX.utils.aoa_to_sheet([columns.map(({ label }) => label), ...tableRows(entries, columns)]);
+  sheet['!cols'] = columns.map(({ field }) => ({ wch: field === 'blotter_entry' ? 60 : 16 }));
+  XLSX.utils.book_append_sheet(workbook, sheet, 'Entries');
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(headerLines(header, entries.length)), 'Export Info');
+  XLSX.writeFile(workbook, fileName(header, 'xlsx'));
+};
+
+const exportCsv = async (entries: BlotterEntry[], columns: ExportColumn[], header: ExportHeader) => {
+  const XLSX = await import('xlsx');
+  const rows = [
+    ...headerLines(header, entries.length),
+    [],
+    columns.map(({ label }) => label),
+    ...tableRows(entries, columns),
+  ];
+  const sheet = XLSX.utils.aoa_to_sheet(rows.map((row) => row.map(csvCell)));
+  // The byte order mark makes Excel read the file as UTF-8 (ñ in names).
+  const csv = '\uFEFF' + XLSX.utils.sheet_to_csv(sheet);
+  download(new Blob([csv], { type: 'text/csv;charset=utf-8' }), fileName(header, 'csv'));
+};
+
+const exportPdf = async (entries: BlotterEntry[], columns: ExportColumn[], header: ExportHeader) => {
+  const [{ jsPDF }, { autoTable }] = await Promise.all([import('jspdf'), import('jspdf-autotable')]);
+  const doc = new jsPDF({ orientation: 'landscape', unit: 'pt', format: 'a4' });
+  const margin = 36;
+
+  doc.setFontSize(14);
+  doc.text('Blotter Entries', margin, margin + 4);
+  doc.setFontSize(9);
+  headerLines(header, entries.length).forEach(([label, value], i) => {
+    doc.text(`${label}: ${value}`, margin, margin + 22 + i * 12);
+  });
+
+  autoTable(doc, {
+    head: [columns.map(({ label }) => label)],
+    body: tableRows(entries, columns),
+    startY: margin + 22 + 5 * 12,
+    margin: { left: margin, right: margin },
+    styles: { fontSize: 7, cellPadding: 3, overflow: 'linebreak' },
+    headStyles: { fillColor: [37, 99, 235] },
+    columnStyles: Object.fromEntries(
+      columns.map(({ field }, i) => [i, field === 'blotter_entry' ? { cellWidth: 200 } : {}])
+    ),
+    didDrawPage: () => {
+      const pageSize = doc.internal.pageSize;
+      doc.setFontSize(8);
+      doc.text(
+        `${header.station || 'Blotter'} · Page ${doc.getNumberOfPages()}`,
+        pageSize.getWidth() - margin,
+        pageSize.getHeight() - 16,
+        { align: 'right' }
+      );
+    },
+  });
+
+  doc.save(fileName(header, 'pdf'));
+};
+
+export const exportEntries = (
+  exportFormat: ExportFormat,
+  entries: BlotterEntry[],
+  columns: ExportColumn[],
+  header: ExportHeader
+) => {
+  switch (exportFormat) {
+    case 'xlsx':
+      return exportXlsx(entries, columns, header);
+    case 'csv':
+      return exportCsv(entries, columns, header);
+    case 'pdf':
+      return exportPdf(entries, columns, header);
+  }
+};
@@ -0,0 +1,101 @@
+// Minimal promise wrapper around IndexedDB. The app only needs a handful of
+// object stores, so this stays dependency-free instead of pulling in `idb`.
+
+const DB_NAME = 'blotter-offline';
+const DB_VERSION = 9;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const upgrade = (db: IDBDatabase, transaction: IDBTransaction, oldVersion: number) => {
+  if (oldVersion < 1) {
+    db.createObjectStore('outbox', { keyPath: 'local_id' });
+  }
+  if (oldVersion < 2) {
+    // Tables for the standalone local backend.
+    db.createObjectStore('blotter_entries', { keyPath: 'id', autoIncrement: true });
+    db.createObjectStore('users', { keyPath: 'id' });
+  }
+  if (oldVersion < 3) {
+    db.createObjectStore('persons', { keyPath: 'id', autoIncrement: true });
+  }
+  if (oldVersion < 4) {
+    db.createObjectStore('entry_photos', { keyPath: 'id', autoIncrement: true });
+    // Photo blobs, keyed by storage path.
+    db.createObjectStore('files', { keyPath: 'id' });
+  }
+  if (oldVersion < 5) {
+    db.createObjectStore('audit_log', { keyPath: 'id', autoIncrement: true });
+  }
+  if (oldVersion < 6) {
+    db.createObjectStore('entry_revisions', { keyPath: 'id', autoIncrement: true });
+  }
+  if (oldVersion < 7) {
+    db.createObjectStore('import_batches', { keyPath: 'id' });
+    // Rows of imports still being sent, kept for resuming after a reload.
+    db.createObjectStore('pending_imports', { keyPath: 'id' });
+  }
+  if (oldVersion < 8) {
+    // An entry's revisions are looked up on every save.
+    transaction.objectStore('entry_revisions').createIndex('entry_id', 'entry_id');
+  }
+  if (oldVersion < 9) {
+    transaction.objectStore('blotter_entries').createIndex('local_id', 'local_id', { unique: true });
+  }
+};
+
+export const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) =>
+        upgrade(request.result, request.transaction as IDBTransaction, event.oldVersion);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const getAll = async <T>(storeName: string): Promise<T[]> => {
+  const db = await openDb();
+  return promisify(db.transaction(storeName).objectStore(storeName).getAll());
+};
+
+export const getAllFromIndex = async <T>(storeName: string, indexName: string, key: IDBValidKey): Promise<T[]> => {
+  const db = await openDb();
+  return promisify(db.transaction(storeName).objectStore(storeName).index(indexName).getAll(key));
+};
+
+export const get = async <T>(storeName: string, key: IDBValidKey): Promise<T | undefined> => {
+  const db = await openDb();
+  return promisify(db.transaction(storeName).objectStore(storeName).get(key));
+};
+
+export const put = async <T>(storeName: string, value: T): Promise<void> => {
+  const db = await openDb();
+  await promisify(db.transaction(storeName, 'readwrite').objectStore(storeName).put(value));
+};
+
+export const add = async <T>(storeName: string, value: T): Promise<IDBValidKey> => {
+  const db = await openDb();
+  return promisify(db.transaction(storeName, 'readwrite').objectStore(storeName).add(value));
+};
+
+export const clear = async (storeName: string): Promise<void> => {
+  const db = await openDb();
+  await promisify(db.transaction(storeName, 'readwrite').objectStore(storeName).clear());
+};
+
+export const remove = async (storeName: string, key: IDBValidKey): Promise<void> => {
+  const db = await openDb();
+  await promisify(db.transaction(storeName, 'readwrite').objectStore(storeName).delete(key));
+};
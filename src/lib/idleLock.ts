@@ -0,0 +1,110 @@
+/**
+ * Idle lock for shared station terminals. The last activity time and the
+ * locked flag live in localStorage so every tab of the app, and a reload,
+ * sees the same state. A lock-screen PIN is kept per user on this device,
+ * hashed; it never leaves the browser.
+ */
+
+import { checkPassword, hashPassword, PasswordHash } from '@/lib/repository/localAuth';
+
+const ACTIVITY_KEY = 'blotter-last-activity';
+const LOCKED_KEY = 'blotter-locked';
+const PIN_KEY_PREFIX = 'blotter-lock-pin:';
+const PIN_ATTEMPTS_KEY_PREFIX = 'blotter-lock-pin-attempts:';
+const PASSWORD_ATTEMPTS_KEY_PREFIX = 'blotter-lock-password-attempts:';
+
+export const PIN_PATTERN = /^\d{4,8}$/;
+// Wrong PINs, and separately wrong passwords, allowed before the lock screen
+// signs the user out. They're counted on this device, across reloads and
+// locks, until an unlock succeeds.
+export const MAX_PIN_ATTEMPTS = 5;
+export const MAX_PASSWORD_ATTEMPTS = 5;
+
+export const lastActivity = () => Number(localStorage.getItem(ACTIVITY_KEY)) || Date.now();
+
+export const recordActivity = (at = Date.now()) => localStorage.setItem(ACTIVITY_KEY, String(at));
+
+export const isLocked = () => localStorage.getItem(LOCKED_KEY) === '1';
+
+export const setLocked = (locked: boolean) => {
+  if (locked) {
+    localStorage.setItem(LOCKED_KEY, '1');
+  } else {
+    localStorage.removeItem(LOCKED_KEY);
+  }
+};
+
+// A fresh sign-in starts unlocked, with the full idle allowance.
+export const startIdleSession = () => {
+  recordActivity();
+  setLocked(false);
+};
+
+export const endIdleSession = () => {
+  localStorage.removeItem(ACTIVITY_KEY);
+  setLocked(false);
+};
+
+// Hashed like a local password. PINs saved before that are a bare hex hash.
+const storedPin = (userId: string): PasswordHash | null => {
+  const stored = localStorage.getItem(PIN_KEY_PREFIX + userId);
+  if (stored === null) return null;
+  return stored.startsWith('{') ? (JSON.parse(stored) as PasswordHash) : { password_hash: stored };
+};
+
+export const hasPin = (userId: string) => localStorage.getItem(PIN_KEY_PREFIX + userId) !== null;
+
+const attempts = (key: string) => Number(localStorage.getItem(key)) || 0;
+
+// Read again at the time: another tab may have counted a failure meanwhile.
+const countFailure = (key: string) => {
+  const count = attempts(key) + 1;
+  localStorage.setItem(key, String(count));
+  return count;
+};
+
+export const clearUnlockAttempts = (userId: string) => {
+  localStorage.removeItem(PIN_ATTEMPTS_KEY_PREFIX + userId);
+  localStorage.removeItem(PASSWORD_ATTEMPTS_KEY_PREFIX + userId);
+};
+
+// Once out of attempts, only the password unlocks.
+export const pinExhausted = (userId: string) => attempts(PIN_ATTEMPTS_KEY_PREFIX + userId) >= MAX_PIN_ATTEMPTS;
+
+export const savePin = async (userId: string, pin: string) => {
+  if (!PIN_PATTERN.test(pin)) throw new Error('PIN must be 4 to 8 digits');
+  localStorage.setItem(PIN_KEY_PREFIX + userId, JSON.stringify(await hashPassword(`${userId}:${pin}`)));
+  clearUnlockAttempts(userId);
+};
+
+export const clearPin = (userId: string) => {
+  localStorage.removeItem(PIN_KEY_PREFIX + userId);
+  clearUnlockAttempts(userId);
+};
+
+export type UnlockCheck = 'ok' | 'incorrect' | 'exhausted';
+
+/** Checks a PIN, counting the failure if it's wrong. */
+export const checkPin = async (userId: string, pin: string): Promise<UnlockCheck> => {
+  const stored = storedPin(userId);
+  if (pinExhausted(userId) || !stored) return 'exhausted';
+  if (await checkPassword(`${userId}:${pin}`, stored)) {
+    clearUnlockAttempts(userId);
+    return 'ok';
+  }
+  return countFailure(PIN_ATTEMPTS_KEY_PREFIX + userId) >= MAX_PIN_ATTEMPTS ? 'exhausted' : 'incorrect';
+};
+
+/**
+ * Checks the account password with `verify`, counting the failure if it's
+ * wrong. A request that fails outright isn't counted.
+ */
+export const checkLockPassword = async (userId: string, verify: () => Promise<boolean>): Promise<UnlockCheck> => {
+  const key = PASSWORD_ATTEMPTS_KEY_PREFIX + userId;
+  if (attempts(key) >= MAX_PASSWORD_ATTEMPTS) return 'exhausted';
+  if (await verify()) {
+    clearUnlockAttempts(userId);
+    return 'ok';
+  }
+  return countFailure(key) >= MAX_PASSWORD_ATTEMPTS ? 'exhausted' : 'incorrect';
+};
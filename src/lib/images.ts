@@ -0,0 +1,51 @@
+import { NewPhoto } from '@/lib/repository';
+
+// Long edge in pixels. Phone cameras shoot 12MP+, far more than a blotter
+// record needs, and mobile data is often slow at the station.
+const PHOTO_MAX_SIZE = 1600;
+const THUMBNAIL_MAX_SIZE = 240;
+
+// Refuse anything absurdly large before decoding it.
+export const MAX_PHOTO_BYTES = 25 * 1024 * 1024;
+
+type ResizedImage = {
+  blob: Blob;
+  width: number;
+  height: number;
+};
+
+const resize = async (bitmap: ImageBitmap, maxSize: number, quality: number): Promise<ResizedImage> => {
+  const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height));
+  const width = Math.round(bitmap.width * scale);
+  const height = Math.round(bitmap.height * scale);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Image resizing is not supported in this browser');
+  context.drawImage(bitmap, 0, 0, width, height);
+
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/jpeg', quality));
+  if (!blob) throw new Error('Could not encode the resized image');
+  return { blob, width, height };
+};
+
+/**
+ * Decodes a camera capture or uploaded image and produces the JPEG photo
+ * and thumbnail that get stored. EXIF orientation is applied so portrait
+ * shots aren't saved sideways.
+ */
+export const preparePhoto = async (file: File): Promise<NewPhoto> => {
+  if (!file.type.startsWith('image/')) throw new Error(`${file.name} is not an image`);
+  if (file.size > MAX_PHOTO_BYTES) throw new Error(`${file.name} is larger than 25 MB`);
+
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  try {
+    const photo = await resize(bitmap, PHOTO_MAX_SIZE, 0.85);
+    const thumbnail = await resize(bitmap, THUMBNAIL_MAX_SIZE, 0.7);
+    return { image: photo.blob, thumbnail: thumbnail.blob, width: photo.width, height: photo.height };
+  } finally {
+    bitmap.close();
+  }
+};
@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyMapping,
+  findTemplate,
+  FULL_NAME,
+  ImportTemplate,
+  mappingProblems,
+  sheetHeaders,
+  suggestMapping,
+  suggestTarget,
+  targetLabel,
+  templateMapping,
+} from '@/lib/importMapping';
+
+describe('suggestTarget', () => {
+  it.each([
+    ['Surname', 'last_name'],
+    ['Family Name', 'last_name'],
+    ['Given Name', 'first_name'],
+    ['M.I.', 'middle_name'],
+    ['Nature of Incident', 'case_type'],
+    ['Offense', 'case_type'],
+    ['Date Reported', 'date'],
+    ['Date of Birth', 'date_of_birth'],
+    ['Birthday', 'date_of_birth'],
+    ['Narrative', 'blotter_entry'],
+    ['Remarks', 'blotter_entry'],
+    ['Disposition', 'status'],
+    ['Civil Status', 'civil_status'],
+    ['Gender', 'sex'],
+    ['Cellphone', 'contact_number'],
+    ['ID Presented', 'id_type'],
+    ['ID No.', 'id_number'],
+    ['Full Name', FULL_NAME],
+    ['Name of Complainant', FULL_NAME],
+    ['Entry No.', null],
+    ['Time', null],
+    ['Officer on Duty', null],
+  ])('%j holds %j', (header, target) => {
+    expect(suggestTarget(header)).toBe(target);
+  });
+});
+
+describe('suggestMapping', () => {
+  it('maps each field from its first column only', () => {
+    expect(suggestMapping(['Surname', 'Last Name', 'Narrative', 'Entry No.'])).toEqual({
+      Surname: 'last_name',
+      'Last Name': null,
+      Narrative: 'blotter_entry',
+      'Entry No.': null,
+    });
+  });
+});
+
+describe('sheetHeaders', () => {
+  it('lists headers in the order they first appear', () => {
+    expect(sheetHeaders([{ Date: 1, Name: 2 }, { Remarks: 3, Date: 4 }])).toEqual(['Date', 'Name', 'Remarks']);
+  });
+});
+
+describe('targetLabel', () => {
+  it.each([
+    ['date', 'Date'],
+    [FULL_NAME, 'Full Name (split)'],
+    ['plate_number', 'plate_number'],
+  ])('%j is labelled %j', (target, label) => {
+    expect(targetLabel(target)).toBe(label);
+  });
+});
+
+describe('mappingProblems', () => {
+  it.each([
+    [{}, { missing: ['Blotter Entry', 'First Name', 'Last Name', 'Case Type', 'Date'], duplicates: [] }],
+    [
+      { Name: FULL_NAME, Narrative: 'blotter_entry', Nature: 'case_type', When: 'date', Time: null },
+      { missing: [], duplicates: [] },
+    ],
+    [
+      { Name: FULL_NAME, First: 'first_name', Narrative: 'blotter_entry', Nature: 'case_type', When: 'date' },
+      { missing: [], duplicates: [] },
+    ],
+    [
+      { Surname: 'last_name', Narrative: 'blotter_entry', Nature: 'case_type', Reported: 'date', Occurred: 'date' },
+      { missing: ['First Name'], duplicates: ['Date'] },
+    ],
+  ])('%j has problems %j', (mapping, problems) => {
+    expect(mappingProblems(mapping)).toEqual(problems);
+  });
+});
+
+describe('applyMapping', () => {
+  it('renames mapped columns and drops ignored ones', () => {
+    const mapping = { Narrative: 'blotter_entry', 'Entry No.': null };
+    expect(applyMapping([{ Narrative: 'x', 'Entry No.': 7 }], mapping)).toEqual([{ blotter_entry: 'x' }]);
+  });
+
+  it.each([
+    [
+      { Name: 'Dela Cruz, Juan S. Jr.' },
+      { first_name: 'Juan', middle_name: 'S.', last_name: 'Dela Cruz', suffix: 'Jr.' },
+    ],
+    [
+      { Name: 'Juan Dela Cruz', First: 'Jhon' },
+      { first_name: 'Jhon', middle_name: '', last_name: 'Dela Cruz', suffix: '' },
+    ],
+    [
+      { Name: 'Juan Dela Cruz', First: ' ' },
+      { first_name: 'Juan', middle_name: '', last_name: 'Dela Cruz', suffix: '' },
+    ],
+    [{}, { first_name: '', middle_name: '', last_name: '', suffix: '' }],
+  ])('splits the full name in %j into %j', (row, names) => {
+    expect(applyMapping([row], { Name: FULL_NAME, First: 'first_name' })).toEqual([names]);
+  });
+});
+
+describe('templates', () => {
+  const template: ImportTemplate = {
+    name: 'Station 1',
+    mapping: { surname: 'last_name', remarks: null, incident: 'case_type' },
+    saved_at: '2025-03-14T00:00:00.000Z',
+  };
+
+  it('maps headers the template knows, however they are spelled, and suggests the rest', () => {
+    expect(templateMapping(template, ['SURNAME ', 'Remarks', 'Incident', 'Narrative'])).toEqual({
+      'SURNAME ': 'last_name',
+      Remarks: null,
+      Incident: 'case_type',
+      Narrative: 'blotter_entry',
+    });
+  });
+
+  it.each([
+    [['Surname', 'Remarks'], template],
+    [['Surname', 'REMARKS', 'Incident'], template],
+    [['Surname', 'Narrative'], undefined],
+  ])('finds a template for %j', (headers, found) => {
+    expect(findTemplate(headers, [template])).toBe(found);
+  });
+});
@@ -0,0 +1,183 @@
+import { normalizeHeader, OPTIONAL_COLUMNS, REQUIRED_COLUMNS } from '@/lib/importer';
+import { REVISION_FIELDS } from '@/lib/revisions';
+import { splitFullName } from '@/lib/names';
+
+/**
+ * Mapping the columns of a station's own spreadsheet ("Surname", "Nature of
+ * Incident", "Date Reported") onto entry fields before an import. Mappings
+ * can be saved as templates, kept in this browser like the lock-screen PIN,
+ * and are matched to later files by their headers.
+ */
+
+// A single name column, split into first, middle and last name and suffix.
+export const FULL_NAME = 'full_name';
+
+export const IMPORT_TARGETS: { value: string; label: string }[] = [
+  ...REVISION_FIELDS.filter(({ field }) => REQUIRED_COLUMNS.includes(field) || OPTIONAL_COLUMNS.includes(field)).map(
+    ({ field, label }) => ({ value: field, label })
+  ),
+  { value: FULL_NAME, label: 'Full Name (split)' },
+];
+
+export const targetLabel = (target: string) => IMPORT_TARGETS.find(({ value }) => value === target)?.label ?? target;
+
+// Source header → entry field, or null to ignore the column.
+export type ColumnMapping = Record<string, string | null>;
+
+// Headers in the order they first appear (sheet_to_json leaves blank cells out).
+export const sheetHeaders = (rows: Record<string, unknown>[]) =>
+  Array.from(new Set(rows.flatMap((row) => Object.keys(row))));
+
+// Tried in order against the words of a header; the first rule that fits
+// wins, so "Date of Birth" is caught before "Date". A null target leaves the
+// column out.
+const KEYWORD_RULES: [string | null, (words: Set<string>) => boolean][] = [
+  ['date_of_birth', (w) => w.has('birth') || w.has('dob') || w.has('birthday') || w.has('birthdate')],
+  ['date', (w) => w.has('date') || w.has('when')],
+  ['last_name', (w) => w.has('surname') || w.has('lastname') || ((w.has('last') || w.has('family')) && w.has('name'))],
+  ['first_name', (w) => w.has('firstname') || w.has('given') || (w.has('first') && w.has('name'))],
+  ['middle_name', (w) => w.has('middle') || w.has('mi') || (w.has('m') && w.has('i'))],
+  ['aliases', (w) => w.has('alias') || w.has('aliases') || w.has('aka')],
+  ['suffix', (w) => w.has('suffix')],
+  ['civil_status', (w) => w.has('civil')],
+  ['status', (w) => w.has('status') || w.has('disposition')],
+  ['sex', (w) => w.has('sex') || w.has('gender')],
+  ['barangay', (w) => w.has('barangay') || w.has('brgy')],
+  ['municipality', (w) => w.has('municipality') || w.has('city') || w.has('town')],
+  ['province', (w) => w.has('province')],
+  ['contact_number', (w) => ['contact', 'mobile', 'phone', 'cellphone', 'cp', 'tel'].some((word) => w.has(word))],
+  ['id_number', (w) => w.has('id') && (w.has('no') || w.has('number'))],
+  ['id_type', (w) => w.has('id')],
+  // Reference numbers ("Entry No.", "Blotter Number") and times of day.
+  [null, (w) => w.has('no') || w.has('number') || w.has('time')],
+  [
+    'blotter_entry',
+    (w) =>
+      ['narrative', 'details', 'detail', 'remarks', 'description', 'report', 'facts', 'statement', 'entry', 'blotter'].some(
+        (word) => w.has(word)
+      ),
+  ],
+  [
+    'case_type',
+    (w) =>
+      ['nature', 'incident', 'offense', 'offence', 'case', 'type', 'crime', 'violation', 'complaint'].some((word) =>
+        w.has(word)
+      ),
+  ],
+  [FULL_NAME, (w) => w.has('name') || w.has('subject') || w.has('complainant') || w.has('respondent')],
+];
+
+/** The field a header most likely holds, or null when nothing fits. */
+export const suggestTarget = (header: string): string | null => {
+  const key = normalizeHeader(header);
+  if (IMPORT_TARGETS.some(({ value }) => value === key)) return key;
+  const words = new Set(key.split('_'));
+  return KEYWORD_RULES.find(([, fits]) => fits(words))?.[0] ?? null;
+};
+
+// Each field takes one column; later columns that would repeat it are ignored.
+const dedupe = (headers: string[], target: (header: string) => string | null): ColumnMapping => {
+  const taken = new Set<string>();
+  return Object.fromEntries(
+    headers.map((header) => {
+      const value = target(header);
+      if (!value || taken.has(value)) return [header, null];
+      taken.add(value);
+      return [header, value];
+    })
+  );
+};
+
+export const suggestMapping = (headers: string[]): ColumnMapping => dedupe(headers, suggestTarget);
+
+export type MappingProblems = {
+  // Labels of required fields no column is mapped to.
+  missing: string[];
+  // Fields more than one column is mapped to.
+  duplicates: string[];
+};
+
+export const mappingProblems = (mapping: ColumnMapping): MappingProblems => {
+  const targets = Object.values(mapping).filter((target): target is string => Boolean(target));
+  const mapped = new Set(targets);
+  const missing = REQUIRED_COLUMNS.filter(
+    (column) =>
+      !mapped.has(column) && !((column === 'first_name' || column === 'last_name') && mapped.has(FULL_NAME))
+  ).map(targetLabel);
+  const duplicates = Array.from(mapped).filter((target) => targets.indexOf(target) !== targets.lastIndexOf(target));
+  return { missing, duplicates: duplicates.map(targetLabel) };
+};
+
+const isBlank = (value: unknown) => value === undefined || value === null || String(value).trim() === '';
+
+/**
+ * Rewrites sheet rows to use entry field names, ready for readImportRows.
+ * A full name fills only the name parts no column of their own supplies.
+ */
+export const applyMapping = (rows: Record<string, unknown>[], mapping: ColumnMapping) =>
+  rows.map((row) => {
+    const out: Record<string, unknown> = {};
+    let fullName = '';
+    for (const [header, target] of Object.entries(mapping)) {
+      if (!target) continue;
+      if (target === FULL_NAME) {
+        fullName = isBlank(row[header]) ? '' : String(row[header]);
+      } else {
+        out[target] = row[header];
+      }
+    }
+    if (Object.values(mapping).includes(FULL_NAME)) {
+      const parts = splitFullName(fullName);
+      for (const [field, value] of Object.entries(parts)) {
+        if (isBlank(out[field])) out[field] = value;
+      }
+    }
+    return out;
+  });
+
+// Templates
+
+export type ImportTemplate = {
+  name: string;
+  // Keyed by normalizeHeader of the source header, so "Date Reported" and
+  // "DATE REPORTED " match the same template.
+  mapping: ColumnMapping;
+  saved_at: string;
+};
+
+const TEMPLATES_KEY = 'blotter-import-templates';
+
+export const listTemplates = (): ImportTemplate[] => {
+  try {
+    return JSON.parse(localStorage.getItem(TEMPLATES_KEY) ?? '[]') as ImportTemplate[];
+  } catch {
+    return [];
+  }
+};
+
+const storeTemplates = (templates: ImportTemplate[]) => localStorage.setItem(TEMPLATES_KEY, JSON.stringify(templates));
+
+/** Saves a template, replacing any with the same name. */
+export const saveTemplate = (name: string, mapping: ColumnMapping) => {
+  const template: ImportTemplate = {
+    name: name.trim(),
+    mapping: Object.fromEntries(Object.entries(mapping).map(([header, target]) => [normalizeHeader(header), target])),
+    saved_at: new Date().toISOString(),
+  };
+  if (!template.name) throw new Error('Enter a name for the template');
+  storeTemplates([...listTemplates().filter((t) => t.name !== template.name), template]);
+  return template;
+};
+
+export const deleteTemplate = (name: string) => storeTemplates(listTemplates().filter((t) => t.name !== name));
+
+/** The template's mapping for these headers; headers it doesn't know get suggestions. */
+export const templateMapping = (template: ImportTemplate, headers: string[]): ColumnMapping =>
+  dedupe(headers, (header) => {
+    const key = normalizeHeader(header);
+    return key in template.mapping ? template.mapping[key] : suggestTarget(header);
+  });
+
+/** A saved template that knows every one of the file's headers, if any. */
+export const findTemplate = (headers: string[], templates = listTemplates()) =>
+  templates.find((template) => headers.every((header) => normalizeHeader(header) in template.mapping));
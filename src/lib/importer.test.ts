@@ -0,0 +1,239 @@
+import { describe, expect, it } from 'vitest';
+import {
+  checkImportRow,
+  flagRepeatedUpdates,
+  hasIssues,
+  importAction,
+  ImportRow,
+  normalizeHeader,
+  readImportRows,
+  toEntryUpdate,
+  toNewEntry,
+} from '@/lib/importer';
+import { ImportDuplicate } from '@/lib/duplicates';
+import { BlotterEntry } from '@/lib/types';
+
+const sheetRow = (changes: Record<string, unknown> = {}) => ({
+  'Blotter Entry': 'Reported a stolen phone.',
+  'First Name': 'Juan',
+  'Last Name': 'Dela Cruz',
+  'Case Type': 'Theft',
+  Date: '2025-03-14',
+  ...changes,
+});
+
+const readEntry = (changes: Record<string, unknown>) => readImportRows([sheetRow(changes)]).rows[0].entry;
+
+const entry = (changes: Partial<BlotterEntry> = {}): BlotterEntry => ({
+  blotter_entry: 'Reported a stolen phone.',
+  first_name: 'Juan',
+  last_name: 'Dela Cruz',
+  case_type: 'Theft',
+  date: '2025-03-14',
+  ...changes,
+});
+
+const row = (rowNumber: number, changes: Partial<ImportRow> = {}): ImportRow => ({
+  rowNumber,
+  entry: entry(),
+  excluded: false,
+  ...changes,
+});
+
+const existing = (id: number): ImportDuplicate => ({ kind: 'existing', entry: entry({ id }), score: 0.9 });
+
+describe('normalizeHeader', () => {
+  it.each([
+    ['Blotter Entry', 'blotter_entry'],
+    ['  First Name ', 'first_name'],
+    ['DOB', 'date_of_birth'],
+    ['Date of Birth (YYYY-MM-DD)', 'date_of_birth'],
+    ['Brgy.', 'barangay'],
+    ['City/Municipality', 'municipality'],
+    ['Contact No.', 'contact_number'],
+    ['AKA', 'aliases'],
+    ['Remarks', 'remarks'],
+  ])('%j becomes %j', (header, column) => {
+    expect(normalizeHeader(header)).toBe(column);
+  });
+});
+
+describe('readImportRows', () => {
+  it('numbers rows from 2, after the header row', () => {
+    const { rows } = readImportRows([sheetRow(), sheetRow()]);
+    expect(rows.map(({ rowNumber }) => rowNumber)).toEqual([2, 3]);
+  });
+
+  it.each([
+    [[], ['blotter_entry', 'first_name', 'last_name', 'case_type', 'date']],
+    [[{ 'Blotter Entry': 'x', 'First Name': 'Juan', Date: '2025-03-14' }], ['last_name', 'case_type']],
+  ])('reports the missing columns of %j', (rows, missing) => {
+    expect(readImportRows(rows)).toEqual({ rows: [], missingColumns: missing });
+  });
+
+  it.each([
+    [45730, '2025-03-14'],
+    [45730.75, '2025-03-14'],
+    [45730.999, '2025-03-14'],
+    [1, '1899-12-31'],
+    ['3/14/2025', '2025-03-14'],
+    ['12/1/2025', '2025-12-01'],
+    ['2025-03-14', '2025-03-14'],
+    ['14 March', '14 March'],
+  ])('reads the date %j as %j', (date, iso) => {
+    expect(readEntry({ Date: date }).date).toBe(iso);
+    expect(readEntry({ DOB: date }).date_of_birth).toBe(iso);
+  });
+
+  it.each([
+    ['', undefined],
+    [undefined, undefined],
+    ['open', 'open'],
+    ['Under Investigation', 'investigating'],
+    ['SETTLED', 'settled'],
+    ['pending', 'pending'],
+  ])('reads the status %j as %j', (status, value) => {
+    expect(readEntry({ Status: status }).status).toBe(value);
+  });
+
+  it.each([
+    [{ Suffix: 'jr' }, { suffix: 'Jr.' }],
+    [{ Suffix: 'III' }, { suffix: 'III' }],
+    [{ Suffix: 'Esq' }, { suffix: 'Esq' }],
+    [{ Gender: 'M' }, { sex: 'male' }],
+    [{ Sex: 'Female' }, { sex: 'female' }],
+    [{ Sex: 'x' }, { sex: 'x' }],
+    [{ Sex: '' }, { sex: null }],
+    [{ 'Civil Status': 'Widower' }, { civil_status: 'widowed' }],
+    [{ 'Civil Status': 'Legally Separated' }, { civil_status: 'separated' }],
+    [{ Alias: 'Totoy; Boy, Jun ;' }, { aliases: ['Totoy', 'Boy', 'Jun'] }],
+    [{ 'First Name': '  Juan ' }, { first_name: 'Juan' }],
+    [{ 'Contact No.': 9171234567 }, { contact_number: '9171234567' }],
+  ])('reads %j as %j', (cells, fields) => {
+    expect(readEntry(cells)).toMatchObject(fields);
+  });
+});
+
+describe('checkImportRow', () => {
+  const context = { caseTypes: ['Theft', 'Physical Injury'], today: '2025-06-30' };
+
+  it.each([
+    [{}, {}, {}],
+    [{ first_name: ' ' }, { first_name: 'First name is missing' }, {}],
+    [{ last_name: '' }, { last_name: 'Last name is missing' }, {}],
+    [{ blotter_entry: '' }, { blotter_entry: 'Narrative is empty' }, {}],
+    [{ date: '' }, { date: 'Date is missing' }, {}],
+    [{ date: '14 March' }, { date: '"14 March" is not a date; use YYYY-MM-DD' }, {}],
+    [{ date: '2025-02-30' }, { date: '"2025-02-30" is not a date; use YYYY-MM-DD' }, {}],
+    [{ date: '2025-07-01' }, { date: 'Date is in the future' }, {}],
+    [{ case_type: '' }, { case_type: 'Case type is missing' }, {}],
+    [{ case_type: 'physical  injury' }, {}, { case_type: 'Did you mean "Physical Injury"?' }],
+    [{ case_type: 'Robbery' }, {}, { case_type: 'New case type; check the spelling' }],
+    [{ status: 'pending' as BlotterEntry['status'] }, { status: 'Unknown status "pending"' }, {}],
+    [{ suffix: 'Esq' }, { suffix: 'Use one of Jr., Sr., II, III, IV, V' }, {}],
+    [{ date_of_birth: '2025-04-01' }, { date_of_birth: 'Date of birth is after the incident date' }, {}],
+  ])('%j has errors %j and warnings %j', (changes, errors, warnings) => {
+    expect(checkImportRow(entry(changes), context)).toEqual({ errors, warnings });
+  });
+});
+
+describe('hasIssues', () => {
+  it.each([
+    [{}, false],
+    [{ date: 'Date is missing' }, true],
+  ])('%j: %s', (issues, expected) => {
+    expect(hasIssues(issues)).toBe(expected);
+  });
+});
+
+describe('importAction', () => {
+  const fileDuplicate: ImportDuplicate = { kind: 'file', rowNumber: 2, score: 0.9 };
+
+  it.each([
+    ['a new row', row(2), undefined, 'create'],
+    ['an excluded row', row(2, { excluded: true }), undefined, 'skip'],
+    ['a duplicate left unresolved', row(2), existing(1), 'skip'],
+    ['a duplicate set to skip', row(2, { resolution: 'skip' }), existing(1), 'skip'],
+    ['a duplicate imported anyway', row(2, { resolution: 'import' }), existing(1), 'create'],
+    ['a duplicate updating its entry', row(2, { resolution: 'update' }), existing(1), 'update'],
+    ['a repeat within the file set to update', row(3, { resolution: 'update' }), fileDuplicate, 'skip'],
+    ['an excluded row set to update', row(2, { excluded: true, resolution: 'update' }), existing(1), 'skip'],
+  ])('%s is %s', (_, importRow, duplicate, action) => {
+    expect(importAction(importRow, duplicate)).toBe(action);
+  });
+});
+
+describe('flagRepeatedUpdates', () => {
+  const clean = { errors: {}, warnings: {} };
+
+  it('blocks later rows updating an entry an earlier row updates', () => {
+    const rows = [
+      row(2, { resolution: 'update' }),
+      row(3, { resolution: 'update' }),
+      row(4, { resolution: 'update' }),
+      row(5, { resolution: 'update' }),
+    ];
+    const duplicates = [existing(1), existing(7), existing(1), existing(1)];
+    const checks = flagRepeatedUpdates(rows, duplicates, rows.map(() => clean));
+    expect(checks.map(({ errors }) => errors.blotter_entry)).toEqual([
+      undefined,
+      undefined,
+      'Row 2 already updates entry #1; skip or exclude one of them',
+      'Row 2 already updates entry #1; skip or exclude one of them',
+    ]);
+  });
+
+  it('ignores rows that create, skip or are excluded', () => {
+    const rows = [
+      row(2, { resolution: 'import' }),
+      row(3, { resolution: 'update', excluded: true }),
+      row(4, { resolution: 'update' }),
+      row(5),
+    ];
+    const checks = rows.map(() => clean);
+    expect(flagRepeatedUpdates(rows, rows.map(() => existing(1)), checks)).toEqual(checks);
+  });
+
+  it('keeps a row\'s own narrative error', () => {
+    const rows = [row(2, { resolution: 'update' }), row(3, { resolution: 'update' })];
+    const own = { errors: { blotter_entry: 'Narrative is empty' }, warnings: {} };
+    const [, checked] = flagRepeatedUpdates(rows, [existing(1), existing(1)], [clean, own]);
+    expect(checked.errors.blotter_entry).toBe('Narrative is empty');
+  });
+});
+
+describe('toNewEntry', () => {
+  it('trims the required fields and saves blank profile fields as null', () => {
+    expect(
+      toNewEntry(
+        entry({ first_name: ' Juan ', case_type: ' Theft ', middle_name: ' ', contact_number: '0917 123 4567' })
+      )
+    ).toMatchObject({
+      first_name: 'Juan',
+      case_type: 'Theft',
+      middle_name: null,
+      contact_number: '09171234567',
+    });
+  });
+});
+
+describe('toEntryUpdate', () => {
+  it.each([
+    [{}, {}],
+    [{ status: 'settled' as const }, { status: 'settled' }],
+    [{ status: undefined }, {}],
+    [{ middle_name: '  ', barangay: 'Poblacion' }, { barangay: 'Poblacion' }],
+    [{ aliases: [] }, {}],
+    [{ aliases: ['Totoy'] }, { aliases: ['Totoy'] }],
+    [{ sex: null }, {}],
+  ])('%j changes %j beyond the required fields', (changes, update) => {
+    expect(toEntryUpdate(entry(changes))).toEqual({
+      blotter_entry: 'Reported a stolen phone.',
+      first_name: 'Juan',
+      last_name: 'Dela Cruz',
+      case_type: 'Theft',
+      date: '2025-03-14',
+      ...update,
+    });
+  });
+});
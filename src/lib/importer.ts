@@ -0,0 +1,297 @@
+import { format, isValid, parseISO } from 'date-fns';
+import { BlotterEntry, CivilStatus, ENTRY_STATUSES, NAME_SUFFIXES, Sex } from '@/lib/types';
+import { NewBlotterEntry } from '@/lib/repository';
+import { normalizeSubject, SubjectField, validateSubject } from '@/lib/subject';
+import { DuplicateResolution, ImportDuplicate } from '@/lib/duplicates';
+
+/**
+ * Turns rows read from an XLSX/CSV sheet (see XLSX.utils.sheet_to_json)
+ * into blotter entries, accepting common header spellings, and checks each
+ * row so the import preview can flag problems before anything is saved.
+ */
+
+export const REQUIRED_COLUMNS = ['blotter_entry', 'first_name', 'last_name', 'case_type', 'date'];
+
+export const OPTIONAL_COLUMNS = [
+  'middle_name',
+  'suffix',
+  'aliases',
+  'status',
+  'date_of_birth',
+  'sex',
+  'civil_status',
+  'barangay',
+  'municipality',
+  'province',
+  'contact_number',
+  'id_type',
+  'id_number',
+];
+
+// Other headers seen in station spreadsheets, after normalizeHeader.
+const HEADER_ALIASES: Record<string, string> = {
+  middle: 'middle_name',
+  name_suffix: 'suffix',
+  alias: 'aliases',
+  aka: 'aliases',
+  dob: 'date_of_birth',
+  birthdate: 'date_of_birth',
+  birthday: 'date_of_birth',
+  date_of_birth_yyyy_mm_dd: 'date_of_birth',
+  gender: 'sex',
+  brgy: 'barangay',
+  city: 'municipality',
+  town: 'municipality',
+  city_municipality: 'municipality',
+  contact: 'contact_number',
+  contact_no: 'contact_number',
+  mobile: 'contact_number',
+  mobile_number: 'contact_number',
+  phone: 'contact_number',
+  id_presented: 'id_type',
+  id_no: 'id_number',
+};
+
+const DATE_COLUMNS = new Set(['date', 'date_of_birth']);
+
+export const normalizeHeader = (header: string) => {
+  const key = header.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+  return HEADER_ALIASES[key] ?? key;
+};
+
+// Excel stores dates as days since 1899-12-30 (counting the 1900 leap-year bug),
+// with the time of day as the fraction.
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+
+// Day-first or month-first is ambiguous in slashed dates; station sheets
+// follow the Philippine convention, month first (10/19/2026).
+const SLASHED_DATE = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/;
+
+const toIsoDate = (value: unknown): unknown => {
+  if (typeof value === 'number') {
+    return new Date(EXCEL_EPOCH + Math.floor(value) * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+  }
+  const slashed = typeof value === 'string' ? SLASHED_DATE.exec(value.trim()) : null;
+  if (slashed) {
+    const [, month, day, year] = slashed;
+    return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+  }
+  return value;
+};
+
+const SEX_VALUES: Record<string, Sex> = { m: 'male', male: 'male', f: 'female', female: 'female' };
+
+const CIVIL_STATUS_VALUES: Record<string, CivilStatus> = {
+  single: 'single',
+  married: 'married',
+  widow: 'widowed',
+  widower: 'widowed',
+  widowed: 'widowed',
+  separated: 'separated',
+  legally_separated: 'separated',
+  annulled: 'annulled',
+};
+
+const asText = (value: unknown) => (value === undefined || value === null ? '' : String(value).trim());
+
+const enumKey = (value: unknown) => asText(value).toLowerCase().replace(/[^a-z]+/g, '_');
+
+// "jr", "JR." and "Jr" all become "Jr."; unknown suffixes are left for
+// validation to reject.
+const toSuffix = (value: unknown) => {
+  const text = asText(value);
+  const key = text.toLowerCase().replace(/\./g, '');
+  return NAME_SUFFIXES.find((suffix) => suffix.toLowerCase().replace(/\./g, '') === key) ?? text;
+};
+
+// Accepts either the stored value or its label ("Under Investigation").
+// Blank leaves it unset: new entries start open, and updates keep theirs.
+const toStatus = (value: unknown) => {
+  const key = enumKey(value);
+  if (!key) return undefined;
+  return (ENTRY_STATUSES.find((status) => status.value === key || enumKey(status.label) === key)?.value ??
+    key) as BlotterEntry['status'];
+};
+
+export type ImportRow = {
+  // Row number in the spreadsheet; the header is row 1.
+  rowNumber: number;
+  entry: BlotterEntry;
+  // Left out of the import from the preview.
+  excluded: boolean;
+  // What to do if the row is a probable duplicate; unset means skip.
+  resolution?: DuplicateResolution;
+};
+
+export type ImportReadResult = {
+  rows: ImportRow[];
+  missingColumns: string[];
+};
+
+/** Reads sheet rows as entries without judging them; see checkImportRow. */
+export const readImportRows = (rows: Record<string, unknown>[]): ImportReadResult => {
+  const normalized = rows.map((row) => {
+    const out: Record<string, unknown> = {};
+    for (const [header, value] of Object.entries(row)) {
+      const column = normalizeHeader(header);
+      out[column] = DATE_COLUMNS.has(column) ? toIsoDate(value) : value;
+    }
+    return out;
+  });
+
+  const columns = new Set(normalized.flatMap((row) => Object.keys(row)));
+  const missingColumns = REQUIRED_COLUMNS.filter((column) => !columns.has(column));
+  if (rows.length === 0 || missingColumns.length > 0) {
+    return { rows: [], missingColumns: rows.length === 0 ? REQUIRED_COLUMNS : missingColumns };
+  }
+
+  return {
+    rows: normalized.map((row, i) => ({
+      rowNumber: i + 2,
+      excluded: false,
+      entry: {
+        blotter_entry: asText(row.blotter_entry),
+        first_name: asText(row.first_name),
+        last_name: asText(row.last_name),
+        case_type: asText(row.case_type),
+        date: asText(row.date),
+        status: toStatus(row.status),
+        middle_name: asText(row.middle_name),
+        suffix: toSuffix(row.suffix),
+        aliases: asText(row.aliases)
+          .split(/[;,]/)
+          .map((alias) => alias.trim())
+          .filter(Boolean),
+        date_of_birth: asText(row.date_of_birth),
+        sex: SEX_VALUES[enumKey(row.sex)] ?? ((asText(row.sex) || null) as Sex | null),
+        civil_status:
+          CIVIL_STATUS_VALUES[enumKey(row.civil_status)] ?? ((asText(row.civil_status) || null) as CivilStatus | null),
+        barangay: asText(row.barangay),
+        municipality: asText(row.municipality),
+        province: asText(row.province),
+        contact_number: asText(row.contact_number),
+        id_type: asText(row.id_type),
+        id_number: asText(row.id_number),
+      },
+    })),
+    missingColumns: [],
+  };
+};
+
+export type ImportField = 'blotter_entry' | 'first_name' | 'last_name' | 'case_type' | 'date' | 'status' | SubjectField;
+
+export type ImportIssues = Partial<Record<ImportField, string>>;
+
+export type ImportCheck = {
+  // Block the row from being imported until fixed or excluded.
+  errors: ImportIssues;
+  // Worth a look, but the row imports as is.
+  warnings: ImportIssues;
+};
+
+export type ImportCheckContext = {
+  // Case types already in the blotter; see BlotterRepository.listCaseTypes.
+  caseTypes: string[];
+  // YYYY-MM-DD; incident dates after it are rejected.
+  today?: string;
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const caseTypeKey = (caseType: string) => caseType.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * Problems with one row. Case types are free text, so a type the blotter
+ * hasn't used yet is only a warning (it may be a typo, or simply new); one
+ * that differs from a known type only in spacing or capitals suggests it.
+ */
+export const checkImportRow = (entry: BlotterEntry, context: ImportCheckContext): ImportCheck => {
+  const errors: ImportIssues = {};
+  const warnings: ImportIssues = {};
+  const today = context.today ?? format(new Date(), 'yyyy-MM-dd');
+
+  if (!entry.first_name.trim()) errors.first_name = 'First name is missing';
+  if (!entry.last_name.trim()) errors.last_name = 'Last name is missing';
+  if (!entry.blotter_entry.trim()) errors.blotter_entry = 'Narrative is empty';
+
+  if (!entry.date) {
+    errors.date = 'Date is missing';
+  } else if (!DATE_PATTERN.test(entry.date) || !isValid(parseISO(entry.date))) {
+    errors.date = `"${entry.date}" is not a date; use YYYY-MM-DD`;
+  } else if (entry.date > today) {
+    errors.date = 'Date is in the future';
+  }
+
+  if (!entry.case_type.trim()) {
+    errors.case_type = 'Case type is missing';
+  } else if (!context.caseTypes.includes(entry.case_type.trim())) {
+    const similar = context.caseTypes.find((caseType) => caseTypeKey(caseType) === caseTypeKey(entry.case_type));
+    warnings.case_type = similar ? `Did you mean "${similar}"?` : 'New case type; check the spelling';
+  }
+
+  if (entry.status && !ENTRY_STATUSES.some((status) => status.value === entry.status)) {
+    errors.status = `Unknown status "${entry.status}"`;
+  }
+
+  return { errors: { ...errors, ...validateSubject(entry) }, warnings };
+};
+
+export const hasIssues = (issues: ImportIssues) => Object.keys(issues).length > 0;
+
+export type ImportAction = 'create' | 'update' | 'skip';
+
+/**
+ * What saving does with a row. Probable duplicates are skipped unless the
+ * user chose otherwise, and only a repeat of an existing entry can update it.
+ */
+export const importAction = (row: ImportRow, duplicate?: ImportDuplicate): ImportAction => {
+  if (row.excluded) return 'skip';
+  if (!duplicate || row.resolution === 'import') return 'create';
+  return row.resolution === 'update' && duplicate.kind === 'existing' ? 'update' : 'skip';
+};
+
+/**
+ * Blocks rows that update an entry an earlier row already updates, since
+ * saving both would keep only the last. The first of them goes ahead.
+ */
+export const flagRepeatedUpdates = (
+  rows: ImportRow[],
+  duplicates: (ImportDuplicate | undefined)[],
+  checks: ImportCheck[]
+): ImportCheck[] => {
+  // Existing entry id to the row number updating it.
+  const updatedBy = new Map<number, number>();
+  return checks.map((check, i) => {
+    const duplicate = duplicates[i];
+    if (importAction(rows[i], duplicate) !== 'update' || duplicate?.kind !== 'existing') return check;
+    const id = duplicate.entry.id as number;
+    const earlier = updatedBy.get(id);
+    if (earlier === undefined) {
+      updatedBy.set(id, rows[i].rowNumber);
+      return check;
+    }
+    const message = `Row ${earlier} already updates entry #${id}; skip or exclude one of them`;
+    return { ...check, errors: { blotter_entry: message, ...check.errors } };
+  });
+};
+
+// Ready to save: trimmed, with blank profile fields as nulls.
+export const toNewEntry = (entry: BlotterEntry): NewBlotterEntry =>
+  normalizeSubject({
+    ...entry,
+    first_name: entry.first_name.trim(),
+    last_name: entry.last_name.trim(),
+    case_type: entry.case_type.trim(),
+    blotter_entry: entry.blotter_entry.trim(),
+  });
+
+const isBlank = (value: unknown) =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+/**
+ * The changes a row makes to the existing entry it updates: only the fields
+ * it has a value for, so columns the sheet lacks or left blank keep what the
+ * entry already has.
+ */
+export const toEntryUpdate = (entry: BlotterEntry): Partial<NewBlotterEntry> =>
+  Object.fromEntries(Object.entries(toNewEntry(entry)).filter(([, value]) => !isBlank(value)));
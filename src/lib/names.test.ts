@@ -0,0 +1,196 @@
+import { describe, expect, it } from 'vitest';
+import {
+  editDistance,
+  findNameMatches,
+  findSubjectMatches,
+  mergeAliases,
+  normalizeName,
+  phoneticKey,
+  scoreNameQuery,
+  scoreSubject,
+  splitFullName,
+  wordSimilarity,
+} from '@/lib/names';
+import { Person } from '@/lib/types';
+
+const person = (id: number, first_name: string, last_name: string, aliases: string[] = []): Person => ({
+  id,
+  first_name,
+  last_name,
+  aliases,
+});
+
+describe('normalizeName', () => {
+  it.each([
+    ['Juan Dela Cruz', ['juan', 'delacruz']],
+    ['juan de la cruz', ['juan', 'delacruz']],
+    ['Juan Delacruz', ['juan', 'delacruz']],
+    ['María Peña', ['maria', 'pena']],
+    ['Sta. Maria', ['santamaria']],
+    ['Sto. Niño', ['santonino']],
+    ['Jose Rizal Jr.', ['jose', 'rizal']],
+    ['Pedro Santos III', ['pedro', 'santos']],
+    ["O'Brien", ['o', 'brien']],
+    ['V', ['v']],
+    ['de', ['de']],
+    ['', []],
+  ])('%j becomes %j', (name, words) => {
+    expect(normalizeName(name)).toEqual(words);
+  });
+});
+
+describe('phoneticKey', () => {
+  it.each([
+    ['jhon', 'john'],
+    ['rhey', 'rey'],
+    ['khristine', 'christine'],
+    ['philip', 'felip'],
+    ['cristina', 'kristina'],
+    ['jazmin', 'jasmin'],
+    ['vicente', 'bisente'],
+    ['ma', 'ma'],
+  ])('%s sounds like %s', (a, b) => {
+    expect(phoneticKey(a)).toBe(phoneticKey(b));
+  });
+
+  it.each([
+    ['santos', 'santiago'],
+    ['reyes', 'ramos'],
+  ])('%s does not sound like %s', (a, b) => {
+    expect(phoneticKey(a)).not.toBe(phoneticKey(b));
+  });
+});
+
+describe('editDistance', () => {
+  it.each([
+    ['', '', 0],
+    ['abc', '', 3],
+    ['', 'abc', 3],
+    ['cruz', 'cruz', 0],
+    ['cruz', 'crus', 1],
+    ['kitten', 'sitting', 3],
+    ['santos', 'santiago', 4],
+  ])('%j to %j is %i', (a, b, distance) => {
+    expect(editDistance(a, b)).toBe(distance);
+  });
+});
+
+describe('wordSimilarity', () => {
+  it('is 1 for the same word', () => {
+    expect(wordSimilarity('cruz', 'cruz')).toBe(1);
+  });
+
+  it('scores sound-alike spellings just under identical ones', () => {
+    expect(wordSimilarity('jhon', 'john')).toBeGreaterThanOrEqual(0.9);
+    expect(wordSimilarity('jhon', 'john')).toBeLessThan(1);
+  });
+
+  it('scores unrelated words low', () => {
+    expect(wordSimilarity('santos', 'reyes')).toBeLessThan(0.5);
+  });
+});
+
+describe('scoreNameQuery', () => {
+  const juan = person(1, 'Juan', 'Dela Cruz', ['Totoy']);
+
+  it.each([
+    ['Juan Dela Cruz', 1],
+    ['dela cruz juan', 1],
+    ['Juan Delacruz', 1],
+    ['Cruz', 1],
+    ['Totoy', 1],
+  ])('%j fully matches Juan Dela Cruz', (query, score) => {
+    expect(scoreNameQuery(query, juan)).toBeCloseTo(score);
+  });
+
+  it.each(['Jhon Dela Cruz', 'Juan Dela Crus'])('%j nearly matches Juan Dela Cruz', (query) => {
+    expect(scoreNameQuery(query, juan)).toBeGreaterThanOrEqual(0.8);
+  });
+
+  it.each(['Pedro Santos', 'Maria Reyes'])('%j does not match Juan Dela Cruz', (query) => {
+    expect(scoreNameQuery(query, juan)).toBeLessThan(0.8);
+  });
+});
+
+describe('scoreSubject', () => {
+  it.each([
+    [{ first_name: 'Juan', last_name: 'Dela Cruz' }, { first_name: 'Juan', last_name: 'Dela Cruz' }, 0.99],
+    [{ first_name: 'Jhon', last_name: 'Delacruz' }, { first_name: 'John', last_name: 'De la Cruz' }, 0.9],
+    [{ first_name: '', last_name: 'Dela Cruz' }, { first_name: 'Juan', last_name: 'Dela Cruz' }, 0.99],
+    [
+      { first_name: 'Totoy', last_name: '', aliases: [] },
+      { first_name: 'Juan', last_name: 'Cruz', aliases: ['Totoy'] },
+      0.99,
+    ],
+    [{ first_name: 'X', last_name: 'Y', aliases: ['Juan Cruz'] }, { first_name: 'Juan', last_name: 'Cruz' }, 0.99],
+  ])('%j matches %j', (subject, other, atLeast) => {
+    expect(scoreSubject(subject, other)).toBeGreaterThanOrEqual(atLeast);
+  });
+
+  it.each([
+    [{ first_name: 'Juan', last_name: 'Santos' }, { first_name: 'Juan', last_name: 'Santiago' }],
+    [{ first_name: 'Juan', last_name: 'Dela Cruz' }, { first_name: 'Maria', last_name: 'Reyes' }],
+  ])('%j does not match %j', (subject, other) => {
+    expect(scoreSubject(subject, other)).toBeLessThan(0.8);
+  });
+});
+
+describe('findNameMatches', () => {
+  const persons = [person(1, 'Juan', 'Dela Cruz'), person(2, 'John', 'Delacruz'), person(3, 'Maria', 'Santos')];
+
+  it('returns close matches best first', () => {
+    expect(findNameMatches('Juan Dela Cruz', persons).map(({ person }) => person.id)).toEqual([1, 2]);
+  });
+
+  it('returns nothing for a blank query', () => {
+    expect(findNameMatches('  ', persons)).toEqual([]);
+  });
+
+  it('honours the threshold and limit', () => {
+    expect(findNameMatches('Juan Dela Cruz', persons, { threshold: 1 }).map(({ person }) => person.id)).toEqual([1]);
+    expect(findNameMatches('Juan Dela Cruz', persons, { limit: 1 })).toHaveLength(1);
+  });
+});
+
+describe('findSubjectMatches', () => {
+  const persons = [person(1, 'Juan', 'Dela Cruz'), person(2, 'Maria', 'Santos', ['Maria Dela Cruz'])];
+
+  it.each([
+    [{ first_name: 'Juan', last_name: 'Dela Cruz' }, [1]],
+    [{ first_name: 'Maria', last_name: 'Santos' }, [2]],
+    [{ first_name: '', last_name: '' }, []],
+  ])('%j matches persons %j', (subject, ids) => {
+    expect(findSubjectMatches(subject, persons).map(({ person }) => person.id)).toEqual(ids);
+  });
+});
+
+describe('mergeAliases', () => {
+  it.each([
+    [[], ['Totoy'], ['Totoy']],
+    [['Totoy'], ['totoy', ' TOTOY '], ['Totoy']],
+    [['Totoy'], ['', '  ', 'Boy'], ['Totoy', 'Boy']],
+    [undefined, undefined, []],
+    [['Boy'], [' Jun '], ['Boy', 'Jun']],
+  ])('%j plus %j is %j', (existing, added, merged) => {
+    expect(mergeAliases(existing, added)).toEqual(merged);
+  });
+});
+
+describe('splitFullName', () => {
+  it.each([
+    ['Juan Dela Cruz', { first_name: 'Juan', middle_name: '', last_name: 'Dela Cruz', suffix: '' }],
+    ['Juan S. Dela Cruz Jr.', { first_name: 'Juan', middle_name: 'S.', last_name: 'Dela Cruz', suffix: 'Jr.' }],
+    ['Dela Cruz, Juan S. Jr.', { first_name: 'Juan', middle_name: 'S.', last_name: 'Dela Cruz', suffix: 'Jr.' }],
+    ['Dela Cruz Jr., Juan', { first_name: 'Juan', middle_name: '', last_name: 'Dela Cruz', suffix: 'Jr.' }],
+    ['Maria Clara Santos', { first_name: 'Maria Clara', middle_name: '', last_name: 'Santos', suffix: '' }],
+    ['Jose de los Santos', { first_name: 'Jose', middle_name: '', last_name: 'de los Santos', suffix: '' }],
+    ['Pedro Santos III', { first_name: 'Pedro', middle_name: '', last_name: 'Santos', suffix: 'III' }],
+    ['Santos Jr', { first_name: 'Santos', middle_name: '', last_name: 'Jr', suffix: '' }],
+    ['Santos', { first_name: '', middle_name: '', last_name: 'Santos', suffix: '' }],
+    ['  Juan   Cruz  ', { first_name: 'Juan', middle_name: '', last_name: 'Cruz', suffix: '' }],
+    ['', { first_name: '', middle_name: '', last_name: '', suffix: '' }],
+    [' , ', { first_name: '', middle_name: '', last_name: '', suffix: '' }],
+  ])('%j splits into %j', (fullName, parts) => {
+    expect(splitFullName(fullName)).toEqual(parts);
+  });
+});
@@ -0,0 +1,287 @@
+import { NAME_SUFFIXES, Person, personName } from '@/lib/types';
+
+/**
+ * Name matching tuned for Filipino names as they get typed into a blotter:
+ * "Dela Cruz", "de la Cruz" and "Delacruz" normalize to the same key,
+ * "Jhon" and "John" share a phonetic key, and anything left over is scored
+ * by edit distance.
+ */
+
+// Generational suffixes are dropped before comparing.
+const SUFFIXES = new Set(['jr', 'sr', 'ii', 'iii', 'iv', 'v']);
+
+// Surname particles are written joined, spaced or abbreviated; they're glued
+// onto the word that follows them.
+const PARTICLES = new Set([
+  'de', 'del', 'dela', 'della', 'la', 'las', 'los', 'delos', 'delas',
+  'san', 'sta', 'sto', 'santa', 'santo', 'di', 'da', 'van', 'von',
+]);
+
+// The abbreviated forms are spelled out so "Sta. Maria" matches "Santa Maria".
+const EXPANSIONS: Record<string, string> = { sta: 'santa', sto: 'santo' };
+
+type NameWord = {
+  // The word with any particles glued on, e.g. "delacruz".
+  word: string;
+  // The same word without them, e.g. "cruz".
+  core: string;
+};
+
+const parseName = (name: string): NameWord[] => {
+  const words = name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z]+/)
+    .filter(Boolean)
+    .map((word) => EXPANSIONS[word] ?? word);
+
+  // A trailing "v" is only a suffix when it isn't the whole name.
+  while (words.length > 1 && SUFFIXES.has(words[words.length - 1])) words.pop();
+
+  const parsed: NameWord[] = [];
+  let prefix = '';
+  words.forEach((word, i) => {
+    if (PARTICLES.has(word) && i < words.length - 1) {
+      prefix += word;
+    } else {
+      parsed.push({ word: prefix + word, core: word });
+      prefix = '';
+    }
+  });
+  return parsed;
+};
+
+/**
+ * Lower-cases, strips diacritics and punctuation, drops suffixes and joins
+ * particles, returning the remaining name words.
+ */
+export const normalizeName = (name: string): string[] => parseName(name).map(({ word }) => word);
+
+// Ordered rewrite rules; each maps spellings that sound alike in Filipino
+// usage onto one form.
+const PHONETIC_RULES: [RegExp, string][] = [
+  [/ph/g, 'f'],
+  [/([bcdfgjklmnprstvz])h/g, '$1'], // Jhon, Rhey, Khristine
+  [/h(?![aeiou])/g, ''], // John, Mohammad
+  [/ny/g, 'n'],
+  [/ll/g, 'ly'],
+  [/qu/g, 'k'],
+  [/ck/g, 'k'],
+  [/c(?=[eiy])/g, 's'],
+  [/c/g, 'k'],
+  [/x/g, 'ks'],
+  [/z/g, 's'],
+  [/v/g, 'b'],
+  [/f/g, 'p'],
+  [/y/g, 'i'],
+  [/e/g, 'i'],
+  [/o/g, 'u'],
+  [/(.)\1+/g, '$1'],
+];
+
+/**
+ * A sound-alike key for a single normalized name word.
+ */
+export const phoneticKey = (word: string): string =>
+  PHONETIC_RULES.reduce((key, [pattern, replacement]) => key.replace(pattern, replacement), word);
+
+export const editDistance = (a: string, b: string): number => {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const stringSimilarity = (a: string, b: string) =>
+  a.length || b.length ? 1 - editDistance(a, b) / Math.max(a.length, b.length) : 1;
+
+// Sound-alike words score just under identical spellings.
+const PHONETIC_WEIGHT = 0.9;
+
+/**
+ * Similarity of two normalized name words, from 0 (unrelated) to 1 (same).
+ */
+export const wordSimilarity = (a: string, b: string): number => {
+  if (a === b) return 1;
+  return Math.max(stringSimilarity(a, b), PHONETIC_WEIGHT * stringSimilarity(phoneticKey(a), phoneticKey(b)));
+};
+
+/**
+ * How well the `query` words are covered by the `target` words. Each query
+ * word takes its best remaining target word, so "Juan" fully matches
+ * "Juan Carlos" but "Juan Juan" doesn't. "Cruz" alone matches "Dela Cruz".
+ */
+const coverage = (query: string[], target: NameWord[]) => {
+  if (query.length === 0) return 0;
+  const remaining = [...target];
+  let total = 0;
+  for (const word of query) {
+    let best = -1;
+    let bestScore = 0;
+    remaining.forEach((candidate, i) => {
+      const score = Math.max(wordSimilarity(word, candidate.word), wordSimilarity(word, candidate.core));
+      if (score > bestScore) {
+        best = i;
+        bestScore = score;
+      }
+    });
+    if (best >= 0) remaining.splice(best, 1);
+    total += bestScore;
+  }
+  return total / query.length;
+};
+
+// Also compare the names with spacing removed, which catches splits the
+// particle list doesn't know about ("Mac Arthur" / "MacArthur").
+const compactSimilarity = (a: NameWord[], b: NameWord[]) =>
+  stringSimilarity(a.map(({ word }) => word).join(''), b.map(({ word }) => word).join(''));
+
+export type NameParts = Pick<Person, 'first_name' | 'last_name' | 'aliases'>;
+
+/**
+ * Scores free search text against a person's full name, in either order,
+ * and against each of their aliases.
+ */
+export const scoreNameQuery = (query: string, person: NameParts): number => {
+  const words = parseName(query);
+  const queryWords = normalizeName(query);
+  const first = parseName(person.first_name);
+  const last = parseName(person.last_name);
+  const aliasScores = (person.aliases ?? []).map((alias) => {
+    const aliasWords = parseName(alias);
+    return Math.max(coverage(queryWords, aliasWords), compactSimilarity(words, aliasWords));
+  });
+  return Math.max(
+    coverage(queryWords, [...first, ...last]),
+    compactSimilarity(words, [...first, ...last]),
+    compactSimilarity(words, [...last, ...first]),
+    ...aliasScores
+  );
+};
+
+/**
+ * Scores two subjects field by field, weighting the surname more. A subject
+ * with no first name yet is compared on surname alone. Either side's
+ * aliases can also match the other's name or aliases.
+ */
+export const scoreSubject = (subject: NameParts, person: NameParts): number => {
+  const x = parseName(subject.last_name);
+  const y = parseName(person.last_name);
+  const last = Math.max(coverage(normalizeName(subject.last_name), y), compactSimilarity(x, y));
+  const byName = normalizeName(subject.first_name).length
+    ? 0.6 * last + 0.4 * coverage(normalizeName(subject.first_name), parseName(person.first_name))
+    : last;
+
+  const byAlias = (subject.aliases ?? []).map((alias) => scoreNameQuery(alias, person));
+  const aliasOfPerson = (person.aliases ?? []).length
+    ? scoreNameQuery(personName(subject), { first_name: '', last_name: '', aliases: person.aliases })
+    : 0;
+  return Math.max(byName, aliasOfPerson, ...byAlias);
+};
+
+export type NameMatch = {
+  person: Person;
+  // 0..1, higher is closer.
+  score: number;
+};
+
+type MatchOptions = {
+  threshold?: number;
+  limit?: number;
+};
+
+// Below this, matches are mostly noise ("Santos" vs "Santiago").
+export const DEFAULT_MATCH_THRESHOLD = 0.8;
+
+const rank = (
+  persons: Person[],
+  score: (person: Person) => number,
+  { threshold = DEFAULT_MATCH_THRESHOLD, limit = 10 }: MatchOptions
+): NameMatch[] =>
+  persons
+    .map((person) => ({ person, score: score(person) }))
+    .filter((match) => match.score >= threshold)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+
+/**
+ * Possible matches for a name typed in the search box, best first.
+ */
+export const findNameMatches = (query: string, persons: Person[], options: MatchOptions = {}) =>
+  normalizeName(query).length ? rank(persons, (person) => scoreNameQuery(query, person), options) : [];
+
+/**
+ * Registry entries that are likely the same individual as `subject`.
+ */
+export const findSubjectMatches = (subject: NameParts, persons: Person[], options: MatchOptions = {}) =>
+  normalizeName(subject.last_name).length || subject.aliases?.length
+    ? rank(persons, (person) => scoreSubject(subject, person), options)
+    : [];
+
+/**
+ * Adds aliases to a list, skipping blanks and case-insensitive repeats.
+ */
+export const mergeAliases = (existing: string[] = [], added: string[] = []): string[] => {
+  const merged = [...existing];
+  for (const alias of added.map((a) => a.trim()).filter(Boolean)) {
+    if (!merged.some((a) => a.toLowerCase() === alias.toLowerCase())) merged.push(alias);
+  }
+  return merged;
+};
+
+export type SplitName = Pick<Person, 'first_name' | 'last_name'> & { middle_name: string; suffix: string };
+
+const wordKey = (word: string) => word.toLowerCase().replace(/\./g, '');
+
+// An initial such as "S." between given name and surname.
+const INITIAL = /^[a-z]\.?$/i;
+
+const takeSuffix = (words: string[]) => {
+  const suffix = words.length > 1 ? NAME_SUFFIXES.find((s) => wordKey(s) === wordKey(words[words.length - 1])) : undefined;
+  if (suffix) words.pop();
+  return suffix ?? '';
+};
+
+const takeInitial = (words: string[]) => (words.length > 1 && INITIAL.test(words[words.length - 1]) ? words.pop()! : '');
+
+/**
+ * Splits a single "full name" cell into its parts: "Dela Cruz, Juan S. Jr."
+ * (surname first, as on forms) or "Juan S. Dela Cruz Jr.". Without a comma
+ * the surname is the last word with any particles before it. Only an
+ * initial is taken as a middle name; other extra words stay in the first
+ * name, since "Maria Clara" is as common as a spelled-out middle name.
+ */
+export const splitFullName = (fullName: string): SplitName => {
+  const parts = fullName
+    .split(',')
+    .map((part) => part.trim().split(/\s+/).filter(Boolean))
+    .filter((words) => words.length > 0);
+  if (parts.length === 0) return { first_name: '', middle_name: '', last_name: '', suffix: '' };
+
+  if (parts.length > 1) {
+    const [surname, ...rest] = parts;
+    const given = rest.flat();
+    const suffix = takeSuffix(given) || takeSuffix(surname);
+    const middle = takeInitial(given);
+    return { first_name: given.join(' '), middle_name: middle, last_name: surname.join(' '), suffix };
+  }
+
+  const words = parts[0];
+  const suffix = words.length > 2 ? takeSuffix(words) : '';
+  let start = words.length - 1;
+  while (start > 1 && PARTICLES.has(wordKey(words[start - 1]))) start--;
+  const last = words.splice(start);
+  const middle = takeInitial(words);
+  return { first_name: words.join(' '), middle_name: middle, last_name: last.join(' '), suffix };
+};
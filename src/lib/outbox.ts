@@ -0,0 +1,69 @@
+import { BlotterEntry } from '@/lib/types';
+import { NewPhoto } from '@/lib/repository';
+import { get, getAll, put, remove } from '@/lib/idb';
+
+export type OutboxStatus = 'pending' | 'syncing' | 'failed';
+
+export type OutboxEntry = {
+  local_id: string;
+  entry: BlotterEntry;
+  // Photos still to upload. IndexedDB stores the blobs as-is.
+  photos?: NewPhoto[];
+  // Set once the entry itself is saved, while its photos are still pending.
+  entry_id?: number;
+  status: OutboxStatus;
+  attempts: number;
+  error?: string;
+  queued_at: string;
+};
+
+const STORE = 'outbox';
+
+// Lets other tabs (and the sync context in this tab) know the outbox changed.
+const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel('blotter-outbox') : null;
+const listeners = new Set<() => void>();
+
+const notify = () => {
+  listeners.forEach((listener) => listener());
+  channel?.postMessage('changed');
+};
+
+channel?.addEventListener('message', () => listeners.forEach((listener) => listener()));
+
+export const subscribeOutbox = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const listOutbox = async (): Promise<OutboxEntry[]> => {
+  const items = await getAll<OutboxEntry>(STORE);
+  return items.sort((a, b) => a.queued_at.localeCompare(b.queued_at));
+};
+
+export const getOutboxEntry = (localId: string) => get<OutboxEntry>(STORE, localId);
+
+export const enqueueEntry = async (entry: BlotterEntry, photos: NewPhoto[] = []): Promise<OutboxEntry> => {
+  const item: OutboxEntry = {
+    local_id: crypto.randomUUID(),
+    entry,
+    photos,
+    status: 'pending',
+    attempts: 0,
+    queued_at: new Date().toISOString(),
+  };
+  await put(STORE, item);
+  notify();
+  return item;
+};
+
+export const updateOutboxEntry = async (item: OutboxEntry) => {
+  await put(STORE, item);
+  notify();
+};
+
+export const removeOutboxEntry = async (localId: string) => {
+  await remove(STORE, localId);
+  notify();
+};
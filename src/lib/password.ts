@@ -0,0 +1,26 @@
+/**
+ * Rules for passwords users choose themselves. Supabase applies its own
+ * server-side minimum as well; these are the station's stricter ones.
+ */
+
+export const PASSWORD_MIN_LENGTH = 10;
+
+export const PASSWORD_RULES: { label: string; test: (password: string) => boolean }[] = [
+  { label: `At least ${PASSWORD_MIN_LENGTH} characters`, test: (p) => p.length >= PASSWORD_MIN_LENGTH },
+  { label: 'An uppercase and a lowercase letter', test: (p) => /[A-Z]/.test(p) && /[a-z]/.test(p) },
+  { label: 'A number', test: (p) => /\d/.test(p) },
+  { label: 'A symbol', test: (p) => /[^A-Za-z0-9]/.test(p) },
+];
+
+export const EMAIL_NAME_RULE = "Doesn't contain your email name";
+
+// Labels of the rules the password fails, plus one for reusing the email's
+// name part; empty when it's acceptable.
+export const passwordIssues = (password: string, email?: string | null) => {
+  const issues = PASSWORD_RULES.filter((rule) => !rule.test(password)).map((rule) => rule.label);
+  const name = email?.split('@')[0]?.toLowerCase();
+  if (name && name.length >= 3 && password.toLowerCase().includes(name)) {
+    issues.push(EMAIL_NAME_RULE);
+  }
+  return issues;
+};
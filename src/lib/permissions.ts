@@ -0,0 +1,54 @@
+/**
+ * Roles and what each may do. The same table is written out in SQL as
+ * public.role_permissions (see the rbac migration), so row-level security
+ * enforces exactly what the UI offers.
+ */
+
+export type Role = 'admin' | 'desk_officer' | 'investigator' | 'viewer';
+
+export const ROLES: { value: Role; label: string; description: string }[] = [
+  { value: 'admin', label: 'Admin', description: 'Everything, including users, imports and the trash' },
+  { value: 'desk_officer', label: 'Desk Officer', description: 'Records, edits and deletes entries; imports' },
+  { value: 'investigator', label: 'Investigator', description: 'Records and updates entries' },
+  { value: 'viewer', label: 'Viewer', description: 'Read-only access' },
+];
+
+export type Permission =
+  | 'entries:create'
+  | 'entries:edit'
+  // Move to the trash, and undo one's own deletions.
+  | 'entries:delete'
+  | 'entries:delete_all'
+  | 'entries:import'
+  // Move every entry from one import batch to the trash.
+  | 'entries:rollback_import'
+  // Restore anyone's deletions and permanently purge them.
+  | 'entries:manage_trash'
+  | 'audit:view'
+  | 'users:manage';
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  admin: [
+    'entries:create',
+    'entries:edit',
+    'entries:delete',
+    'entries:delete_all',
+    'entries:import',
+    'entries:rollback_import',
+    'entries:manage_trash',
+    'audit:view',
+    'users:manage',
+  ],
+  desk_officer: ['entries:create', 'entries:edit', 'entries:delete', 'entries:import'],
+  investigator: ['entries:create', 'entries:edit'],
+  viewer: [],
+};
+
+// Roles that must use an authenticator app; everyone else may opt in from
+// Settings. Mirrored in public.mfa_required_roles.
+export const MFA_REQUIRED_ROLES: Role[] = ['admin'];
+
+export const roleLabel = (role?: Role | null) => ROLES.find((r) => r.value === role)?.label ?? 'No role';
+
+export const hasPermission = (role: Role | null | undefined, permission: Permission) =>
+  role ? ROLE_PERMISSIONS[role].includes(permission) : false;
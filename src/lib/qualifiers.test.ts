@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { getSuggestions, parseSearchInput } from '@/lib/qualifiers';
+
+describe('parseSearchInput', () => {
+  it.each([
+    ['stolen phone', { text: 'stolen phone', filters: {}, errors: [] }],
+    ['type:theft', { text: '', filters: { caseTypes: ['theft'] }, errors: [] }],
+    ['type:theft TYPE:robbery', { text: '', filters: { caseTypes: ['theft', 'robbery'] }, errors: [] }],
+    ['type:"physical injury" juan', { text: 'juan', filters: { caseTypes: ['physical injury'] }, errors: [] }],
+    ['status:open status:Settled', { text: '', filters: { statuses: ['open', 'settled'] }, errors: [] }],
+    ['status:pending', { text: '', filters: {}, errors: ['Unknown status "pending"'] }],
+    [
+      'after:2025-01-01 before:2025-06-30',
+      { text: '', filters: { after: '2025-01-01', before: '2025-06-30' }, errors: [] },
+    ],
+    ['after:2025-13-01', { text: '', filters: {}, errors: ['after: expects a date like 2025-01-31'] }],
+    ['before:yesterday', { text: '', filters: {}, errors: ['before: expects a date like 2025-01-31'] }],
+    ['first:juan last:"dela cruz"', { text: '', filters: { firstName: 'juan', lastName: 'dela cruz' }, errors: [] }],
+    ['last:"dela cr', { text: '', filters: { lastName: 'dela cr' }, errors: [] }],
+    ['type: theft', { text: 'theft', filters: {}, errors: [] }],
+    ['type:""', { text: '', filters: {}, errors: [] }],
+    ['plate:ABC-123 "blue car"', { text: 'plate:ABC-123 "blue car"', filters: {}, errors: [] }],
+    ['', { text: '', filters: {}, errors: [] }],
+  ])('%j parses as %j', (input, parsed) => {
+    expect(parseSearchInput(input)).toEqual(parsed);
+  });
+});
+
+describe('getSuggestions', () => {
+  const caseTypes = ['Theft', 'Physical Injury', 'Robbery'];
+  const values = (input: string) => getSuggestions(input, { caseTypes }).map(({ value }) => value);
+
+  it.each([
+    ['', []],
+    ['juan ', []],
+    ['st', ['status:']],
+    ['juan a', ['juan after:']],
+    ['status:', ['status:open ', 'status:investigating ', 'status:settled ', 'status:closed ']],
+    ['status:o', ['status:open ', 'status:closed ']],
+    ['status:open', []],
+    ['type:inj', ['type:"Physical Injury" ']],
+    ['juan type:"phys', ['juan type:"Physical Injury" ']],
+    ['first:ju', []],
+    ['plate:', []],
+  ])('%j suggests %j', (input, suggested) => {
+    expect(values(input)).toEqual(suggested);
+  });
+
+  it('suggests dates for after: and before:', () => {
+    expect(values('after:')).toHaveLength(3);
+    expect(values('before:')).toEqual(values('after:').map((value) => value.replace('after:', 'before:')));
+  });
+});
@@ -0,0 +1,167 @@
+import { ENTRY_STATUSES, EntryStatus } from '@/lib/types';
+
+/**
+ * Structured filters typed into the search bar as `key:value` qualifiers,
+ * e.g. `type:theft after:2025-01-01 last:"dela cruz" status:open`.
+ * Repeating a list qualifier (type, status) matches any of the values.
+ */
+export type EntryFilters = {
+  // Case type contains any of these (from type: qualifiers).
+  caseTypes?: string[];
+  // Case type is exactly one of these (from the filter panel).
+  caseTypeIn?: string[];
+  statuses?: EntryStatus[];
+  after?: string;
+  before?: string;
+  firstName?: string;
+  lastName?: string;
+};
+
+export type QualifierKey = 'type' | 'status' | 'after' | 'before' | 'first' | 'last';
+
+export const QUALIFIERS: { key: QualifierKey; description: string; example: string }[] = [
+  { key: 'type', description: 'Case type', example: 'type:theft' },
+  { key: 'status', description: 'Entry status', example: 'status:open' },
+  { key: 'after', description: 'On or after a date', example: 'after:2025-01-01' },
+  { key: 'before', description: 'On or before a date', example: 'before:2025-06-30' },
+  { key: 'first', description: 'First name contains', example: 'first:juan' },
+  { key: 'last', description: 'Last name contains', example: 'last:"dela cruz"' },
+];
+
+const QUALIFIER_KEYS = new Set<string>(QUALIFIERS.map((q) => q.key));
+
+export type ParsedSearchInput = {
+  // Whatever is left for full-text search once qualifiers are removed.
+  text: string;
+  filters: EntryFilters;
+  errors: string[];
+};
+
+// A qualifier (`key:value` or `key:"quoted value"`) or any other token.
+const TOKEN_PATTERN = /([a-z]+):("[^"]*"?|\S*)|("[^"]*"?|\S+)/gi;
+
+const unquote = (value: string) => value.replace(/^"/, '').replace(/"$/, '').trim();
+
+const isIsoDate = (value: string) =>
+  /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(new Date(`${value}T00:00:00`).getTime());
+
+export const parseSearchInput = (input: string): ParsedSearchInput => {
+  const filters: EntryFilters = {};
+  const errors: string[] = [];
+  const text: string[] = [];
+
+  for (const match of input.matchAll(TOKEN_PATTERN)) {
+    const [token, rawKey, rawValue] = match;
+    const key = rawKey?.toLowerCase();
+
+    if (!key || !QUALIFIER_KEYS.has(key)) {
+      text.push(token);
+      continue;
+    }
+
+    const value = unquote(rawValue);
+    // Still being typed; nothing to filter on yet.
+    if (!value) continue;
+
+    switch (key as QualifierKey) {
+      case 'type':
+        filters.caseTypes = [...(filters.caseTypes ?? []), value];
+        break;
+      case 'status': {
+        const status = ENTRY_STATUSES.find((s) => s.value === value.toLowerCase());
+        if (status) {
+          filters.statuses = [...(filters.statuses ?? []), status.value];
+        } else {
+          errors.push(`Unknown status "${value}"`);
+        }
+        break;
+      }
+      case 'after':
+      case 'before':
+        if (isIsoDate(value)) {
+          filters[key] = value;
+        } else {
+          errors.push(`${key}: expects a date like 2025-01-31`);
+        }
+        break;
+      case 'first':
+        filters.firstName = value;
+        break;
+      case 'last':
+        filters.lastName = value;
+        break;
+    }
+  }
+
+  return { text: text.join(' '), filters, errors };
+};
+
+export type Suggestion = {
+  label: string;
+  description?: string;
+  // The full search input after accepting the suggestion.
+  value: string;
+};
+
+const quoteIfNeeded = (value: string) => (/\s/.test(value) ? `"${value}"` : value);
+
+const isoDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const dateSuggestions = () => {
+  const today = new Date();
+  return [
+    { value: isoDate(today), description: 'Today' },
+    { value: isoDate(new Date(today.getFullYear(), today.getMonth(), 1)), description: 'Start of this month' },
+    { value: isoDate(new Date(today.getFullYear(), 0, 1)), description: 'Start of this year' },
+  ];
+};
+
+/**
+ * Autocomplete for the token under the cursor (assumed to be the end of the
+ * input): qualifier names while typing a bare word, then values once the
+ * colon is in.
+ */
+export const getSuggestions = (input: string, options: { caseTypes: string[] }): Suggestion[] => {
+  // An unterminated quote means the last token is still open.
+  const openQuote = (input.match(/"/g)?.length ?? 0) % 2 === 1;
+  const tokenStart = openQuote ? input.lastIndexOf(' ', input.lastIndexOf('"')) + 1 : input.search(/\S*$/);
+  const head = input.slice(0, tokenStart);
+  const token = input.slice(tokenStart);
+  if (!token) return [];
+
+  const qualifier = token.match(/^([a-z]+):(.*)$/i);
+
+  if (!qualifier) {
+    const partial = token.toLowerCase();
+    return QUALIFIERS.filter((q) => q.key.startsWith(partial) && q.key !== partial).map((q) => ({
+      label: `${q.key}:`,
+      description: q.description,
+      value: `${head}${q.key}:`,
+    }));
+  }
+
+  const key = qualifier[1].toLowerCase() as QualifierKey;
+  const partial = unquote(qualifier[2]).toLowerCase();
+  const complete = (value: string) => `${head}${key}:${quoteIfNeeded(value)} `;
+
+  let values: { value: string; description?: string }[];
+  switch (key) {
+    case 'type':
+      values = options.caseTypes.map((value) => ({ value }));
+      break;
+    case 'status':
+      values = ENTRY_STATUSES.map((s) => ({ value: s.value, description: s.label }));
+      break;
+    case 'after':
+    case 'before':
+      values = dateSuggestions();
+      break;
+    default:
+      return [];
+  }
+
+  return values
+    .filter(({ value }) => value.toLowerCase().includes(partial) && value.toLowerCase() !== partial)
+    .map(({ value, description }) => ({ label: `${key}:${quoteIfNeeded(value)}`, description, value: complete(value) }));
+};
@@ -0,0 +1,304 @@
+import { format } from 'date-fns';
+import type { jsPDF } from 'jspdf';
+import { BlotterEntry, CIVIL_STATUSES, ENTRY_STATUSES, SEXES } from '@/lib/types';
+import { computeAge, formatAddress, subjectFullName } from '@/lib/subject';
+
+/**
+ * Printed blotter reports: a certified copy of one entry (for complainants
+ * and courts) and the logbook of a date range, like the paper journal. The
+ * print views and the PDF downloads lay out the same content from here.
+ */
+
+export type PaperSize = 'a4' | 'letter';
+
+export const PAPER_SIZES: { value: PaperSize; label: string; css: string }[] = [
+  { value: 'a4', label: 'A4', css: 'A4' },
+  { value: 'letter', label: 'Letter', css: 'letter' },
+];
+
+export type ReportField = { label: string; value: string };
+
+export type ReportOptions = {
+  letterhead: string[];
+  station: string;
+  logoUrl?: string;
+  paper: PaperSize;
+  // Printed under the signature lines; blank leaves room to write them in.
+  dutyOfficer: string;
+  deskSergeant: string;
+  printedBy: string;
+  printedAt: Date;
+};
+
+export const SIGNATORIES = [
+  { key: 'dutyOfficer', title: 'Duty Officer', caption: 'Prepared by' },
+  { key: 'deskSergeant', title: 'Desk Sergeant', caption: 'Noted by' },
+] as const;
+
+export type Signatories = Pick<ReportOptions, 'dutyOfficer' | 'deskSergeant'>;
+
+/** Reference number printed on reports and logbooks, e.g. "2026-000042". */
+export const entryNumber = (entry: Pick<BlotterEntry, 'id' | 'date'>) =>
+  `${entry.date.slice(0, 4)}-${String(entry.id ?? 0).padStart(6, '0')}`;
+
+const BLANK = '—';
+
+const longDate = (value?: string | null) => (value ? format(new Date(value), 'MMMM d, yyyy') : BLANK);
+
+export const reportCaseFields = (entry: BlotterEntry): ReportField[] => [
+  { label: 'Entry No.', value: entryNumber(entry) },
+  { label: 'Date', value: longDate(entry.date) },
+  { label: 'Case Type', value: entry.case_type },
+  { label: 'Status', value: ENTRY_STATUSES.find((status) => status.value === entry.status)?.label ?? 'Open' },
+  {
+    label: 'Recorded',
+    value: entry.created_at ? format(new Date(entry.created_at), 'MMMM d, yyyy h:mm a') : BLANK,
+  },
+];
+
+// Every subject field, blank ones included, as an official form shows them.
+export const reportSubjectFields = (entry: BlotterEntry): ReportField[] => {
+  const age = computeAge(entry.date_of_birth);
+  return [
+    { label: 'Name', value: subjectFullName(entry) },
+    { label: 'Aliases', value: entry.aliases?.length ? entry.aliases.join(', ') : BLANK },
+    {
+      label: 'Date of Birth',
+      value: entry.date_of_birth ? `${longDate(entry.date_of_birth)}${age !== undefined ? ` (age ${age})` : ''}` : BLANK,
+    },
+    { label: 'Sex', value: SEXES.find((sex) => sex.value === entry.sex)?.label ?? BLANK },
+    {
+      label: 'Civil Status',
+      value: CIVIL_STATUSES.find((status) => status.value === entry.civil_status)?.label ?? BLANK,
+    },
+    { label: 'Address', value: formatAddress(entry) || BLANK },
+    { label: 'Contact Number', value: entry.contact_number || BLANK },
+    { label: 'ID Presented', value: [entry.id_type, entry.id_number].filter(Boolean).join(' ') || BLANK },
+  ];
+};
+
+export const CERTIFICATION =
+  'This is to certify that the foregoing is a true and correct copy of the entry in the police blotter of this station.';
+
+
+// The logbook prints each narrative on a few lines; the entry report has it in full.
+export const LOGBOOK_NARRATIVE_LENGTH = 280;
+
+export const condenseNarrative = (text: string, max = LOGBOOK_NARRATIVE_LENGTH) => {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > max ? `${flat.slice(0, max).replace(/\s+\S*$/, '')}…` : flat;
+};
+
+export type LogbookRow = { running: number; entry: BlotterEntry };
+export type LogbookDay = { date: string; rows: LogbookRow[] };
+
+export const LOGBOOK_COLUMNS = ['No.', 'Entry No.', 'Subject', 'Case Type', 'Status', 'Narrative'];
+
+/**
+ * Groups entries (oldest first) by date. Rows are numbered consecutively
+ * across the whole printout, like the lines of the paper journal.
+ */
+export const groupLogbook = (entries: BlotterEntry[]): LogbookDay[] => {
+  const days: LogbookDay[] = [];
+  entries.forEach((entry, i) => {
+    const row = { running: i + 1, entry };
+    const day = days[days.length - 1];
+    if (day?.date === entry.date) {
+      day.rows.push(row);
+    } else {
+      days.push({ date: entry.date, rows: [row] });
+    }
+  });
+  return days;
+};
+
+export const logbookCells = ({ running, entry }: LogbookRow) => [
+  String(running),
+  entryNumber(entry),
+  subjectFullName(entry),
+  entry.case_type,
+  ENTRY_STATUSES.find((status) => status.value === entry.status)?.label ?? 'Open',
+  condenseNarrative(entry.blotter_entry),
+];
+
+export const logbookDayTitle = (day: LogbookDay) =>
+  `${format(new Date(day.date), 'EEEE, MMMM d, yyyy')} — ${day.rows.length} ${day.rows.length === 1 ? 'entry' : 'entries'}`;
+
+export const logbookPeriod = (from: string, to: string) =>
+  from === to ? longDate(from) : `${longDate(from)} to ${longDate(to)}`;
+
+export const logbookCertification = (count: number, from: string, to: string) =>
+  count === 0
+    ? `This is to certify that no entries were recorded in the police blotter of this station for ${logbookPeriod(from, to)}.`
+    : `This is to certify that the foregoing ${count === 1 ? 'entry is a true and correct extract' : `${count} entries are true and correct extracts`} of the police blotter of this station for ${logbookPeriod(from, to)}.`;
+
+// PDF downloads
+
+const PDF_MARGIN = 18;
+
+const loadPdf = async (paper: PaperSize) => {
+  const [{ jsPDF }, { autoTable }] = await Promise.all([import('jspdf'), import('jspdf-autotable')]);
+  return { doc: new jsPDF({ unit: 'mm', format: paper }), autoTable };
+};
+
+// Set by autoTable on the document after each table.
+const tableEnd = (doc: jsPDF) => (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY;
+
+// jsPDF takes images as data URLs; a logo that fails to load is left out.
+const loadImage = async (url: string) => {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return null;
+    const blob = await response.blob();
+    return await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(blob);
+    });
+  } catch {
+    return null;
+  }
+};
+
+// Letterhead and title; returns where the content starts.
+const drawHeading = async (doc: jsPDF, options: ReportOptions, title: string, subtitle: string) => {
+  const center = doc.internal.pageSize.getWidth() / 2;
+  let y = PDF_MARGIN;
+
+  const logo = options.logoUrl ? await loadImage(options.logoUrl) : null;
+  if (logo) {
+    doc.addImage(logo, PDF_MARGIN, y - 2, 20, 20);
+  }
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  options.letterhead.forEach((line) => {
+    doc.text(line, center, y + 2, { align: 'center' });
+    y += 5;
+  });
+  if (options.station) {
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(12);
+    doc.text(options.station, center, y + 3, { align: 'center' });
+    y += 6;
+  }
+  y = Math.max(y, PDF_MARGIN + 20) + 4;
+  doc.setLineWidth(0.5);
+  doc.line(PDF_MARGIN, y, doc.internal.pageSize.getWidth() - PDF_MARGIN, y);
+  y += 9;
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(14);
+  doc.text(title, center, y, { align: 'center' });
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  doc.text(subtitle, center, y + 5, { align: 'center' });
+  return y + 10;
+};
+
+// The certification and signatures stay together, on a new page if need be.
+const drawCertification = (doc: jsPDF, y: number, text: string, options: ReportOptions) => {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  if (y + 34 > doc.internal.pageSize.getHeight() - PDF_MARGIN) {
+    doc.addPage();
+    y = PDF_MARGIN;
+  }
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  doc.text(doc.splitTextToSize(text, pageWidth - 2 * PDF_MARGIN), PDF_MARGIN, y);
+  y += 20;
+  const blockWidth = (pageWidth - 2 * PDF_MARGIN - 20) / 2;
+  SIGNATORIES.forEach(({ key, title, caption }, i) => {
+    const x = PDF_MARGIN + i * (blockWidth + 20);
+    doc.setFont('helvetica', 'normal');
+    doc.text(`${caption}:`, x, y - 12);
+    doc.line(x, y, x + blockWidth, y);
+    doc.setFont('helvetica', 'bold');
+    doc.text(options[key] || ' ', x + blockWidth / 2, y + 5, { align: 'center' });
+    doc.setFont('helvetica', 'normal');
+    doc.text(title, x + blockWidth / 2, y + 10, { align: 'center' });
+  });
+};
+
+// Footer on every page, once the page count is known.
+const drawFooters = (doc: jsPDF, label: string, options: ReportOptions) => {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const pages = doc.getNumberOfPages();
+  const footer = `${label} · Printed ${format(options.printedAt, 'MMMM d, yyyy h:mm a')} by ${options.printedBy}`;
+  for (let page = 1; page <= pages; page++) {
+    doc.setPage(page);
+    doc.setFontSize(8);
+    doc.setFont('helvetica', 'normal');
+    doc.text(footer, PDF_MARGIN, pageHeight - 10);
+    doc.text(`Page ${page} of ${pages}`, pageWidth - PDF_MARGIN, pageHeight - 10, { align: 'right' });
+  }
+};
+
+const TABLE_STYLES = {
+  theme: 'grid',
+  margin: PDF_MARGIN,
+  headStyles: { fillColor: 235, textColor: 20, fontStyle: 'bold' },
+} as const;
+
+export const downloadEntryReportPdf = async (entry: BlotterEntry, options: ReportOptions) => {
+  const { doc, autoTable } = await loadPdf(options.paper);
+  let y = await drawHeading(doc, options, 'POLICE BLOTTER ENTRY', 'Certified True Copy');
+
+  const fieldTable = (title: string, fields: ReportField[]) => {
+    autoTable(doc, {
+      ...TABLE_STYLES,
+      startY: y,
+      head: [[{ content: title, colSpan: 2 }]],
+      body: fields.map(({ label, value }) => [label, value]),
+      styles: { fontSize: 9, cellPadding: 1.5, textColor: 20, lineColor: 150 },
+      columnStyles: { 0: { cellWidth: 40, fontStyle: 'bold' } },
+    });
+    y = tableEnd(doc) + 6;
+  };
+
+  fieldTable('Entry', reportCaseFields(entry));
+  fieldTable('Subject', reportSubjectFields(entry));
+
+  autoTable(doc, {
+    ...TABLE_STYLES,
+    startY: y,
+    head: [['Narrative']],
+    body: [[entry.blotter_entry]],
+    styles: { fontSize: 10, cellPadding: 3, textColor: 20, lineColor: 150 },
+  });
+
+  drawCertification(doc, tableEnd(doc) + 8, CERTIFICATION, options);
+  drawFooters(doc, `Entry No. ${entryNumber(entry)}`, options);
+  doc.save(`blotter-entry-${entryNumber(entry)}.pdf`);
+};
+
+export const downloadLogbookPdf = async (entries: BlotterEntry[], from: string, to: string, options: ReportOptions) => {
+  const { doc, autoTable } = await loadPdf(options.paper);
+  const y = await drawHeading(doc, options, 'POLICE BLOTTER LOGBOOK', logbookPeriod(from, to));
+  const days = groupLogbook(entries);
+
+  autoTable(doc, {
+    ...TABLE_STYLES,
+    startY: y,
+    head: [LOGBOOK_COLUMNS],
+    body: days.length
+      ? days.flatMap((day) => [
+          [
+            {
+              content: logbookDayTitle(day),
+              colSpan: LOGBOOK_COLUMNS.length,
+              styles: { fontStyle: 'bold' as const, fillColor: 245 },
+            },
+          ],
+          ...day.rows.map(logbookCells),
+        ])
+      : [[{ content: 'No entries for this period.', colSpan: LOGBOOK_COLUMNS.length }]],
+    styles: { fontSize: 8, cellPadding: 1.5, textColor: 20, lineColor: 150 },
+    columnStyles: { 0: { cellWidth: 9 }, 1: { cellWidth: 22 }, 2: { cellWidth: 32 }, 3: { cellWidth: 24 }, 4: { cellWidth: 20 } },
+  });
+
+  drawCertification(doc, tableEnd(doc) + 8, logbookCertification(entries.length, from, to), options);
+  drawFooters(doc, `Blotter logbook, ${logbookPeriod(from, to)}`, options);
+  doc.save(from === to ? `blotter-logbook-${from}.pdf` : `blotter-logbook-${from}-to-${to}.pdf`);
+};
@@ -0,0 +1,85 @@
+import { BlotterEntry, Person } from '@/lib/types';
+
+// Sample entries for the memory backend used in demos and training.
+export const DEMO_ENTRIES: BlotterEntry[] = [
+  {
+    id: 1,
+    first_name: 'Juan',
+    last_name: 'Dela Cruz',
+    case_type: 'Theft',
+    status: 'closed',
+    date: '2025-03-14',
+    blotter_entry:
+      'Complainant reported that his motorcycle (plate no. ABC 1234) was taken from the public market parking area at around 0930H.',
+    created_at: '2025-03-14T02:10:00.000Z',
+    person_ids: [1],
+  },
+  {
+    id: 2,
+    first_name: 'Maria',
+    last_name: 'Santos',
+    case_type: 'Physical Injury',
+    status: 'settled',
+    date: '2025-03-18',
+    blotter_entry:
+      'Two neighbors figured in a heated argument over a property boundary that resulted in minor injuries to the complainant.',
+    created_at: '2025-03-18T07:45:00.000Z',
+    person_ids: [2],
+  },
+  {
+    id: 3,
+    first_name: 'Pedro',
+    last_name: 'Reyes',
+    aliases: ['Boy Tigas'],
+    case_type: 'Estafa',
+    status: 'investigating',
+    date: '2025-04-02',
+    blotter_entry:
+      'Complainant alleged that the subject received payment for a used cellphone and failed to deliver the item.',
+    created_at: '2025-04-02T01:20:00.000Z',
+    person_ids: [3],
+  },
+  {
+    id: 4,
+    first_name: 'Jose',
+    last_name: 'Garcia',
+    case_type: 'Alarm and Scandal',
+    status: 'open',
+    date: '2025-04-20',
+    blotter_entry:
+      'Responding officers found the subject shouting and causing disturbance along the national highway past midnight.',
+    created_at: '2025-04-20T16:30:00.000Z',
+    person_ids: [4],
+  },
+  {
+    id: 5,
+    first_name: 'Ana',
+    last_name: 'Mendoza',
+    case_type: 'Lost Item',
+    status: 'open',
+    date: '2025-05-05',
+    blotter_entry: 'Complainant reported the loss of her wallet containing a driver\'s license and ATM cards.',
+    created_at: '2025-05-05T03:00:00.000Z',
+    person_ids: [5],
+  },
+  {
+    id: 6,
+    first_name: 'Juan',
+    last_name: 'Dela Cruz',
+    case_type: 'Theft',
+    status: 'investigating',
+    date: '2025-06-11',
+    blotter_entry:
+      'Store owner reported that the subject took two sacks of rice from the delivery area and fled on a motorcycle.',
+    created_at: '2025-06-11T05:15:00.000Z',
+    person_ids: [1],
+  },
+];
+
+export const DEMO_PERSONS: Person[] = DEMO_ENTRIES.slice(0, 5).map((entry, i) => ({
+  id: i + 1,
+  first_name: entry.first_name,
+  last_name: entry.last_name,
+  aliases: entry.aliases ?? [],
+  created_at: entry.created_at,
+}));
@@ -0,0 +1,90 @@
+import { appConfig } from '@/lib/config';
+import { getSupabase } from '@/lib/supabase';
+import { AuditEvent, BlotterEntry, EntryPhoto, EntryRevision, ImportBatch, Person } from '@/lib/types';
+import { AuthService, BlotterRepository } from './types';
+import { createSupabaseAuth, createSupabaseRepository } from './supabase';
+import { ActorProvider, createLocalRepository, StoredFile } from './local';
+import { createLocalAuth, LocalUser } from './localAuth';
+import { createIdbTable, createMemoryTable } from './tables';
+import { DEMO_ENTRIES, DEMO_PERSONS } from './demoData';
+
+export type {
+  AuditListResult,
+  AuditQuery,
+  AuthService,
+  BlotterRepository,
+  EntryListQuery,
+  EntryListResult,
+  MfaEnrollment,
+  NewBlotterEntry,
+  NewImportBatch,
+  NewPerson,
+  NewPhoto,
+  NewUser,
+  SortDirection,
+  SortField,
+  UserChanges,
+} from './types';
+
+// The signed-in user, as AuthContext sees it, attributes local audit events
+// and decides what the local repository allows. Like current_user_role() on
+// Supabase, an account still on a temporary password gets nothing.
+const actorOf = (auth: AuthService): ActorProvider => async () => {
+  const profile = await auth.getProfile();
+  return profile?.active && !profile.must_change_password
+    ? { id: profile.id, email: profile.email, role: profile.role }
+    : null;
+};
+
+const createBackend = (): { repository: BlotterRepository; auth: AuthService } => {
+  const admin = { email: appConfig.localAdminEmail, password: appConfig.localAdminPassword };
+
+  switch (appConfig.backend) {
+    case 'local': {
+      const auth = createLocalAuth(createIdbTable<LocalUser, string>('users'), admin);
+      return {
+        repository: createLocalRepository(
+          {
+            entries: createIdbTable<BlotterEntry>('blotter_entries'),
+            persons: createIdbTable<Person>('persons'),
+            photos: createIdbTable<EntryPhoto>('entry_photos'),
+            files: createIdbTable<StoredFile, string>('files'),
+            audit: createIdbTable<AuditEvent>('audit_log'),
+            revisions: createIdbTable<EntryRevision>('entry_revisions'),
+            importBatches: createIdbTable<ImportBatch, string>('import_batches'),
+          },
+          actorOf(auth)
+        ),
+        auth,
+      };
+    }
+    case 'memory': {
+      const auth = createLocalAuth(createMemoryTable<LocalUser, string>(), admin);
+      return {
+        repository: createLocalRepository(
+          {
+            entries: createMemoryTable<BlotterEntry>(DEMO_ENTRIES),
+            persons: createMemoryTable<Person>(DEMO_PERSONS),
+            photos: createMemoryTable<EntryPhoto>(),
+            files: createMemoryTable<StoredFile, string>(),
+            audit: createMemoryTable<AuditEvent>(),
+            revisions: createMemoryTable<EntryRevision>(),
+            importBatches: createMemoryTable<ImportBatch, string>(),
+          },
+          actorOf(auth)
+        ),
+        auth,
+      };
+    }
+    case 'supabase':
+    default: {
+      const client = getSupabase();
+      return {
+        repository: createSupabaseRepository(client),
+        auth: createSupabaseAuth(client),
+      };
+    }
+  }
+};
+
+export const { repository, auth } = createBackend();
@@ -0,0 +1,558 @@
+import {
+  AuditAction,
+  AuditEvent,
+  BlotterEntry,
+  EntryPhoto,
+  EntryRevision,
+  ImportBatch,
+  Person,
+  personName,
+} from '@/lib/types';
+import { isEmptyQuery, parseSearchQuery, scoreEntry } from '@/lib/search';
+import { EntryFilters } from '@/lib/qualifiers';
+import { mergeAliases } from '@/lib/names';
+import { auditSnapshot, dayBounds, diffRows } from '@/lib/audit';
+import { changedFields, revisionSnapshot } from '@/lib/revisions';
+import { canPurge } from '@/lib/trash';
+import { hasPermission, Permission, Role } from '@/lib/permissions';
+import { BlotterRepository, EntryListQuery, NewBlotterEntry, SortField } from './types';
+import { Table } from './tables';
+
+const contains = (value: string, term: string) => value.toLowerCase().includes(term.toLowerCase());
+
+const matchesFilters = (entry: BlotterEntry, filters: EntryFilters = {}) =>
+  (!filters.caseTypes?.length || filters.caseTypes.some((type) => contains(entry.case_type, type))) &&
+  (!filters.caseTypeIn?.length || filters.caseTypeIn.includes(entry.case_type)) &&
+  (!filters.statuses?.length || filters.statuses.includes(entry.status ?? 'open')) &&
+  (!filters.after || entry.date >= filters.after) &&
+  (!filters.before || entry.date <= filters.before) &&
+  (!filters.firstName || contains(entry.first_name, filters.firstName)) &&
+  (!filters.lastName || contains(entry.last_name, filters.lastName));
+
+const SORT_KEYS: Record<SortField, (entry: BlotterEntry) => string> = {
+  date: (entry) => entry.date,
+  name: (entry) => `${entry.last_name} ${entry.first_name}`.toLowerCase(),
+  created_at: (entry) => entry.created_at ?? '',
+};
+
+// Days a trashed entry stays restorable on this backend. A copy of
+// trash_retention_days() in the soft_delete migration, which the browser
+// can't read without Supabase; change the two together.
+const TRASH_RETENTION_DAYS = 30;
+
+const notFound = (kind: string, id: number) => new Error(`${kind} ${id} not found`);
+
+const forbidden = () => new Error("You don't have permission to do this");
+
+// A photo blob, keyed by the same kind of path the Storage bucket uses.
+export type StoredFile = {
+  id: string;
+  blob: Blob;
+};
+
+export type LocalTables = {
+  // Entries keep their person links inline as `person_ids`.
+  entries: Table<BlotterEntry>;
+  persons: Table<Person>;
+  photos: Table<EntryPhoto>;
+  files: Table<StoredFile, string>;
+  audit: Table<AuditEvent>;
+  revisions: Table<EntryRevision>;
+  importBatches: Table<ImportBatch, string>;
+};
+
+// Who is signed in, for attributing audit events.
+export type ActorProvider = () => Promise<{ id: string; email?: string; role: Role } | null>;
+
+/**
+ * Repository backed by on-device tables. Filtering and paging happen in
+ * memory, which is fine for the size of a single station's blotter.
+ */
+export const createLocalRepository = (
+  { entries, persons, photos, files, audit, revisions, importBatches }: LocalTables,
+  getActor: ActorProvider
+): BlotterRepository => {
+  // Mirrors the row-level security policies on the Supabase tables: the
+  // signed-in user's role must grant one of `permissions`.
+  // With no permissions given, any active account with a role may go ahead,
+  // as the "Users with a role read ..." policies allow on Supabase.
+  const authorize = async (...permissions: Permission[]) => {
+    const actor = await getActor();
+    if (!actor || (permissions.length > 0 && !permissions.some((permission) => hasPermission(actor.role, permission)))) {
+      throw forbidden();
+    }
+    return actor;
+  };
+
+  // Mirrors the audit_row_change trigger on the Supabase tables.
+  const record = async (action: AuditAction, tableName: string, before: object | null, after: object | null) => {
+    let changes = { before: before && auditSnapshot(before), after: after && auditSnapshot(after) };
+    if (before && after) {
+      const diff = diffRows(before, after);
+      if (!diff) return;
+      changes = diff;
+    }
+    const row = (after ?? before) as { id?: number; entry_id?: number };
+    const actor = await getActor();
+    await audit.insert({
+      occurred_at: new Date().toISOString(),
+      actor_id: actor?.id ?? null,
+      actor_email: actor?.email ?? null,
+      action,
+      table_name: tableName,
+      record_id: row.id !== undefined ? String(row.id) : null,
+      entry_id: (tableName === 'blotter_entries' ? row.id : row.entry_id) ?? null,
+      ...changes,
+    });
+  };
+
+  const entryRevisions = async (entryId: number) =>
+    (await revisions.where('entry_id', entryId)).sort((a, b) => b.revision - a.revision);
+
+  // Adds the next revision if the versioned fields changed. Entries saved
+  // before revisions existed get their prior state as revision 1 first.
+  const saveRevision = async (before: BlotterEntry | null, after: BlotterEntry) => {
+    const entryId = after.id as number;
+    const [latest] = await entryRevisions(entryId);
+    let previous = latest;
+    if (!previous && before) {
+      previous = await revisions.insert({
+        entry_id: entryId,
+        revision: 1,
+        created_at: before.created_at ?? new Date().toISOString(),
+        actor_id: null,
+        actor_email: null,
+        snapshot: revisionSnapshot(before),
+      });
+    }
+    const snapshot = revisionSnapshot(after);
+    if (previous && changedFields(previous.snapshot, snapshot).length === 0) return;
+    const actor = await getActor();
+    await revisions.insert({
+      entry_id: entryId,
+      revision: (previous?.revision ?? 0) + 1,
+      created_at: new Date().toISOString(),
+      actor_id: actor?.id ?? null,
+      actor_email: actor?.email ?? null,
+      snapshot,
+    });
+  };
+
+  // Object URLs live as long as the page, so hand out one per file.
+  const objectUrls = new Map<string, string>();
+  const fileUrl = async (path: string) => {
+    if (!objectUrls.has(path)) {
+      const file = await files.get(path);
+      if (!file) return undefined;
+      objectUrls.set(path, URL.createObjectURL(file.blob));
+    }
+    return objectUrls.get(path);
+  };
+
+  const removeFiles = async (paths: string[]) => {
+    for (const path of paths) {
+      await files.remove(path);
+      const url = objectUrls.get(path);
+      if (url) URL.revokeObjectURL(url);
+      objectUrls.delete(path);
+    }
+  };
+
+  const entryPhotos = async (entryId: number) =>
+    (await photos.all())
+      .filter((photo) => photo.entry_id === entryId)
+      .sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+
+  const deletePhotos = async (rows: EntryPhoto[]) => {
+    for (const photo of rows) {
+      await removeFiles([photo.path, photo.thumbnail_path]);
+      await photos.remove(photo.id);
+      await record('delete', 'entry_photos', photo, null);
+    }
+  };
+
+  const liveEntries = async () => (await entries.all()).filter((entry) => !entry.deleted_at);
+
+  const trashEntry = async (entry: BlotterEntry, reason: string, deletedBy: string | null) => {
+    const trashed = await entries.put({
+      ...entry,
+      deleted_at: new Date().toISOString(),
+      deleted_by: deletedBy,
+      deletion_reason: reason,
+    });
+    await record('update', 'blotter_entries', entry, trashed);
+  };
+
+  // Fill in `persons` the way the Supabase embed does.
+  const withPersons = async (rows: BlotterEntry[]) => {
+    const byId = new Map((await persons.all()).map((person) => [person.id, person]));
+    return rows.map((row) => ({
+      ...row,
+      persons: (row.person_ids ?? []).map((id) => byId.get(id)).filter(Boolean),
+    }));
+  };
+
+  // Drop the read-only embed before writing.
+  const toRow = ({ persons: _persons, ...entry }: Partial<BlotterEntry>) => entry;
+
+  // Only trashing and restoring change these, and the batch and device ids are
+  // fixed when the entry is created; mirrors authorize_entry_update.
+  const protectedFields = ['deleted_at', 'deleted_by', 'deletion_reason', 'import_batch_id', 'local_id'] as const;
+
+  // Aliases recorded on an entry are added to its persons so registry
+  // matching sees them too.
+  const addPersonAliases = async (personIds: number[] = [], aliases: string[] = []) => {
+    if (!aliases.length) return;
+    for (const id of personIds) {
+      const person = await persons.get(id);
+      if (!person) continue;
+      const merged = mergeAliases(person.aliases, aliases);
+      if (merged.length === (person.aliases ?? []).length) continue;
+      const updated = await persons.put({ ...person, aliases: merged });
+      await record('update', 'persons', person, updated);
+    }
+  };
+
+  const linkPersons = async (entry: NewBlotterEntry) => {
+    if (entry.person_ids?.length) {
+      await addPersonAliases(entry.person_ids, entry.aliases);
+      return entry.person_ids;
+    }
+    const person = await persons.insert({
+      first_name: entry.first_name.trim(),
+      last_name: entry.last_name.trim(),
+      aliases: mergeAliases([], entry.aliases),
+      created_at: new Date().toISOString(),
+    });
+    await record('create', 'persons', null, person);
+    return [person.id];
+  };
+
+  return {
+    remote: false,
+
+    async listEntries({ search, filters, sort, page, pageSize }: EntryListQuery) {
+      await authorize();
+      const parsed = parseSearchQuery(search ?? '');
+      const searching = !isEmptyQuery(parsed);
+      const { field, direction } = sort ?? { field: 'date', direction: 'desc' };
+      const key = SORT_KEYS[field];
+      const sign = direction === 'asc' ? 1 : -1;
+
+      let rows = (await liveEntries())
+        .filter((entry) => matchesFilters(entry, filters))
+        .sort((a, b) => sign * key(a).localeCompare(key(b)) || sign * ((a.id ?? 0) - (b.id ?? 0)));
+
+      // Without an explicit sort, search results are ranked. The sort is
+      // stable, so equally ranked entries stay newest first.
+      if (searching) {
+        const scored = rows
+          .map((entry) => ({ entry, score: scoreEntry(entry, parsed) }))
+          .filter(({ score }) => score > 0);
+        if (!sort) scored.sort((a, b) => b.score - a.score);
+        rows = scored.map(({ entry }) => entry);
+      }
+
+      return {
+        data: await withPersons(rows.slice((page - 1) * pageSize, page * pageSize)),
+        count: rows.length,
+      };
+    },
+
+    async listCaseTypes() {
+      await authorize();
+      const types = new Set((await liveEntries()).map((entry) => entry.case_type.trim()).filter(Boolean));
+      return Array.from(types).sort((a, b) => a.localeCompare(b));
+    },
+
+    async getEntry(id) {
+      await authorize();
+      const entry = await entries.get(id);
+      if (!entry) throw notFound('Entry', id);
+      return (await withPersons([entry]))[0];
+    },
+
+    async createEntries(newEntries) {
+      await authorize('entries:create', 'entries:import');
+      // Mirrors the guard_import_batch_entry trigger.
+      for (const batchId of new Set(newEntries.map((entry) => entry.import_batch_id).filter(Boolean))) {
+        if ((await importBatches.get(batchId as string))?.status === 'rolled_back') {
+          throw new Error(`Import batch ${batchId} has been rolled back`);
+        }
+      }
+      const created: BlotterEntry[] = [];
+      for (const entry of newEntries) {
+        // Mirrors the unique local_id index: a queued entry is saved once.
+        const [saved] = entry.local_id ? await entries.where('local_id', entry.local_id) : [];
+        if (saved) {
+          created.push(saved);
+          continue;
+        }
+        const person_ids = await linkPersons(entry);
+        const row = await entries.insert({
+          ...toRow(entry),
+          person_ids,
+          status: entry.status ?? 'open',
+          created_at: new Date().toISOString(),
+        } as BlotterEntry);
+        await record('create', 'blotter_entries', null, row);
+        await saveRevision(null, row);
+        created.push(row);
+      }
+      return withPersons(created);
+    },
+
+    async updateEntry(id, changes) {
+      await authorize('entries:edit');
+      const existing = await entries.get(id);
+      if (!existing) throw notFound('Entry', id);
+      if (protectedFields.some((field) => field in changes && (changes[field] ?? null) !== (existing[field] ?? null))) {
+        throw new Error('Deletion details, import batch and device id cannot be edited');
+      }
+      const updated = await entries.put({ ...existing, ...toRow(changes), id });
+      await record('update', 'blotter_entries', existing, updated);
+      await saveRevision(existing, updated);
+      await addPersonAliases(updated.person_ids, changes.aliases);
+      return (await withPersons([updated]))[0];
+    },
+
+    async deleteEntry(id, reason) {
+      const actor = await authorize('entries:delete');
+      const existing = await entries.get(id);
+      if (!existing) throw notFound('Entry', id);
+      if (existing.deleted_at) return;
+      await trashEntry(existing, reason, actor.email ?? null);
+    },
+
+    async deleteAllEntries(reason) {
+      const deletedBy = (await authorize('entries:delete_all')).email ?? null;
+      const trashed: number[] = [];
+      for (const entry of await liveEntries()) {
+        await trashEntry(entry, reason, deletedBy);
+        trashed.push(entry.id as number);
+      }
+      return trashed;
+    },
+
+    async listDeletedEntries() {
+      await authorize();
+      const rows = (await entries.all())
+        .filter((entry) => entry.deleted_at)
+        .sort((a, b) => (b.deleted_at as string).localeCompare(a.deleted_at as string));
+      return withPersons(rows);
+    },
+
+    async restoreEntries(ids) {
+      const actor = await authorize('entries:manage_trash', 'entries:delete');
+      const canRestoreAny = hasPermission(actor.role, 'entries:manage_trash');
+      for (const id of ids) {
+        const existing = await entries.get(id);
+        if (!existing?.deleted_at) continue;
+        // Without trash management, only your own deletions can be undone.
+        if (!canRestoreAny && existing.deleted_by !== actor.email) throw forbidden();
+        const restored = await entries.put({ ...existing, deleted_at: null, deleted_by: null, deletion_reason: null });
+        await record('update', 'blotter_entries', existing, restored);
+      }
+    },
+
+    async purgeEntries(ids) {
+      await authorize('entries:manage_trash');
+      const rows = await Promise.all(ids.map((id) => entries.get(id)));
+      if (rows.some((entry) => !entry || !canPurge(entry, TRASH_RETENTION_DAYS))) {
+        throw new Error(`Only entries in the trash for more than ${TRASH_RETENTION_DAYS} days can be purged`);
+      }
+      for (const entry of rows as BlotterEntry[]) {
+        await deletePhotos(await entryPhotos(entry.id as number));
+        await entries.remove(entry.id);
+        await record('delete', 'blotter_entries', entry, null);
+      }
+    },
+
+    async getTrashRetentionDays() {
+      return TRASH_RETENTION_DAYS;
+    },
+
+    async listRevisions(entryId) {
+      await authorize();
+      return entryRevisions(entryId);
+    },
+
+    async createImportBatch(batch) {
+      const actor = await authorize('entries:import');
+      return importBatches.insert({
+        ...batch,
+        id: crypto.randomUUID(),
+        status: 'in_progress',
+        created_at: new Date().toISOString(),
+        created_by: actor.email ?? null,
+        rolled_back_at: null,
+        rolled_back_by: null,
+      });
+    },
+
+    async listImportBatches() {
+      await authorize('entries:import', 'entries:rollback_import');
+      const counts = new Map<string, number>();
+      for (const entry of await entries.all()) {
+        if (entry.import_batch_id) counts.set(entry.import_batch_id, (counts.get(entry.import_batch_id) ?? 0) + 1);
+      }
+      return (await importBatches.all())
+        .map((batch) => ({ ...batch, entry_count: counts.get(batch.id) ?? 0 }))
+        .sort((a, b) => b.created_at.localeCompare(a.created_at));
+    },
+
+    async countImportBatchEntries(batchId) {
+      await authorize();
+      return (await entries.all()).filter((entry) => entry.import_batch_id === batchId).length;
+    },
+
+    async setImportBatchStatus(batchId, status) {
+      await authorize('entries:import');
+      const batch = await importBatches.get(batchId);
+      if (!batch) throw new Error(`Import batch ${batchId} not found`);
+      // A rolled-back batch is final, as the update policy makes it on Supabase.
+      if (batch.status !== 'rolled_back') await importBatches.put({ ...batch, status });
+    },
+
+    async rollbackImportBatch(batchId, reason) {
+      const actor = await authorize('entries:rollback_import');
+      const batch = await importBatches.get(batchId);
+      if (!batch || batch.status === 'rolled_back') {
+        throw new Error(`Import batch ${batchId} not found or already rolled back`);
+      }
+      await importBatches.put({
+        ...batch,
+        status: 'rolled_back',
+        rolled_back_at: new Date().toISOString(),
+        rolled_back_by: actor.email ?? null,
+      });
+      const trashed: number[] = [];
+      for (const entry of await liveEntries()) {
+        if (entry.import_batch_id !== batchId) continue;
+        await trashEntry(entry, reason, actor.email ?? null);
+        trashed.push(entry.id as number);
+      }
+      return trashed;
+    },
+
+    async searchPersons(search, limit = 10) {
+      await authorize();
+      const term = search.trim();
+      return (await persons.all())
+        .filter((person) => !term || contains([personName(person), ...(person.aliases ?? [])].join(' '), term))
+        .sort((a, b) => `${a.last_name} ${a.first_name}`.localeCompare(`${b.last_name} ${b.first_name}`))
+        .slice(0, limit);
+    },
+
+    async listPersons() {
+      await authorize();
+      return persons.all();
+    },
+
+    async getPerson(id) {
+      await authorize();
+      const person = await persons.get(id);
+      if (!person) throw notFound('Person', id);
+      return person;
+    },
+
+    async createPerson(person) {
+      await authorize('entries:create', 'entries:edit');
+      const created = await persons.insert({ ...person, created_at: new Date().toISOString() });
+      await record('create', 'persons', null, created);
+      return created;
+    },
+
+    async listPersonEntries(personId) {
+      await authorize();
+      const rows = (await liveEntries())
+        .filter((entry) => entry.person_ids?.includes(personId))
+        .sort((a, b) => b.date.localeCompare(a.date));
+      return withPersons(rows);
+    },
+
+    async countPersonEntries(personIds) {
+      await authorize();
+      const counts: Record<number, number> = Object.fromEntries(personIds.map((id) => [id, 0]));
+      for (const entry of await liveEntries()) {
+        entry.person_ids?.forEach((id) => {
+          if (id in counts) counts[id]++;
+        });
+      }
+      return counts;
+    },
+
+    async listPhotos(entryId) {
+      await authorize();
+      const rows = await entryPhotos(entryId);
+      return Promise.all(
+        rows.map(async (photo) => ({
+          ...photo,
+          url: await fileUrl(photo.path),
+          thumbnail_url: await fileUrl(photo.thumbnail_path),
+        }))
+      );
+    },
+
+    async addPhoto(entryId, { image, thumbnail, width, height }) {
+      await authorize('entries:create', 'entries:edit');
+      const name = `${entryId}/${crypto.randomUUID()}`;
+      const photo: EntryPhoto = {
+        entry_id: entryId,
+        path: `${name}.jpg`,
+        thumbnail_path: `${name}_thumb.jpg`,
+        width,
+        height,
+        created_at: new Date().toISOString(),
+      };
+      await files.put({ id: photo.path, blob: image });
+      await files.put({ id: photo.thumbnail_path, blob: thumbnail });
+      const created = await photos.insert(photo);
+      await record('create', 'entry_photos', null, created);
+      return { ...created, url: await fileUrl(photo.path), thumbnail_url: await fileUrl(photo.thumbnail_path) };
+    },
+
+    async deletePhoto(photo) {
+      await authorize('entries:edit');
+      await deletePhotos([photo]);
+    },
+
+    async getThumbnails(entryIds) {
+      await authorize();
+      const firstPhoto = new Map<number, EntryPhoto>();
+      for (const photo of await photos.all()) {
+        const current = firstPhoto.get(photo.entry_id);
+        if (entryIds.includes(photo.entry_id) && (!current || (photo.id ?? 0) < (current.id ?? 0))) {
+          firstPhoto.set(photo.entry_id, photo);
+        }
+      }
+      const thumbnails: Record<number, string> = {};
+      for (const [entryId, photo] of firstPhoto) {
+        const url = await fileUrl(photo.thumbnail_path);
+        if (url) thumbnails[entryId] = url;
+      }
+      return thumbnails;
+    },
+
+    async listAuditEvents({ actorEmail, entryId, from, to, page, pageSize }) {
+      await authorize('audit:view');
+      const { start, end } = dayBounds(from, to);
+      const rows = (await audit.all())
+        .filter(
+          (event) =>
+            (!actorEmail || event.actor_email === actorEmail) &&
+            (entryId === undefined || event.entry_id === entryId) &&
+            (!start || event.occurred_at >= start) &&
+            (!end || event.occurred_at < end)
+        )
+        .sort((a, b) => (b.id ?? 0) - (a.id ?? 0));
+      return { data: rows.slice((page - 1) * pageSize, page * pageSize), count: rows.length };
+    },
+
+    async listAuditActors() {
+      await authorize('audit:view');
+      const emails = new Set((await audit.all()).map((event) => event.actor_email).filter(Boolean) as string[]);
+      return Array.from(emails).sort();
+    },
+  };
+};
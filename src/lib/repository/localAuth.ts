@@ -0,0 +1,296 @@
+import { Session, User } from '@supabase/supabase-js';
+import { hasPermission, Role } from '@/lib/permissions';
+import { ManagedUser, UserProfile } from '@/lib/types';
+import { AuthService } from './types';
+import { Table } from './tables';
+
+// PBKDF2-SHA-256 with a random salt per hash. Accounts saved before salting
+// have a bare SHA-256 hash and no salt until their next sign-in.
+export type PasswordHash = {
+  password_hash: string;
+  password_salt?: string;
+  password_iterations?: number;
+};
+
+export type LocalUser = PasswordHash & {
+  id: string;
+  email: string;
+  // Accounts from before roles existed were all administrators.
+  role?: Role;
+  active?: boolean;
+  station?: string | null;
+  must_change_password?: boolean;
+  last_sign_in_at?: string | null;
+  created_at: string;
+};
+
+const toProfile = (user: LocalUser): UserProfile => ({
+  id: user.id,
+  email: user.email,
+  role: user.role ?? 'admin',
+  active: user.active ?? true,
+  station: user.station ?? null,
+  must_change_password: user.must_change_password ?? false,
+});
+
+// No look-alike characters (0/O, 1/l/I), since it's read out or written down.
+const TEMP_PASSWORD_ALPHABET = 'abcdefghjkmnpqrstuvwxyzABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const TEMP_PASSWORD_LENGTH = 10;
+
+const temporaryPassword = () =>
+  Array.from(
+    crypto.getRandomValues(new Uint32Array(TEMP_PASSWORD_LENGTH)),
+    (n) => TEMP_PASSWORD_ALPHABET[n % TEMP_PASSWORD_ALPHABET.length]
+  ).join('');
+
+const SESSION_KEY = 'blotter-local-session';
+const SESSION_TTL_SECONDS = 12 * 60 * 60;
+
+const PBKDF2_ITERATIONS = 600_000;
+const SALT_BYTES = 16;
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+const fromHex = (hex: string) => new Uint8Array((hex.match(/../g) ?? []).map((byte) => parseInt(byte, 16)));
+
+const pbkdf2 = async (password: string, salt: Uint8Array, iterations: number) => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, [
+    'deriveBits',
+  ]);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, 256);
+  return toHex(new Uint8Array(bits));
+};
+
+export const hashPassword = async (password: string): Promise<PasswordHash> => {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  return {
+    password_hash: await pbkdf2(password, salt, PBKDF2_ITERATIONS),
+    password_salt: toHex(salt),
+    password_iterations: PBKDF2_ITERATIONS,
+  };
+};
+
+export const checkPassword = async (password: string, stored: PasswordHash) => {
+  if (!stored.password_salt) {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(password));
+    return stored.password_hash === toHex(new Uint8Array(digest));
+  }
+  const hash = await pbkdf2(password, fromHex(stored.password_salt), stored.password_iterations ?? PBKDF2_ITERATIONS);
+  return stored.password_hash === hash;
+};
+
+// Shape a local account like a Supabase session so AuthContext doesn't care
+// which backend signed the user in.
+const toSession = (user: LocalUser): Session => {
+  const now = Math.floor(Date.now() / 1000);
+  return {
+    access_token: crypto.randomUUID(),
+    refresh_token: '',
+    token_type: 'bearer',
+    expires_in: SESSION_TTL_SECONDS,
+    expires_at: now + SESSION_TTL_SECONDS,
+    user: {
+      id: user.id,
+      email: user.email,
+      aud: 'local',
+      app_metadata: {},
+      user_metadata: {},
+      created_at: user.created_at,
+    } as User,
+  };
+};
+
+const readSession = (): Session | null => {
+  try {
+    const session = JSON.parse(localStorage.getItem(SESSION_KEY) || 'null') as Session | null;
+    if (!session || (session.expires_at ?? 0) * 1000 < Date.now()) return null;
+    return session;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Password sign-in against accounts stored on this device. The first start
+ * creates the configured admin account so a fresh station can log in.
+ */
+export const createLocalAuth = (
+  users: Table<LocalUser, string>,
+  admin: { email: string; password: string }
+): AuthService => {
+  const listeners = new Set<(session: Session | null) => void>();
+
+  const setSession = (session: Session | null) => {
+    if (session) {
+      localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+    } else {
+      localStorage.removeItem(SESSION_KEY);
+    }
+    listeners.forEach((listener) => listener(session));
+  };
+
+  const currentProfile = async () => {
+    const session = readSession();
+    const user = session && (await users.get(session.user.id));
+    return user ? toProfile(user) : null;
+  };
+
+  const authorizeAdmin = async () => {
+    const profile = await currentProfile();
+    if (!profile?.active || profile.must_change_password || !hasPermission(profile.role, 'users:manage')) {
+      throw new Error("You don't have permission to manage users");
+    }
+    return profile;
+  };
+
+  const ensureAdmin = async () => {
+    if ((await users.all()).length > 0) return;
+    await users.insert({
+      id: crypto.randomUUID(),
+      email: admin.email.toLowerCase(),
+      ...(await hashPassword(admin.password)),
+      role: 'admin',
+      active: true,
+      // The password comes from config, and is 'blotter' unless overridden.
+      must_change_password: true,
+      created_at: new Date().toISOString(),
+    });
+  };
+
+  return {
+    async getSession() {
+      return readSession();
+    },
+
+    onAuthStateChange(callback) {
+      listeners.add(callback);
+      return () => {
+        listeners.delete(callback);
+      };
+    },
+
+    async signInWithPassword(email, password) {
+      await ensureAdmin();
+      const user = (await users.all()).find((u) => u.email === email.trim().toLowerCase());
+      if (!user || !(await checkPassword(password, user))) {
+        return { error: new Error('Invalid login credentials') };
+      }
+      if (!toProfile(user).active) {
+        return { error: new Error('This account has been deactivated') };
+      }
+      await users.put({
+        ...user,
+        // Unsalted hashes are replaced now that the password is at hand.
+        ...(user.password_salt ? {} : await hashPassword(password)),
+        last_sign_in_at: new Date().toISOString(),
+      });
+      setSession(toSession(user));
+      return { error: null };
+    },
+
+    async signOut() {
+      setSession(null);
+      return { error: null };
+    },
+
+    async verifyPassword(password) {
+      const session = readSession();
+      const user = session && (await users.get(session.user.id));
+      if (!user) return false;
+      return checkPassword(password, user);
+    },
+
+    async getProfile() {
+      return currentProfile();
+    },
+
+    async requestPasswordReset() {
+      return {
+        error: new Error("Accounts on this device can't reset by email. Ask an administrator to reset your password."),
+      };
+    },
+
+    async completeAuthRedirect() {
+      return { error: new Error('Sign-in links only work with the Supabase backend') };
+    },
+
+    async updatePassword(password) {
+      const session = readSession();
+      const user = session && (await users.get(session.user.id));
+      if (!user) return { error: new Error('Sign in again to change your password') };
+      await users.put({ ...user, ...(await hashPassword(password)), must_change_password: false });
+      return { error: null };
+    },
+
+    // Authenticator apps need Supabase's MFA factors; accounts on this device
+    // sign in with a password alone.
+    async getMfaStatus() {
+      return { available: false, enrolled: false, verified: false };
+    },
+
+    async enrollMfa() {
+      throw new Error('Two-factor authentication requires the Supabase backend');
+    },
+
+    async verifyMfa() {
+      throw new Error('Two-factor authentication requires the Supabase backend');
+    },
+
+    async unenrollMfa() {
+      throw new Error('Two-factor authentication requires the Supabase backend');
+    },
+
+    async listUsers() {
+      await authorizeAdmin();
+      return (await users.all())
+        .map(
+          (user): ManagedUser => ({
+            ...toProfile(user),
+            created_at: user.created_at,
+            last_sign_in_at: user.last_sign_in_at ?? null,
+            mfa_enabled: false,
+          })
+        )
+        .sort((a, b) => a.email.localeCompare(b.email));
+    },
+
+    async inviteUser({ email, role, station }) {
+      await authorizeAdmin();
+      const normalized = email.trim().toLowerCase();
+      if ((await users.all()).some((user) => user.email === normalized)) {
+        throw new Error(`${normalized} already has an account`);
+      }
+      const password = temporaryPassword();
+      await users.insert({
+        id: crypto.randomUUID(),
+        email: normalized,
+        ...(await hashPassword(password)),
+        role,
+        active: true,
+        station: station || null,
+        must_change_password: true,
+        created_at: new Date().toISOString(),
+      });
+      return { temporaryPassword: password };
+    },
+
+    async updateUser(id, changes) {
+      const admin = await authorizeAdmin();
+      if (id === admin.id && (changes.role !== undefined || changes.active !== undefined)) {
+        throw new Error("You can't change your own role or deactivate yourself");
+      }
+      const user = await users.get(id);
+      if (!user) throw new Error(`User ${id} not found`);
+      await users.put({ ...user, ...changes });
+    },
+
+    async forcePasswordReset(id) {
+      await authorizeAdmin();
+      const user = await users.get(id);
+      if (!user) throw new Error(`User ${id} not found`);
+      const password = temporaryPassword();
+      await users.put({ ...user, ...(await hashPassword(password)), must_change_password: true });
+      return { temporaryPassword: password };
+    },
+  };
+};
@@ -0,0 +1,636 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { createDetachedSupabase } from '@/lib/supabase';
+import {
+  AuditEvent,
+  BlotterEntry,
+  EntryPhoto,
+  EntryRevision,
+  ImportBatch,
+  ManagedUser,
+  Person,
+  UserProfile,
+} from '@/lib/types';
+import { isEmptyQuery, parseSearchQuery, toTsQuery } from '@/lib/search';
+import { EntryFilters } from '@/lib/qualifiers';
+import { mergeAliases } from '@/lib/names';
+import { dayBounds } from '@/lib/audit';
+import { AuthService, BlotterRepository, EntryListQuery } from './types';
+
+const ENTRIES_TABLE = 'blotter_entries';
+const PERSONS_TABLE = 'persons';
+const ENTRY_PERSONS_TABLE = 'entry_persons';
+const CASE_TYPES_VIEW = 'blotter_case_types';
+// PostgREST's default cap on rows per response.
+const MAX_ROWS = 1000;
+const PHOTOS_TABLE = 'entry_photos';
+const PHOTOS_BUCKET = 'entry-photos';
+const STORAGE_REMOVE_BATCH = 1000;
+// Ids per in() filter, keeping request URLs well under server limits.
+const ID_BATCH = 200;
+// Signed photo URLs outlive a typical viewing session but not much more.
+const SIGNED_URL_SECONDS = 60 * 60;
+// Written by database triggers only (see the audit_log migration).
+const AUDIT_TABLE = 'audit_log';
+const AUDIT_ACTORS_VIEW = 'audit_actors';
+const REVISIONS_TABLE = 'entry_revisions';
+const IMPORT_BATCHES_TABLE = 'import_batches';
+const PROFILES_TABLE = 'profiles';
+const INVITATIONS_TABLE = 'invitations';
+// Factor names must be unique per user; unverified leftovers are removed first.
+const MFA_FACTOR_NAME = 'Blotter Entry System';
+
+// Embeds linked persons through the entry_persons join table.
+const ENTRY_SELECT = '*, persons(id, first_name, last_name, aliases)';
+
+const withPersonIds = (row: BlotterEntry): BlotterEntry => ({
+  ...row,
+  person_ids: (row.persons ?? []).map((person) => person.id),
+});
+
+// Columns that live outside the blotter_entries table.
+const toRow = ({ person_ids: _ids, persons: _persons, ...row }: Partial<BlotterEntry>) => row;
+
+// Table selects and rpc results over blotter_entries share the same filter
+// methods; typing both as a table select keeps the builder generics shallow.
+type EntriesQuery = ReturnType<ReturnType<SupabaseClient['from']>['select']>;
+
+// Values inside a PostgREST or() list must be quoted if they hold commas,
+// parentheses or spaces.
+const quoteFilterValue = (value: string) => `"${value.replace(/["\\]/g, '\\$&')}"`;
+
+const escapeLike = (value: string) => value.replace(/[%_\\]/g, '\\$&');
+
+const applyFilters = (query: EntriesQuery, filters: EntryFilters = {}): EntriesQuery => {
+  let q = query;
+  if (filters.caseTypes?.length) {
+    q = q.or(
+      filters.caseTypes.map((type) => `case_type.ilike.${quoteFilterValue(`%${escapeLike(type)}%`)}`).join(',')
+    );
+  }
+  if (filters.caseTypeIn?.length) q = q.in('case_type', filters.caseTypeIn);
+  if (filters.statuses?.length) q = q.in('status', filters.statuses);
+  if (filters.after) q = q.gte('date', filters.after);
+  if (filters.before) q = q.lte('date', filters.before);
+  if (filters.firstName) q = q.ilike('first_name', `%${escapeLike(filters.firstName)}%`);
+  if (filters.lastName) q = q.ilike('last_name', `%${escapeLike(filters.lastName)}%`);
+  return q;
+};
+
+const signUrls = async (client: SupabaseClient, paths: string[]) => {
+  if (paths.length === 0) return new Map<string, string>();
+  const { data, error } = await client.storage.from(PHOTOS_BUCKET).createSignedUrls(paths, SIGNED_URL_SECONDS);
+  if (error) throw error;
+  return new Map(data.filter((item) => item.signedUrl).map((item) => [item.path as string, item.signedUrl]));
+};
+
+const withPhotoUrls = async (client: SupabaseClient, photos: EntryPhoto[]) => {
+  const urls = await signUrls(client, photos.flatMap((photo) => [photo.path, photo.thumbnail_path]));
+  return photos.map((photo) => ({
+    ...photo,
+    url: urls.get(photo.path),
+    thumbnail_url: urls.get(photo.thumbnail_path),
+  }));
+};
+
+// Photo rows go with their entry through the foreign key; the files in the
+// bucket have to be removed separately.
+const removePhotoFiles = async (client: SupabaseClient, photos: Pick<EntryPhoto, 'path' | 'thumbnail_path'>[]) => {
+  const paths = photos.flatMap((photo) => [photo.path, photo.thumbnail_path]);
+  for (let i = 0; i < paths.length; i += STORAGE_REMOVE_BATCH) {
+    const { error } = await client.storage.from(PHOTOS_BUCKET).remove(paths.slice(i, i + STORAGE_REMOVE_BATCH));
+    if (error) throw error;
+  }
+};
+
+// Aliases recorded on an entry are added to its persons so registry
+// matching sees them too.
+const addPersonAliases = async (client: SupabaseClient, personIds: number[], aliases: string[] = []) => {
+  if (!aliases.length || !personIds.length) return;
+  const { data, error } = await client.from(PERSONS_TABLE).select('id, aliases').in('id', personIds);
+  if (error) throw error;
+  for (const person of data as Person[]) {
+    const merged = mergeAliases(person.aliases, aliases);
+    if (merged.length === (person.aliases ?? []).length) continue;
+    const { error: updateError } = await client.from(PERSONS_TABLE).update({ aliases: merged }).eq('id', person.id);
+    if (updateError) throw updateError;
+  }
+};
+
+export const createSupabaseRepository = (client: SupabaseClient): BlotterRepository => ({
+  remote: true,
+
+  async listEntries({ search, filters, sort, page, pageSize }: EntryListQuery) {
+    const parsed = parseSearchQuery(search ?? '');
+    const searching = !isEmptyQuery(parsed);
+
+    // Ranked search goes through the search_blotter_entries function, which
+    // orders by ts_rank; plain listing stays on the table. PostgREST applies
+    // filters and an explicit sort to either.
+    let query = applyFilters(
+      searching
+        ? (client
+            .rpc('search_blotter_entries', { search: toTsQuery(parsed) }, { count: 'exact' })
+            .select(ENTRY_SELECT) as unknown as EntriesQuery)
+        : client.from(ENTRIES_TABLE).select(ENTRY_SELECT, { count: 'exact' }),
+      filters
+    ).is('deleted_at', null);
+
+    const effectiveSort: EntryListQuery['sort'] = sort ?? (searching ? undefined : { field: 'date', direction: 'desc' });
+    if (effectiveSort) {
+      const ascending = effectiveSort.direction === 'asc';
+      const columns = effectiveSort.field === 'name' ? ['last_name', 'first_name'] : [effectiveSort.field];
+      columns.forEach((column) => {
+        query = query.order(column, { ascending });
+      });
+      query = query.order('id', { ascending });
+    }
+
+    const { count, data, error } = await query.range((page - 1) * pageSize, page * pageSize - 1);
+    if (error) throw error;
+    return { data: ((data as BlotterEntry[]) || []).map(withPersonIds), count: count || 0 };
+  },
+
+  async listCaseTypes() {
+    const { data, error } = await client.from(CASE_TYPES_VIEW).select('case_type').order('case_type');
+    if (error) throw error;
+    return (data as { case_type: string }[]).map((row) => row.case_type);
+  },
+
+  async getEntry(id) {
+    const { data, error } = await client.from(ENTRIES_TABLE).select(ENTRY_SELECT).eq('id', id).single();
+    if (error) throw error;
+    return withPersonIds(data as BlotterEntry);
+  },
+
+  async createEntries(entries) {
+    // One call saves the entries, the persons made for them and the links
+    // together (see the create_entries migration), so a failed request leaves
+    // nothing half-saved. Entries already saved under their local_id come
+    // back as they are.
+    const { data, error } = await client.rpc('create_entries', { entries }).select(ENTRY_SELECT);
+    if (error) throw error;
+    return (data as BlotterEntry[]).map(withPersonIds);
+  },
+
+  async updateEntry(id, changes) {
+    const { error } = await client.from(ENTRIES_TABLE).update(toRow(changes)).eq('id', id);
+    if (error) throw error;
+
+    if (changes.person_ids) {
+      // Only links that changed are touched, all in one transaction.
+      const { error: linkError } = await client.rpc('set_entry_persons', {
+        entry_id: id,
+        person_ids: changes.person_ids,
+      });
+      if (linkError) throw linkError;
+    }
+
+    if (changes.aliases?.length) {
+      let personIds = changes.person_ids;
+      if (!personIds) {
+        const { data, error: linkError } = await client.from(ENTRY_PERSONS_TABLE).select('person_id').eq('entry_id', id);
+        if (linkError) throw linkError;
+        personIds = (data as { person_id: number }[]).map((link) => link.person_id);
+      }
+      await addPersonAliases(client, personIds, changes.aliases);
+    }
+
+    return this.getEntry(id);
+  },
+
+  async deleteEntry(id, reason) {
+    // deleted_at and deleted_by are stamped by the database.
+    const { error } = await client
+      .from(ENTRIES_TABLE)
+      .update({ deleted_at: new Date().toISOString(), deletion_reason: reason })
+      .eq('id', id)
+      .is('deleted_at', null);
+    if (error) throw error;
+  },
+
+  async deleteAllEntries(reason) {
+    // A plain update may only trash one entry (see guard_bulk_trash); this
+    // function checks entries:delete_all first.
+    const { data, error } = await client.rpc('delete_all_entries', { reason });
+    if (error) throw error;
+    return data as number[];
+  },
+
+  async listDeletedEntries() {
+    const all: BlotterEntry[] = [];
+    for (let from = 0; ; from += MAX_ROWS) {
+      const { data, error } = await client
+        .from(ENTRIES_TABLE)
+        .select(ENTRY_SELECT)
+        .not('deleted_at', 'is', null)
+        .order('deleted_at', { ascending: false })
+        .order('id', { ascending: false })
+        .range(from, from + MAX_ROWS - 1);
+      if (error) throw error;
+      all.push(...(data as BlotterEntry[]).map(withPersonIds));
+      if (data.length < MAX_ROWS) break;
+    }
+    return all;
+  },
+
+  async restoreEntries(ids) {
+    for (let i = 0; i < ids.length; i += ID_BATCH) {
+      const { error } = await client
+        .from(ENTRIES_TABLE)
+        .update({ deleted_at: null, deleted_by: null, deletion_reason: null })
+        .in('id', ids.slice(i, i + ID_BATCH));
+      if (error) throw error;
+    }
+  },
+
+  async purgeEntries(ids) {
+    // The guard_entry_purge trigger rejects entries still inside the
+    // retention period, so a failed batch leaves its rows and photos alone.
+    for (let i = 0; i < ids.length; i += ID_BATCH) {
+      const batch = ids.slice(i, i + ID_BATCH);
+      const { data: photos, error: photoError } = await client
+        .from(PHOTOS_TABLE)
+        .select('path, thumbnail_path')
+        .in('entry_id', batch);
+      if (photoError) throw photoError;
+
+      const { error } = await client.from(ENTRIES_TABLE).delete().in('id', batch);
+      if (error) throw error;
+      await removePhotoFiles(client, photos as EntryPhoto[]);
+    }
+  },
+
+  async getTrashRetentionDays() {
+    const { data, error } = await client.rpc('trash_retention_days');
+    if (error) throw error;
+    return data as number;
+  },
+
+  async listRevisions(entryId) {
+    const { data, error } = await client
+      .from(REVISIONS_TABLE)
+      .select('*')
+      .eq('entry_id', entryId)
+      .order('revision', { ascending: false });
+    if (error) throw error;
+    return data as EntryRevision[];
+  },
+
+  async createImportBatch(batch) {
+    const { data, error } = await client.from(IMPORT_BATCHES_TABLE).insert(batch).select().single();
+    if (error) throw error;
+    return data as ImportBatch;
+  },
+
+  async listImportBatches() {
+    const { data, error } = await client
+      .from(IMPORT_BATCHES_TABLE)
+      .select('*, blotter_entries(count)')
+      .order('created_at', { ascending: false });
+    if (error) throw error;
+    return (data as (ImportBatch & { blotter_entries: { count: number }[] })[]).map(
+      ({ blotter_entries: entries, ...batch }) => ({ ...batch, entry_count: entries[0]?.count ?? 0 })
+    );
+  },
+
+  async countImportBatchEntries(batchId) {
+    const { count, error } = await client
+      .from(ENTRIES_TABLE)
+      .select('id', { count: 'exact', head: true })
+      .eq('import_batch_id', batchId);
+    if (error) throw error;
+    return count || 0;
+  },
+
+  async setImportBatchStatus(batchId, status) {
+    const { error } = await client.from(IMPORT_BATCHES_TABLE).update({ status }).eq('id', batchId);
+    if (error) throw error;
+  },
+
+  async rollbackImportBatch(batchId, reason) {
+    // One transaction, so a batch is never left half rolled back.
+    const { data, error } = await client.rpc('rollback_import_batch', { batch_id: batchId, reason });
+    if (error) throw error;
+    return data as number[];
+  },
+
+  async searchPersons(search, limit = 10) {
+    let query = client.from(PERSONS_TABLE).select('*');
+    // Every word has to appear in the first or last name or an alias.
+    for (const word of search.trim().split(/\s+/).filter(Boolean)) {
+      const pattern = quoteFilterValue(`%${escapeLike(word)}%`);
+      query = query.or(`first_name.ilike.${pattern},last_name.ilike.${pattern},alias_text.ilike.${pattern}`);
+    }
+    const { data, error } = await query.order('last_name').order('first_name').limit(limit);
+    if (error) throw error;
+    return data as Person[];
+  },
+
+  async listPersons() {
+    // Page through the registry.
+    const all: Person[] = [];
+    for (let from = 0; ; from += MAX_ROWS) {
+      const { data, error } = await client
+        .from(PERSONS_TABLE)
+        .select('id, first_name, last_name, aliases')
+        .order('id')
+        .range(from, from + MAX_ROWS - 1);
+      if (error) throw error;
+      all.push(...(data as Person[]));
+      if (data.length < MAX_ROWS) return all;
+    }
+  },
+
+  async getPerson(id) {
+    const { data, error } = await client.from(PERSONS_TABLE).select('*').eq('id', id).single();
+    if (error) throw error;
+    return data as Person;
+  },
+
+  async createPerson(person) {
+    const { data, error } = await client.from(PERSONS_TABLE).insert(person).select().single();
+    if (error) throw error;
+    return data as Person;
+  },
+
+  async listPersonEntries(personId) {
+    const { data: links, error: linkError } = await client
+      .from(ENTRY_PERSONS_TABLE)
+      .select('entry_id')
+      .eq('person_id', personId);
+    if (linkError) throw linkError;
+
+    const ids = (links as { entry_id: number }[]).map((link) => link.entry_id);
+    if (ids.length === 0) return [];
+
+    const { data, error } = await client
+      .from(ENTRIES_TABLE)
+      .select(ENTRY_SELECT)
+      .in('id', ids)
+      .is('deleted_at', null)
+      .order('date', { ascending: false });
+    if (error) throw error;
+    return (data as BlotterEntry[]).map(withPersonIds);
+  },
+
+  async countPersonEntries(personIds) {
+    const counts: Record<number, number> = Object.fromEntries(personIds.map((id) => [id, 0]));
+    if (personIds.length === 0) return counts;
+
+    // The inner join drops links to trashed entries.
+    const { data, error } = await client
+      .from(ENTRY_PERSONS_TABLE)
+      .select('person_id, blotter_entries!inner(id)')
+      .in('person_id', personIds)
+      .is('blotter_entries.deleted_at', null);
+    if (error) throw error;
+    (data as { person_id: number }[]).forEach(({ person_id }) => counts[person_id]++);
+    return counts;
+  },
+
+  async listPhotos(entryId) {
+    const { data, error } = await client.from(PHOTOS_TABLE).select('*').eq('entry_id', entryId).order('id');
+    if (error) throw error;
+    return withPhotoUrls(client, data as EntryPhoto[]);
+  },
+
+  async addPhoto(entryId, { image, thumbnail, width, height }) {
+    const name = `${entryId}/${crypto.randomUUID()}`;
+    const path = `${name}.jpg`;
+    const thumbnailPath = `${name}_thumb.jpg`;
+    const bucket = client.storage.from(PHOTOS_BUCKET);
+
+    const { error: imageError } = await bucket.upload(path, image, { contentType: 'image/jpeg' });
+    if (imageError) throw imageError;
+    const { error: thumbnailError } = await bucket.upload(thumbnailPath, thumbnail, { contentType: 'image/jpeg' });
+    if (thumbnailError) throw thumbnailError;
+
+    const { data, error } = await client
+      .from(PHOTOS_TABLE)
+      .insert({ entry_id: entryId, path, thumbnail_path: thumbnailPath, width, height })
+      .select()
+      .single();
+    if (error) throw error;
+    return (await withPhotoUrls(client, [data as EntryPhoto]))[0];
+  },
+
+  async deletePhoto(photo) {
+    await removePhotoFiles(client, [photo]);
+    const { error } = await client.from(PHOTOS_TABLE).delete().eq('id', photo.id);
+    if (error) throw error;
+  },
+
+  async getThumbnails(entryIds) {
+    if (entryIds.length === 0) return {};
+    const { data, error } = await client
+      .from(PHOTOS_TABLE)
+      .select('entry_id, thumbnail_path')
+      .in('entry_id', entryIds)
+      .order('id');
+    if (error) throw error;
+
+    // Rows are oldest first, so the first one seen per entry wins.
+    const firstPaths = new Map<number, string>();
+    for (const photo of data as EntryPhoto[]) {
+      if (!firstPaths.has(photo.entry_id)) firstPaths.set(photo.entry_id, photo.thumbnail_path);
+    }
+    const urls = await signUrls(client, Array.from(firstPaths.values()));
+    const thumbnails: Record<number, string> = {};
+    firstPaths.forEach((path, entryId) => {
+      const url = urls.get(path);
+      if (url) thumbnails[entryId] = url;
+    });
+    return thumbnails;
+  },
+
+  async listAuditEvents({ actorEmail, entryId, from, to, page, pageSize }) {
+    const { start, end } = dayBounds(from, to);
+    let query = client.from(AUDIT_TABLE).select('*', { count: 'exact' });
+    if (actorEmail) query = query.eq('actor_email', actorEmail);
+    if (entryId !== undefined) query = query.eq('entry_id', entryId);
+    if (start) query = query.gte('occurred_at', start);
+    if (end) query = query.lt('occurred_at', end);
+    const { count, data, error } = await query
+      .order('occurred_at', { ascending: false })
+      .order('id', { ascending: false })
+      .range((page - 1) * pageSize, page * pageSize - 1);
+    if (error) throw error;
+    return { data: (data ?? []) as AuditEvent[], count: count ?? 0 };
+  },
+
+  async listAuditActors() {
+    const { data, error } = await client.from(AUDIT_ACTORS_VIEW).select('actor_email').order('actor_email');
+    if (error) throw error;
+    return (data as { actor_email: string }[]).map((row) => row.actor_email);
+  },
+});
+
+
+// Where emailed sign-in and reset links send the user back to.
+const authRedirectUrl = () => `${window.location.origin}${window.location.pathname}`;
+
+export const createSupabaseAuth = (client: SupabaseClient): AuthService => ({
+  async getSession() {
+    const { data: { session } } = await client.auth.getSession();
+    return session;
+  },
+
+  onAuthStateChange(callback) {
+    const { data: { subscription } } = client.auth.onAuthStateChange((_event, session) => callback(session));
+    return () => subscription.unsubscribe();
+  },
+
+  async signInWithPassword(email, password) {
+    const { error } = await client.auth.signInWithPassword({ email, password });
+    return { error };
+  },
+
+  async signOut() {
+    // Try global sign-out first (server).
+    const { error } = await client.auth.signOut();
+    // Always clear local persisted session to be safe.
+    await client.auth.signOut({ scope: 'local' });
+    // A missing server session still means we're signed out.
+    const msg = String(error?.message || '').toLowerCase();
+    if (error && !(msg.includes('session') && msg.includes('missing'))) {
+      return { error };
+    }
+    return { error: null };
+  },
+
+  async verifyPassword(password) {
+    const { data: { session } } = await client.auth.getSession();
+    const email = session?.user.email;
+    if (!email) return false;
+    const detached = createDetachedSupabase();
+    const { error } = await detached.auth.signInWithPassword({ email, password });
+    if (error) return false;
+    // Revoke the extra session straight away.
+    await detached.auth.signOut({ scope: 'local' });
+    return true;
+  },
+
+  async getProfile() {
+    const { data: { user } } = await client.auth.getUser();
+    if (!user) return null;
+    const { data, error } = await client.from(PROFILES_TABLE).select('*').eq('id', user.id).maybeSingle();
+    if (error) throw error;
+    return data as UserProfile | null;
+  },
+
+  async requestPasswordReset(email) {
+    const { error } = await client.auth.resetPasswordForEmail(email.trim().toLowerCase(), {
+      redirectTo: authRedirectUrl(),
+    });
+    return { error };
+  },
+
+  async completeAuthRedirect({ accessToken, refreshToken }) {
+    const { error } = await client.auth.setSession({ access_token: accessToken, refresh_token: refreshToken });
+    return { error };
+  },
+
+  async updatePassword(password) {
+    // The password_changed trigger clears must_change_password.
+    const { error } = await client.auth.updateUser({ password });
+    return { error };
+  },
+
+  async getMfaStatus() {
+    const [{ data: factors, error }, { data: level, error: levelError }] = await Promise.all([
+      client.auth.mfa.listFactors(),
+      client.auth.mfa.getAuthenticatorAssuranceLevel(),
+    ]);
+    if (error) throw error;
+    if (levelError) throw levelError;
+    return { available: true, enrolled: factors.totp.length > 0, verified: level.currentLevel === 'aal2' };
+  },
+
+  async enrollMfa() {
+    // Abandoned set-ups leave unverified factors behind, and their names
+    // would clash with the new one.
+    const { data: factors, error: listError } = await client.auth.mfa.listFactors();
+    if (listError) throw listError;
+    for (const factor of factors.all.filter((f) => f.factor_type === 'totp' && f.status === 'unverified')) {
+      const { error } = await client.auth.mfa.unenroll({ factorId: factor.id });
+      if (error) throw error;
+    }
+
+    const { data, error } = await client.auth.mfa.enroll({ factorType: 'totp', friendlyName: MFA_FACTOR_NAME });
+    if (error) throw error;
+    return { factorId: data.id, qrCode: data.totp.qr_code, secret: data.totp.secret };
+  },
+
+  async verifyMfa(code, factorId) {
+    let id = factorId;
+    if (!id) {
+      const { data: factors, error } = await client.auth.mfa.listFactors();
+      if (error) throw error;
+      id = factors.totp[0]?.id;
+      if (!id) throw new Error('No authenticator app is set up for this account');
+    }
+    const { error } = await client.auth.mfa.challengeAndVerify({ factorId: id, code });
+    if (error) throw error;
+  },
+
+  async unenrollMfa() {
+    const { data: factors, error: listError } = await client.auth.mfa.listFactors();
+    if (listError) throw listError;
+    for (const factor of factors.totp) {
+      const { error } = await client.auth.mfa.unenroll({ factorId: factor.id });
+      if (error) throw error;
+    }
+  },
+
+  async listUsers() {
+    const { data, error } = await client.rpc('admin_list_users');
+    if (error) throw error;
+    return data as ManagedUser[];
+  },
+
+  async inviteUser({ email, role, station }) {
+    const normalized = email.trim().toLowerCase();
+    const { data: existing, error: lookupError } = await client
+      .from(PROFILES_TABLE)
+      .select('id')
+      .eq('email', normalized)
+      .maybeSingle();
+    if (lookupError) throw lookupError;
+    if (existing) throw new Error(`${normalized} already has an account`);
+
+    // The invitation is what activates the account: the accept_invitation
+    // trigger gives it the role once the emailed link confirms the address.
+    // Anyone else who signs up gets an inactive profile and no access.
+    const { error: inviteError } = await client
+      .from(INVITATIONS_TABLE)
+      .upsert({ email: normalized, role, station: station || null });
+    if (inviteError) throw inviteError;
+
+    const { error } = await client.auth.signInWithOtp({
+      email: normalized,
+      options: { shouldCreateUser: true, emailRedirectTo: authRedirectUrl() },
+    });
+    if (error) throw error;
+    return {};
+  },
+
+  async updateUser(id, changes) {
+    const { error } = await client.from(PROFILES_TABLE).update(changes).eq('id', id);
+    if (error) throw error;
+  },
+
+  async forcePasswordReset(id) {
+    const { data, error } = await client
+      .from(PROFILES_TABLE)
+      .update({ must_change_password: true })
+      .eq('id', id)
+      .select('email')
+      .single();
+    if (error) throw error;
+    const { error: resetError } = await client.auth.resetPasswordForEmail((data as { email: string }).email, {
+      redirectTo: authRedirectUrl(),
+    });
+    if (resetError) throw resetError;
+    return {};
+  },
+});
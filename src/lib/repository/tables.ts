@@ -0,0 +1,72 @@
+import { add, clear, get, getAll, getAllFromIndex, put, remove } from '@/lib/idb';
+
+/**
+ * A keyed collection of rows for the on-device backends. The IndexedDB and
+ * in-memory variants behave the same, so the local repository is written once.
+ */
+export interface Table<T extends { id?: K }, K extends IDBValidKey = number> {
+  all(): Promise<T[]>;
+  get(id: K): Promise<T | undefined>;
+  // Rows whose `field` equals `value`. IndexedDB tables need an index named
+  // after the field.
+  where(field: keyof T & string, value: IDBValidKey): Promise<T[]>;
+  // Assigns a numeric id when the row has none.
+  insert(row: T): Promise<T>;
+  put(row: T): Promise<T>;
+  remove(id: K): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export const createIdbTable = <T extends { id?: K }, K extends IDBValidKey = number>(
+  storeName: string
+): Table<T, K> => ({
+  all: () => getAll<T>(storeName),
+  get: (id) => get<T>(storeName, id),
+  where: (field, value) => getAllFromIndex<T>(storeName, field, value),
+  async insert(row) {
+    const { id, ...rest } = row;
+    // Let the object store's key generator pick the id.
+    const key = await add(storeName, id === undefined ? rest : row);
+    return { ...row, id: key as K };
+  },
+  async put(row) {
+    await put(storeName, row);
+    return row;
+  },
+  remove: (id) => remove(storeName, id),
+  clear: () => clear(storeName),
+});
+
+export const createMemoryTable = <T extends { id?: K }, K extends IDBValidKey = number>(
+  seed: T[] = []
+): Table<T, K> => {
+  const rows = new Map<K, T>();
+  let nextId = 1;
+
+  const store = (row: T) => {
+    rows.set(row.id as K, structuredClone(row));
+    if (typeof row.id === 'number') nextId = Math.max(nextId, row.id + 1);
+    return row;
+  };
+  seed.forEach(store);
+
+  return {
+    all: async () => Array.from(rows.values(), (row) => structuredClone(row)),
+    get: async (id) => {
+      const row = rows.get(id);
+      return row && structuredClone(row);
+    },
+    where: async (field, value) =>
+      Array.from(rows.values())
+        .filter((row) => row[field] === value)
+        .map((row) => structuredClone(row)),
+    insert: async (row) => store(row.id === undefined ? { ...row, id: nextId as K } : row),
+    put: async (row) => store(row),
+    remove: async (id) => {
+      rows.delete(id);
+    },
+    clear: async () => {
+      rows.clear();
+    },
+  };
+};
@@ -0,0 +1,183 @@
+import { Session } from '@supabase/supabase-js';
+import {
+  AuditEvent,
+  BlotterEntry,
+  EntryPhoto,
+  EntryRevision,
+  ImportBatch,
+  ImportBatchStatus,
+  ManagedUser,
+  MfaStatus,
+  Person,
+  UserProfile,
+} from '@/lib/types';
+import { EntryFilters } from '@/lib/qualifiers';
+
+export type SortField = 'date' | 'name' | 'created_at';
+export type SortDirection = 'asc' | 'desc';
+
+export type EntryListQuery = {
+  // Full-text search box input; see parseSearchQuery for the syntax.
+  search?: string;
+  filters?: EntryFilters;
+  // Defaults to relevance when searching, otherwise newest first.
+  sort?: { field: SortField; direction: SortDirection };
+  page: number;
+  pageSize: number;
+};
+
+export type EntryListResult = {
+  data: BlotterEntry[];
+  count: number;
+};
+
+export type NewBlotterEntry = Omit<BlotterEntry, 'id' | 'created_at' | 'persons'>;
+
+export type NewPerson = Omit<Person, 'id' | 'created_at'>;
+
+export type NewImportBatch = Pick<ImportBatch, 'file_name' | 'total_rows'>;
+
+export type AuditQuery = {
+  actorEmail?: string;
+  entryId?: number;
+  // Inclusive YYYY-MM-DD bounds on occurred_at, in local time.
+  from?: string;
+  to?: string;
+  page: number;
+  pageSize: number;
+};
+
+export type AuditListResult = {
+  data: AuditEvent[];
+  count: number;
+};
+
+export type NewUser = Pick<UserProfile, 'email' | 'role' | 'station'>;
+
+export type UserChanges = Partial<Pick<UserProfile, 'role' | 'station' | 'active'>>;
+
+// An authenticator app being set up; verifyMfa with its factorId confirms it.
+export type MfaEnrollment = {
+  factorId: string;
+  // Data URL of a QR code encoding the secret.
+  qrCode: string;
+  // For typing into the app when the QR code can't be scanned.
+  secret: string;
+};
+
+// A photo ready to upload, already resized on the device (see lib/images).
+export type NewPhoto = {
+  image: Blob;
+  thumbnail: Blob;
+  width: number;
+  height: number;
+};
+
+/**
+ * Storage for blotter entries. Pages talk to this instead of a concrete
+ * backend so the app can run against Supabase or entirely on-device.
+ */
+export interface BlotterRepository {
+  // False for on-device backends, which keep working with no connection.
+  readonly remote: boolean;
+  listEntries(query: EntryListQuery): Promise<EntryListResult>;
+  // Distinct case types in use, for filter pickers and autocomplete.
+  listCaseTypes(): Promise<string[]>;
+  getEntry(id: number): Promise<BlotterEntry>;
+  // Entries whose local_id is already saved come back as they are rather
+  // than being added again.
+  createEntries(entries: NewBlotterEntry[]): Promise<BlotterEntry[]>;
+  updateEntry(id: number, changes: Partial<NewBlotterEntry>): Promise<BlotterEntry>;
+  // Deleting moves entries to the trash, recording who and why. Listings
+  // and counts leave trashed entries out; getEntry still returns them.
+  deleteEntry(id: number, reason: string): Promise<void>;
+  // Returns the ids trashed, so the caller can offer an undo.
+  deleteAllEntries(reason: string): Promise<number[]>;
+  // The trash, most recently deleted first.
+  listDeletedEntries(): Promise<BlotterEntry[]>;
+  restoreEntries(ids: number[]): Promise<void>;
+  // Permanently removes trashed entries and their photos. Fails for any
+  // still inside the retention period (see lib/trash).
+  purgeEntries(ids: number[]): Promise<void>;
+  // Days a trashed entry must wait before it can be purged.
+  getTrashRetentionDays(): Promise<number>;
+  // Saved versions of an entry, newest first. Restoring one is an
+  // updateEntry with its snapshot, which adds a revision of its own.
+  listRevisions(entryId: number): Promise<EntryRevision[]>;
+
+  // Import batches. Imported entries are saved with createEntries, each
+  // carrying the batch's import_batch_id.
+  createImportBatch(batch: NewImportBatch): Promise<ImportBatch>;
+  // Newest first, with entry counts.
+  listImportBatches(): Promise<ImportBatch[]>;
+  // Entries saved under the batch so far, trashed ones included, for
+  // resuming an interrupted import.
+  countImportBatchEntries(batchId: string): Promise<number>;
+  setImportBatchStatus(batchId: string, status: Exclude<ImportBatchStatus, 'rolled_back'>): Promise<void>;
+  // Moves the batch's entries to the trash and marks it rolled back.
+  // Returns the ids trashed.
+  rollbackImportBatch(batchId: string, reason: string): Promise<number[]>;
+
+  // Person registry
+  searchPersons(search: string, limit?: number): Promise<Person[]>;
+  // The whole registry, for client-side fuzzy name matching.
+  listPersons(): Promise<Person[]>;
+  getPerson(id: number): Promise<Person>;
+  createPerson(person: NewPerson): Promise<Person>;
+  // Every entry involving the person, newest first.
+  listPersonEntries(personId: number): Promise<BlotterEntry[]>;
+  // Number of linked entries per person, for repeat-subject badges.
+  countPersonEntries(personIds: number[]): Promise<Record<number, number>>;
+
+  // Photos, oldest first, with viewable URLs.
+  listPhotos(entryId: number): Promise<EntryPhoto[]>;
+  addPhoto(entryId: number, photo: NewPhoto): Promise<EntryPhoto>;
+  deletePhoto(photo: EntryPhoto): Promise<void>;
+  // Thumbnail URL of each entry's first photo, for list avatars.
+  getThumbnails(entryIds: number[]): Promise<Record<number, string>>;
+
+  // Audit trail, newest first. Written as a side effect of the methods above.
+  listAuditEvents(query: AuditQuery): Promise<AuditListResult>;
+  // Everyone who appears in the audit trail, for filtering.
+  listAuditActors(): Promise<string[]>;
+}
+
+export interface AuthService {
+  getSession(): Promise<Session | null>;
+  // Returns an unsubscribe function.
+  onAuthStateChange(callback: (session: Session | null) => void): () => void;
+  signInWithPassword(email: string, password: string): Promise<{ error: Error | null }>;
+  signOut(): Promise<{ error: Error | null }>;
+  // Checks the signed-in user's password without changing the session, to
+  // unlock the idle lock screen.
+  verifyPassword(password: string): Promise<boolean>;
+  // The signed-in user's role and status; null when signed out or when the
+  // account has no profile yet.
+  getProfile(): Promise<UserProfile | null>;
+
+  // Emails a link back to the app for choosing a new password.
+  requestPasswordReset(email: string): Promise<{ error: Error | null }>;
+  // Signs in with the tokens an emailed link returned with (see authRedirect.ts).
+  completeAuthRedirect(tokens: { accessToken: string; refreshToken: string }): Promise<{ error: Error | null }>;
+  // Sets the signed-in user's password and clears must_change_password.
+  updatePassword(password: string): Promise<{ error: Error | null }>;
+
+  // Two-factor authentication with an authenticator app (TOTP).
+  getMfaStatus(): Promise<MfaStatus>;
+  enrollMfa(): Promise<MfaEnrollment>;
+  // Checks a code from the app: against the pending enrollment when factorId
+  // is given, otherwise against the enrolled app. Either way the session
+  // counts as verified afterwards.
+  verifyMfa(code: string, factorId?: string): Promise<void>;
+  unenrollMfa(): Promise<void>;
+
+  // User administration; requires the users:manage permission.
+  listUsers(): Promise<ManagedUser[]>;
+  // Supabase emails the invitee a sign-in link. On-device backends have no
+  // email, so they return a temporary password for the admin to hand over.
+  inviteUser(user: NewUser): Promise<{ temporaryPassword?: string }>;
+  updateUser(id: string, changes: UserChanges): Promise<void>;
+  // Makes the user choose a new password, via an emailed reset link or a
+  // temporary password as for inviteUser.
+  forcePasswordReset(id: string): Promise<{ temporaryPassword?: string }>;
+}
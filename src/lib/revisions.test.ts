@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import {
+  changedFields,
+  diffWords,
+  formatRevisionValue,
+  restoreChanges,
+  REVISION_FIELDS,
+  revisionSnapshot,
+} from '@/lib/revisions';
+import { BlotterEntry } from '@/lib/types';
+
+const fields = (previous: Partial<BlotterEntry> | undefined, current: Partial<BlotterEntry>) =>
+  changedFields(previous, current).map(({ field }) => field);
+
+describe('revisionSnapshot', () => {
+  it('keeps every versioned field, unset ones as null, and nothing else', () => {
+    const snapshot = revisionSnapshot({ id: 5, first_name: 'Juan', aliases: ['Totoy'], created_at: '2025-03-14' });
+    expect(Object.keys(snapshot)).toEqual(REVISION_FIELDS.map(({ field }) => field));
+    expect(snapshot).toMatchObject({ first_name: 'Juan', aliases: ['Totoy'], province: null });
+  });
+});
+
+describe('changedFields', () => {
+  it.each([
+    [{ first_name: 'Juan' }, { first_name: 'Juan' }, []],
+    [{ middle_name: '' }, { middle_name: null }, []],
+    [{ aliases: [] }, {}, []],
+    [{ id: 1 }, { id: 2 }, []],
+    [{ aliases: ['Totoy'] }, { aliases: ['Totoy', 'Boy'] }, ['aliases']],
+    [{ status: 'open' as const }, { status: 'settled' as const }, ['status']],
+    [
+      { last_name: 'Cruz', blotter_entry: 'a' },
+      { last_name: 'Santos', blotter_entry: 'b' },
+      ['blotter_entry', 'last_name'],
+    ],
+  ])('%j to %j changes %j', (previous, current, changed) => {
+    expect(fields(previous, current)).toEqual(changed);
+  });
+
+  it('counts every set field of a first revision', () => {
+    expect(fields(undefined, { first_name: 'Juan', middle_name: '', aliases: [], date: '2025-03-14' })).toEqual([
+      'first_name',
+      'date',
+    ]);
+  });
+});
+
+describe('diffWords', () => {
+  it.each([
+    ['', '', []],
+    ['Stolen car', 'Stolen car', [{ type: 'same', text: 'Stolen car' }]],
+    ['Stolen  car', 'Stolen car', [{ type: 'same', text: 'Stolen car' }]],
+    ['', 'Stolen car', [{ type: 'added', text: 'Stolen car' }]],
+    ['Stolen car', '', [{ type: 'removed', text: 'Stolen car' }]],
+    [
+      'Stolen red car',
+      'Stolen blue car',
+      [
+        { type: 'same', text: 'Stolen ' },
+        { type: 'removed', text: 'red ' },
+        { type: 'added', text: 'blue ' },
+        { type: 'same', text: 'car' },
+      ],
+    ],
+    [
+      'Stolen car',
+      'Stolen car and phone',
+      [
+        { type: 'same', text: 'Stolen car ' },
+        { type: 'added', text: 'and phone' },
+      ],
+    ],
+  ])('%j to %j is %j', (before, after, parts) => {
+    expect(diffWords(before, after)).toEqual(parts);
+  });
+
+  it('rebuilds the new text from its kept and added parts', () => {
+    const after = 'The red motorcycle was found near the town plaza.';
+    const parts = diffWords('A motorcycle was stolen near the public market.', after);
+    expect(parts.filter(({ type }) => type !== 'removed').map(({ text }) => text).join('')).toBe(after);
+  });
+});
+
+describe('restoreChanges', () => {
+  it.each([
+    [{ first_name: 'Juan' }, { first_name: 'Juan', middle_name: null, aliases: [] }],
+    [{ aliases: ['Totoy'] }, { aliases: ['Totoy'] }],
+  ])('restores %j as %j', (snapshot, changes) => {
+    expect(restoreChanges(snapshot)).toMatchObject(changes);
+  });
+});
+
+describe('formatRevisionValue', () => {
+  it.each([
+    ['status', 'investigating', 'Under Investigation'],
+    ['status', 'pending', 'pending'],
+    ['sex', 'female', 'Female'],
+    ['civil_status', 'separated', 'Legally Separated'],
+    ['aliases', ['Totoy', 'Boy'], 'Totoy, Boy'],
+    ['aliases', [], '—'],
+    ['middle_name', null, '—'],
+  ] as [keyof BlotterEntry, unknown, string][])('%s %j shows as %j', (field, value, shown) => {
+    expect(formatRevisionValue(field, value)).toBe(shown);
+  });
+});
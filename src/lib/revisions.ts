@@ -0,0 +1,107 @@
+import { BlotterEntry, CIVIL_STATUSES, ENTRY_STATUSES, SEXES } from '@/lib/types';
+import { formatAuditValue } from '@/lib/audit';
+
+/**
+ * Entry revisions: which fields are versioned, what changed between two
+ * revisions, and a word-level diff of the narrative.
+ */
+
+export const REVISION_FIELDS: { field: keyof BlotterEntry; label: string }[] = [
+  { field: 'blotter_entry', label: 'Blotter Entry' },
+  { field: 'first_name', label: 'First Name' },
+  { field: 'middle_name', label: 'Middle Name' },
+  { field: 'last_name', label: 'Last Name' },
+  { field: 'suffix', label: 'Suffix' },
+  { field: 'aliases', label: 'Aliases' },
+  { field: 'case_type', label: 'Case Type' },
+  { field: 'status', label: 'Status' },
+  { field: 'date', label: 'Date' },
+  { field: 'date_of_birth', label: 'Date of Birth' },
+  { field: 'sex', label: 'Sex' },
+  { field: 'civil_status', label: 'Civil Status' },
+  { field: 'barangay', label: 'Barangay' },
+  { field: 'municipality', label: 'Municipality' },
+  { field: 'province', label: 'Province' },
+  { field: 'contact_number', label: 'Contact Number' },
+  { field: 'id_type', label: 'ID Type' },
+  { field: 'id_number', label: 'ID Number' },
+];
+
+// Blank strings and empty lists count as unset, as normalizeSubject saves them.
+const normalize = (value: unknown) => (value === '' || (Array.isArray(value) && value.length === 0) ? null : value);
+
+const sameValue = (a: unknown, b: unknown) =>
+  JSON.stringify(normalize(a) ?? null) === JSON.stringify(normalize(b) ?? null);
+
+/** The versioned fields of an entry, i.e. what a revision stores. */
+export const revisionSnapshot = (entry: Partial<BlotterEntry>): Partial<BlotterEntry> =>
+  Object.fromEntries(REVISION_FIELDS.map(({ field }) => [field, entry[field] ?? null]));
+
+/** Versioned fields that differ; everything when there's no previous revision. */
+export const changedFields = (previous: Partial<BlotterEntry> | undefined, current: Partial<BlotterEntry>) =>
+  REVISION_FIELDS.filter(({ field }) => (previous ? !sameValue(previous[field], current[field]) : normalize(current[field])));
+
+export type DiffPart = { type: 'same' | 'added' | 'removed'; text: string };
+
+// Words keep their trailing whitespace so joining the parts restores the text.
+const tokenize = (text: string) => text.match(/\S+\s*|\s+/g) ?? [];
+
+/**
+ * Word-level diff from `before` to `after` using a longest common
+ * subsequence, with adjacent parts of the same type merged.
+ */
+export const diffWords = (before: string, after: string): DiffPart[] => {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const word = (token: string) => token.trim();
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..], flattened.
+  const width = b.length + 1;
+  const lengths = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] =
+        word(a[i]) === word(b[j])
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (type: DiffPart['type'], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.type === type) last.text += text;
+    else parts.push({ type, text });
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (word(a[i]) === word(b[j])) {
+      push('same', b[j]);
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+  return parts;
+};
+
+/** The update that puts an entry back the way a revision had it. */
+export const restoreChanges = (snapshot: Partial<BlotterEntry>): Partial<BlotterEntry> => {
+  const changes = revisionSnapshot(snapshot);
+  return { ...changes, aliases: changes.aliases ?? [] };
+};
+
+const VALUE_LABELS: Partial<Record<keyof BlotterEntry, { value: string; label: string }[]>> = {
+  status: ENTRY_STATUSES,
+  sex: SEXES,
+  civil_status: CIVIL_STATUSES,
+};
+
+export const formatRevisionValue = (field: keyof BlotterEntry, value: unknown) =>
+  VALUE_LABELS[field]?.find((option) => option.value === value)?.label ?? formatAuditValue(value);
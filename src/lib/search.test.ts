@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import {
+  highlightSegments,
+  isEmptyQuery,
+  matchExcerpt,
+  parseSearchQuery,
+  scoreEntry,
+  tokenize,
+  toTsQuery,
+} from '@/lib/search';
+import { BlotterEntry } from '@/lib/types';
+
+const entry = (changes: Partial<BlotterEntry> = {}): BlotterEntry => ({
+  blotter_entry: 'Complainant reported a stolen motorcycle near the public market.',
+  first_name: 'Juan',
+  last_name: 'Dela Cruz',
+  case_type: 'Theft',
+  date: '2025-03-14',
+  aliases: ['Totoy'],
+  ...changes,
+});
+
+describe('tokenize', () => {
+  it.each([
+    ['Dela Cruz', ['dela', 'cruz']],
+    ['Peña, María', ['pena', 'maria']],
+    ['plate ABC-1234', ['plate', 'abc', '1234']],
+    ['  ', []],
+  ])('%j becomes %j', (text, words) => {
+    expect(tokenize(text)).toEqual(words);
+  });
+});
+
+describe('parseSearchQuery', () => {
+  it.each([
+    ['theft juan', { terms: ['theft', 'juan'], phrases: [], excludedTerms: [], excludedPhrases: [] }],
+    ['"dela cruz"', { terms: [], phrases: [['dela', 'cruz']], excludedTerms: [], excludedPhrases: [] }],
+    ['"cruz"', { terms: ['cruz'], phrases: [], excludedTerms: [], excludedPhrases: [] }],
+    ['theft -settled', { terms: ['theft'], phrases: [], excludedTerms: ['settled'], excludedPhrases: [] }],
+    ['-"public market"', { terms: [], phrases: [], excludedTerms: [], excludedPhrases: [['public', 'market']] }],
+    ['2025-03-14', { terms: ['2025', '03', '14'], phrases: [], excludedTerms: [], excludedPhrases: [] }],
+    ['-abc-1234', { terms: [], phrases: [], excludedTerms: [], excludedPhrases: [['abc', '1234']] }],
+    ['"dela cruz', { terms: [], phrases: [['dela', 'cruz']], excludedTerms: [], excludedPhrases: [] }],
+    ['"" -', { terms: [], phrases: [], excludedTerms: [], excludedPhrases: [] }],
+  ])('%j parses as %j', (input, query) => {
+    expect(parseSearchQuery(input)).toEqual(query);
+  });
+});
+
+describe('isEmptyQuery', () => {
+  it.each([
+    ['', true],
+    ['  "" ', true],
+    ['juan', false],
+    ['-juan', false],
+  ])('%j is empty: %s', (input, empty) => {
+    expect(isEmptyQuery(parseSearchQuery(input))).toBe(empty);
+  });
+});
+
+describe('toTsQuery', () => {
+  it.each([
+    ['theft juan', 'theft:* & juan:*'],
+    ['"dela cruz"', '(dela <-> cruz)'],
+    ['theft -settled', 'theft:* & !settled:*'],
+    ['-"public market"', '!(public <-> market)'],
+    ["juan & !cruz' | (x)", 'juan:* & cruz:* & x:*'],
+  ])('%j becomes %j', (input, tsQuery) => {
+    expect(toTsQuery(parseSearchQuery(input))).toBe(tsQuery);
+  });
+});
+
+describe('scoreEntry', () => {
+  it.each([
+    ['juan', true],
+    ['moto', true],
+    ['"public market"', true],
+    ['totoy', true],
+    ['march', true],
+    ['2025-03-14', true],
+    ['juan robbery', false],
+    ['"market public"', false],
+    ['theft -motorcycle', false],
+    ['-"public market"', false],
+    ['-robbery', true],
+  ])('%j matches: %s', (input, matches) => {
+    expect(scoreEntry(entry(), parseSearchQuery(input)) > 0).toBe(matches);
+  });
+
+  it('ranks a name match above a narrative match', () => {
+    const query = parseSearchQuery('cruz');
+    const byName = scoreEntry(entry(), query);
+    const byNarrative = scoreEntry(entry({ last_name: 'Santos', blotter_entry: 'Seen near Cruz street.' }), query);
+    expect(byName).toBeGreaterThan(byNarrative);
+  });
+});
+
+describe('highlightSegments', () => {
+  it.each([
+    ['moto juan', 'Stolen motorcycle, Juan', ['motorcycle', 'Juan']],
+    ['"public market"', 'Near the public  market.', ['public  market']],
+    ['"public market"', 'Public, then market.', []],
+    ['', 'No query.', []],
+  ])('%j marks %j in %j', (input, text, marked) => {
+    const segments = highlightSegments(text, parseSearchQuery(input));
+    expect(segments.map(({ text }) => text).join('')).toBe(text);
+    expect(segments.filter(({ match }) => match).map(({ text }) => text)).toEqual(marked);
+  });
+});
+
+describe('matchExcerpt', () => {
+  const long = `${'Lorem ipsum dolor sit amet. '.repeat(20)}The motorcycle was found.`;
+
+  it.each([
+    ['short text', 'A short narrative.', 'short'],
+    ['a match near the start', `Motorcycle found. ${long}`, 'motorcycle'],
+    ['no match', long, 'robbery'],
+  ])('keeps %s whole', (_, text, input) => {
+    expect(matchExcerpt(text, parseSearchQuery(input), 80)).toBe(text);
+  });
+
+  it('starts a long narrative shortly before its first match', () => {
+    const excerpt = matchExcerpt(long, parseSearchQuery('motorcycle'), 80);
+    expect(excerpt.startsWith('…')).toBe(true);
+    expect(excerpt.endsWith('The motorcycle was found.')).toBe(true);
+    expect(excerpt.length).toBeLessThan(60);
+  });
+});
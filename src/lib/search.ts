@@ -0,0 +1,197 @@
+import { BlotterEntry } from '@/lib/types';
+
+/**
+ * A parsed search box query. Bare words must all appear (prefix match),
+ * "quoted phrases" must appear as consecutive words, and -words or
+ * -"phrases" must not appear anywhere.
+ */
+export type SearchQuery = {
+  terms: string[];
+  phrases: string[][];
+  excludedTerms: string[];
+  excludedPhrases: string[][];
+};
+
+const TOKEN_PATTERN = /(-?)"([^"]*)"?|(-?)(\S+)/g;
+
+// Splits on anything that isn't a letter or digit, matching how Postgres'
+// `simple` text search configuration tokenizes the indexed columns.
+export const tokenize = (text: string): string[] =>
+  text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+
+export const parseSearchQuery = (input: string): SearchQuery => {
+  const query: SearchQuery = { terms: [], phrases: [], excludedTerms: [], excludedPhrases: [] };
+
+  for (const match of input.matchAll(TOKEN_PATTERN)) {
+    const [, phraseNegation, phrase, termNegation, term] = match;
+    if (phrase !== undefined) {
+      const words = tokenize(phrase);
+      if (words.length === 0) continue;
+      // A one-word phrase is just a term.
+      if (words.length === 1) {
+        (phraseNegation ? query.excludedTerms : query.terms).push(words[0]);
+      } else {
+        (phraseNegation ? query.excludedPhrases : query.phrases).push(words);
+      }
+    } else if (term !== undefined) {
+      // "plate-1234" or "2025-03-14" become several words that must all match.
+      const words = tokenize(term);
+      if (termNegation && words.length > 1) {
+        query.excludedPhrases.push(words);
+      } else {
+        (termNegation ? query.excludedTerms : query.terms).push(...words);
+      }
+    }
+  }
+  return query;
+};
+
+export const isEmptyQuery = (query: SearchQuery) =>
+  query.terms.length === 0 &&
+  query.phrases.length === 0 &&
+  query.excludedTerms.length === 0 &&
+  query.excludedPhrases.length === 0;
+
+/**
+ * Builds a Postgres `to_tsquery('simple', ...)` expression. Only letters and
+ * digits survive tokenizing, so the result never contains stray operators.
+ */
+export const toTsQuery = (query: SearchQuery): string => {
+  const phrase = (words: string[]) => `(${words.join(' <-> ')})`;
+  return [
+    ...query.terms.map((term) => `${term}:*`),
+    ...query.phrases.map(phrase),
+    ...query.excludedTerms.map((term) => `!${term}:*`),
+    ...query.excludedPhrases.map((words) => `!${phrase(words)}`),
+  ].join(' & ');
+};
+
+// Field weights mirror the setweight() calls in the search_vector trigger.
+const WEIGHTED_FIELDS: [keyof BlotterEntry, number][] = [
+  ['first_name', 1],
+  ['middle_name', 1],
+  ['last_name', 1],
+  ['aliases', 1],
+  ['case_type', 0.4],
+  ['blotter_entry', 0.2],
+  ['date', 0.1],
+];
+
+const containsPhrase = (words: string[], phrase: string[]) =>
+  words.some((_, i) => phrase.every((word, j) => words[i + j] === word));
+
+const dateWords = (date: string) => {
+  const parsed = new Date(date);
+  const month = Number.isNaN(parsed.getTime())
+    ? []
+    : tokenize(parsed.toLocaleString('en-US', { month: 'long', timeZone: 'UTC' }));
+  return [...tokenize(date), ...month];
+};
+
+/**
+ * Scores an entry against a query the way the server-side search does.
+ * Returns 0 when the entry doesn't match, otherwise a positive rank.
+ */
+export const scoreEntry = (entry: BlotterEntry, query: SearchQuery): number => {
+  const fields = WEIGHTED_FIELDS.map(([field, weight]) => {
+    const raw = entry[field] ?? '';
+    const value = Array.isArray(raw) ? raw.join(' ') : String(raw);
+    return { words: field === 'date' ? dateWords(value) : tokenize(value), weight };
+  });
+  const allWords = fields.flatMap((field) => field.words);
+
+  const hasTerm = (words: string[], term: string) => words.some((word) => word.startsWith(term));
+
+  if (query.excludedTerms.some((term) => hasTerm(allWords, term))) return 0;
+  if (query.excludedPhrases.some((phrase) => fields.some((f) => containsPhrase(f.words, phrase)))) return 0;
+
+  let score = 0;
+  for (const term of query.terms) {
+    const hits = fields.reduce(
+      (sum, field) => sum + field.words.filter((word) => word.startsWith(term)).length * field.weight,
+      0
+    );
+    if (hits === 0) return 0;
+    score += hits;
+  }
+  for (const phrase of query.phrases) {
+    const matched = fields.filter((field) => containsPhrase(field.words, phrase));
+    if (matched.length === 0) return 0;
+    score += matched.reduce((sum, field) => sum + field.weight * phrase.length, 0);
+  }
+  // An exclusion-only query matches everything that survived, unranked.
+  return Math.max(score, Number.EPSILON);
+};
+
+export type HighlightSegment = {
+  text: string;
+  match: boolean;
+};
+
+/**
+ * Splits text into plain and matched segments for rendering. Words that
+ * start with a search term are matched, as are whole phrase occurrences.
+ */
+export const highlightSegments = (text: string, query: SearchQuery): HighlightSegment[] => {
+  if (!text || (query.terms.length === 0 && query.phrases.length === 0)) {
+    return [{ text: text ?? '', match: false }];
+  }
+
+  // Locate each word with its position in the original string.
+  const words = Array.from(text.matchAll(/[\p{L}\p{N}\p{M}]+/gu), (m) => ({
+    start: m.index ?? 0,
+    end: (m.index ?? 0) + m[0].length,
+    token: tokenize(m[0])[0] ?? '',
+  }));
+
+  const matched = new Array(words.length).fill(false);
+  words.forEach((word, i) => {
+    if (query.terms.some((term) => word.token.startsWith(term))) matched[i] = true;
+    for (const phrase of query.phrases) {
+      if (phrase.every((p, j) => words[i + j]?.token === p)) {
+        phrase.forEach((_, j) => (matched[i + j] = true));
+      }
+    }
+  });
+
+  const segments: HighlightSegment[] = [];
+  let cursor = 0;
+  words.forEach((word, i) => {
+    if (!matched[i]) return;
+    // Join a phrase's words and the spaces between them into one mark.
+    const last = segments[segments.length - 1];
+    if (last?.match && matched[i - 1] && /^\s*$/.test(text.slice(cursor, word.start))) {
+      last.text += text.slice(cursor, word.end);
+    } else {
+      if (word.start > cursor) segments.push({ text: text.slice(cursor, word.start), match: false });
+      segments.push({ text: text.slice(word.start, word.end), match: true });
+    }
+    cursor = word.end;
+  });
+  if (cursor < text.length) segments.push({ text: text.slice(cursor), match: false });
+  return segments;
+};
+
+/**
+ * Trims long text to a window around the first match so highlighted terms
+ * deep in a narrative are still visible in a clamped card.
+ */
+export const matchExcerpt = (text: string, query: SearchQuery, maxLength = 200): string => {
+  if (!text || text.length <= maxLength) return text;
+
+  let offset = 0;
+  for (const segment of highlightSegments(text, query)) {
+    if (segment.match) break;
+    offset += segment.text.length;
+  }
+  if (offset >= text.length || offset < maxLength / 2) return text;
+
+  // Start at a word boundary a little before the match.
+  const start = text.lastIndexOf(' ', offset - maxLength / 4) + 1;
+  return `…${text.slice(start)}`;
+};
@@ -0,0 +1,112 @@
+import { differenceInYears, isValid, parseISO } from 'date-fns';
+import { BlotterEntry, CIVIL_STATUSES, NAME_SUFFIXES, SEXES } from '@/lib/types';
+
+/**
+ * Subject profile fields on a blotter entry beyond first and last name:
+ * validation, normalization before saving, and display helpers.
+ */
+
+export const SUBJECT_FIELDS = [
+  'middle_name',
+  'suffix',
+  'date_of_birth',
+  'sex',
+  'civil_status',
+  'barangay',
+  'municipality',
+  'province',
+  'contact_number',
+  'id_type',
+  'id_number',
+] as const;
+
+export type SubjectField = (typeof SUBJECT_FIELDS)[number];
+
+export type SubjectErrors = Partial<Record<SubjectField, string>>;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Mobile (09xx xxx xxxx) or landline with area code, local or +63.
+const PHONE_PATTERN = /^(?:\+63|0)\d{9,10}$/;
+
+const parseDate = (value: string) => (DATE_PATTERN.test(value) ? parseISO(value) : undefined);
+
+/**
+ * Whole years between date of birth and `asOf` (today by default), or
+ * undefined when the date is missing or invalid.
+ */
+export const computeAge = (dateOfBirth?: string | null, asOf: Date = new Date()): number | undefined => {
+  const dob = dateOfBirth ? parseDate(dateOfBirth) : undefined;
+  if (!dob || !isValid(dob)) return undefined;
+  return differenceInYears(asOf, dob);
+};
+
+export const normalizeContactNumber = (value: string) => value.replace(/[\s().-]/g, '');
+
+/**
+ * Returns a message per invalid field; an empty object means the subject
+ * can be saved. Every profile field is optional.
+ */
+export const validateSubject = (entry: BlotterEntry): SubjectErrors => {
+  const errors: SubjectErrors = {};
+
+  if (entry.date_of_birth) {
+    const dob = parseDate(entry.date_of_birth);
+    if (!dob || !isValid(dob)) {
+      errors.date_of_birth = 'Enter the date as YYYY-MM-DD';
+    } else if (dob > new Date()) {
+      errors.date_of_birth = 'Date of birth is in the future';
+    } else if (entry.date && entry.date_of_birth > entry.date) {
+      errors.date_of_birth = 'Date of birth is after the incident date';
+    } else if ((computeAge(entry.date_of_birth) ?? 0) > 120) {
+      errors.date_of_birth = 'Date of birth is more than 120 years ago';
+    }
+  }
+
+  if (entry.suffix && !NAME_SUFFIXES.includes(entry.suffix)) {
+    errors.suffix = `Use one of ${NAME_SUFFIXES.join(', ')}`;
+  }
+  if (entry.sex && !SEXES.some((sex) => sex.value === entry.sex)) {
+    errors.sex = 'Choose male or female';
+  }
+  if (entry.civil_status && !CIVIL_STATUSES.some((status) => status.value === entry.civil_status)) {
+    errors.civil_status = 'Choose a civil status from the list';
+  }
+  if (entry.contact_number && !PHONE_PATTERN.test(normalizeContactNumber(entry.contact_number))) {
+    errors.contact_number = 'Enter a Philippine number, e.g. 0917 123 4567';
+  }
+  if (entry.id_number?.trim() && !entry.id_type) {
+    errors.id_type = 'Choose the ID type';
+  }
+  if (entry.id_type && !entry.id_number?.trim()) {
+    errors.id_number = 'Enter the ID number';
+  }
+
+  return errors;
+};
+
+/**
+ * Trims the profile fields and turns blanks into nulls so empty form inputs
+ * don't end up as '' in date or constrained columns.
+ */
+export const normalizeSubject = <T extends Partial<BlotterEntry>>(entry: T): T => {
+  const normalized = { ...entry };
+  for (const field of SUBJECT_FIELDS) {
+    if (!(field in normalized)) continue;
+    const value = normalized[field];
+    const trimmed = typeof value === 'string' ? value.trim() : value;
+    (normalized as Record<string, unknown>)[field] =
+      field === 'contact_number' && trimmed ? normalizeContactNumber(trimmed) : trimmed || null;
+  }
+  return normalized;
+};
+
+export const formatAddress = (entry: Pick<BlotterEntry, 'barangay' | 'municipality' | 'province'>) =>
+  [entry.barangay, entry.municipality, entry.province].filter(Boolean).join(', ');
+
+/**
+ * Full name with middle name and suffix, e.g. "Juan Santos Dela Cruz Jr.".
+ */
+export const subjectFullName = (
+  entry: Pick<BlotterEntry, 'first_name' | 'middle_name' | 'last_name' | 'suffix'>
+) => [entry.first_name, entry.middle_name, entry.last_name, entry.suffix].filter(Boolean).join(' ');
@@ -0,0 +1,98 @@
+import { repository } from '@/lib/repository';
+import { getOutboxEntry, listOutbox, removeOutboxEntry, updateOutboxEntry, OutboxEntry } from '@/lib/outbox';
+
+export type SyncResult = {
+  synced: number;
+  failed: number;
+};
+
+const isNetworkError = (message: string) => {
+  const msg = String(message || '').toLowerCase();
+  return !navigator.onLine || msg.includes('failed to fetch') || msg.includes('network');
+};
+
+let running: Promise<SyncResult> | null = null;
+
+// Every tab shares the outbox. The lock lets one tab sync at a time, so an
+// item marked 'syncing' when the lock is taken was left by a run that died.
+const SYNC_LOCK = 'blotter-outbox-sync';
+
+const withSyncLock = <T>(task: () => Promise<T>): Promise<T> =>
+  navigator.locks ? navigator.locks.request(SYNC_LOCK, task) : task();
+
+// Only called with the sync lock held, on an item read after taking it.
+const pushEntry = async (item: OutboxEntry): Promise<boolean> => {
+  let current: OutboxEntry = { ...item, status: 'syncing' };
+  await updateOutboxEntry(current);
+
+  try {
+    // Photos need the saved entry's id. Remember it so a failed upload
+    // resumes with the remaining photos instead of saving the entry twice.
+    // The local id covers a save whose response never arrived.
+    if (current.entry_id === undefined) {
+      const [created] = await repository.createEntries([{ ...current.entry, local_id: current.local_id }]);
+      current = { ...current, entry_id: created.id };
+      if (current.photos?.length) await updateOutboxEntry(current);
+    }
+    while (current.photos?.length) {
+      await repository.addPhoto(current.entry_id as number, current.photos[0]);
+      current = { ...current, photos: current.photos.slice(1) };
+      await updateOutboxEntry(current);
+    }
+    await removeOutboxEntry(current.local_id);
+    return true;
+  } catch (error) {
+    const message = (error as Error).message;
+    // Connectivity problems keep the entry queued for the next pass; anything
+    // the backend rejected is parked as failed until someone retries it.
+    await updateOutboxEntry({
+      ...current,
+      status: repository.remote && isNetworkError(message) ? 'pending' : 'failed',
+      attempts: item.attempts + 1,
+      error: message,
+    });
+    return false;
+  }
+};
+
+/**
+ * Pushes queued entries to the repository, oldest first. Concurrent callers
+ * in a tab share the same run, and other tabs wait for it to finish. Pass
+ * `includeFailed` to also retry rejected entries.
+ */
+export const syncOutbox = (includeFailed = false): Promise<SyncResult> => {
+  if (running) return running;
+
+  running = withSyncLock(async () => {
+    const result: SyncResult = { synced: 0, failed: 0 };
+    if (repository.remote && !navigator.onLine) return result;
+
+    for (const { local_id } of await listOutbox()) {
+      // Read each item as it comes up: earlier pushes take a while, and the
+      // item may have been retried or discarded from another tab meanwhile.
+      const item = await getOutboxEntry(local_id);
+      if (!item) continue;
+      // A previous run may have been cut short by a reload mid-request.
+      const retryable = item.status === 'pending' || item.status === 'syncing' || includeFailed;
+      if (!retryable) continue;
+
+      try {
+        if (await pushEntry(item)) {
+          result.synced++;
+        } else {
+          result.failed++;
+        }
+      } catch (error) {
+        await updateOutboxEntry({ ...item, status: 'pending', error: (error as Error).message });
+        result.failed++;
+      }
+
+      if (repository.remote && !navigator.onLine) break;
+    }
+    return result;
+  }).finally(() => {
+    running = null;
+  });
+
+  return running;
+};
@@ -0,0 +1,17 @@
+import { addDays } from 'date-fns';
+import { BlotterEntry } from '@/lib/types';
+
+/**
+ * Deleted entries stay in the trash, restorable, for a number of days before
+ * they can be purged for good. The backend decides how many; read it with
+ * BlotterRepository.getTrashRetentionDays.
+ */
+
+/** When a trashed entry becomes eligible for permanent deletion. */
+export const purgeableAt = (entry: Pick<BlotterEntry, 'deleted_at'>, retentionDays: number) =>
+  entry.deleted_at ? addDays(new Date(entry.deleted_at), retentionDays) : undefined;
+
+export const canPurge = (entry: Pick<BlotterEntry, 'deleted_at'>, retentionDays: number, now: Date = new Date()) => {
+  const at = purgeableAt(entry, retentionDays);
+  return at !== undefined && at <= now;
+};
@@ -0,0 +1,196 @@
+import type { Role } from '@/lib/permissions';
+
+export type EntryStatus = 'open' | 'investigating' | 'settled' | 'closed';
+
+export const ENTRY_STATUSES: { value: EntryStatus; label: string }[] = [
+  { value: 'open', label: 'Open' },
+  { value: 'investigating', label: 'Under Investigation' },
+  { value: 'settled', label: 'Settled' },
+  { value: 'closed', label: 'Closed' },
+];
+
+export type Sex = 'male' | 'female';
+
+export const SEXES: { value: Sex; label: string }[] = [
+  { value: 'male', label: 'Male' },
+  { value: 'female', label: 'Female' },
+];
+
+export type CivilStatus = 'single' | 'married' | 'widowed' | 'separated' | 'annulled';
+
+export const CIVIL_STATUSES: { value: CivilStatus; label: string }[] = [
+  { value: 'single', label: 'Single' },
+  { value: 'married', label: 'Married' },
+  { value: 'widowed', label: 'Widowed' },
+  { value: 'separated', label: 'Legally Separated' },
+  { value: 'annulled', label: 'Annulled' },
+];
+
+export const NAME_SUFFIXES = ['Jr.', 'Sr.', 'II', 'III', 'IV', 'V'];
+
+// Government IDs commonly presented at the desk.
+export const ID_TYPES = [
+  'PhilSys National ID',
+  "Driver's License",
+  'Passport',
+  'UMID',
+  'SSS ID',
+  'PhilHealth ID',
+  'Postal ID',
+  "Voter's ID",
+  'PRC ID',
+  'Senior Citizen ID',
+  'Barangay ID',
+  'Student ID',
+  'Other',
+];
+
+// One real individual, linked to every entry that involves them.
+export type Person = {
+  id?: number;
+  first_name: string;
+  last_name: string;
+  // Nicknames and other names the person is known by.
+  aliases?: string[];
+  created_at?: string;
+};
+
+export const personName = (person: Pick<Person, 'first_name' | 'last_name'>) =>
+  `${person.first_name} ${person.last_name}`.trim();
+
+export type BlotterEntry = {
+  id?: number;
+  blotter_entry: string;
+  first_name: string;
+  last_name: string;
+  middle_name?: string | null;
+  suffix?: string | null;
+  // Names the subject is known by, e.g. "Boy Tigas".
+  aliases?: string[];
+  // Subject profile; see src/lib/subject.ts for validation.
+  date_of_birth?: string | null;
+  sex?: Sex | null;
+  civil_status?: CivilStatus | null;
+  barangay?: string | null;
+  municipality?: string | null;
+  province?: string | null;
+  contact_number?: string | null;
+  id_type?: string | null;
+  id_number?: string | null;
+  case_type: string;
+  date: string;
+  // Older rows and imports default to "open".
+  status?: EntryStatus;
+  created_at?: string;
+  // Set when the entry is moved to the trash; see src/lib/trash.ts.
+  deleted_at?: string | null;
+  deleted_by?: string | null;
+  deletion_reason?: string | null;
+  // The import batch that saved the entry, if it was imported.
+  import_batch_id?: string | null;
+  // The outbox item an offline entry was queued as; saving the same one
+  // again returns the entry already saved.
+  local_id?: string | null;
+  // Linked persons. When saving, `person_ids` replaces the links; entries
+  // saved without any get a new person made from first_name/last_name.
+  person_ids?: number[];
+  // Read-only: the linked persons, filled in when entries are loaded.
+  persons?: Person[];
+};
+
+export type ImportBatchStatus = 'in_progress' | 'completed' | 'cancelled' | 'rolled_back';
+
+export const IMPORT_BATCH_STATUSES: { value: ImportBatchStatus; label: string }[] = [
+  { value: 'in_progress', label: 'In Progress' },
+  { value: 'completed', label: 'Completed' },
+  { value: 'cancelled', label: 'Stopped' },
+  { value: 'rolled_back', label: 'Rolled Back' },
+];
+
+// One run of the importer. Its entries carry its id, so the whole import can
+// be rolled back at once.
+export type ImportBatch = {
+  id: string;
+  file_name: string;
+  total_rows: number;
+  status: ImportBatchStatus;
+  created_at: string;
+  created_by: string | null;
+  rolled_back_at: string | null;
+  rolled_back_by: string | null;
+  // Read-only: entries saved so far, trashed ones included. Filled in when
+  // batches are listed.
+  entry_count?: number;
+};
+
+// A photo attached to an entry, stored as a resized image plus thumbnail.
+export type EntryPhoto = {
+  id?: number;
+  entry_id: number;
+  path: string;
+  thumbnail_path: string;
+  width: number;
+  height: number;
+  created_at?: string;
+  // Filled in when photos are loaded. Remote URLs are signed and expire.
+  url?: string;
+  thumbnail_url?: string;
+};
+
+export type AuditAction = 'create' | 'update' | 'delete';
+
+// One recorded change. Updates carry only the fields that changed.
+export type AuditEvent = {
+  id?: number;
+  occurred_at: string;
+  actor_id: string | null;
+  actor_email: string | null;
+  action: AuditAction;
+  table_name: string;
+  record_id: string | null;
+  entry_id: number | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+};
+
+// A saved version of an entry's own fields. Revision 1 is the entry as
+// created; every edit or restore adds the next number.
+export type EntryRevision = {
+  id?: number;
+  entry_id: number;
+  revision: number;
+  created_at: string;
+  actor_id: string | null;
+  actor_email: string | null;
+  snapshot: Partial<BlotterEntry>;
+};
+
+// An account's role and status, loaded alongside the session.
+export type UserProfile = {
+  id: string;
+  email: string;
+  role: Role;
+  active: boolean;
+  // The station (police station or barangay desk) the account belongs to.
+  station: string | null;
+  // Set on invite and on an admin-forced reset until the user picks a password.
+  must_change_password: boolean;
+};
+
+// A profile as the user administration page lists it.
+export type ManagedUser = UserProfile & {
+  created_at: string;
+  last_sign_in_at: string | null;
+  // Has a verified authenticator app.
+  mfa_enabled: boolean;
+};
+
+// Two-factor (TOTP) state of the signed-in session.
+export type MfaStatus = {
+  // False on backends without MFA support.
+  available: boolean;
+  // A verified authenticator app is enrolled.
+  enrolled: boolean;
+  // This session has passed a code check (Supabase's aal2).
+  verified: boolean;
+};
@@ -1,5 +1,24 @@
 import { createRoot } from "react-dom/client";
-import App from "./App.tsx";
 import "./index.css";
+import { captureAuthRedirect } from "@/lib/authRedirect";
+import { ConfigError } from "@/components/ConfigError";
 
-createRoot(document.getElementById("root")!).render(<App />);
+// Before the router reads the URL fragment as a route.
+captureAuthRedirect();
+
+// The data backend is set up as the app's modules load, and a missing or
+// invalid setting throws there; show it rather than a blank page.
+const root = createRoot(document.getElementById("root")!);
+import("./App.tsx")
+  .then(({ default: App }) => root.render(<App />))
+  .catch((error: Error) => root.render(<ConfigError error={error} />));
+
+// The service worker caches the app shell so the app opens without a network.
+// Skipped in dev, where it would serve stale modules over Vite's HMR.
+if (import.meta.env.PROD && "serviceWorker" in navigator) {
+  window.addEventListener("load", () => {
+    navigator.serviceWorker.register("/sw.js").catch((error) => {
+      console.error("Service worker registration failed", error);
+    });
+  });
+}
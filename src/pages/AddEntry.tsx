@@ -1,35 +1,120 @@
-import { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { supabase } from '@/lib/supabase';
+import { useMemo, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { enqueueEntry } from '@/lib/outbox';
+import { fetchAllEntries } from '@/lib/export';
+import { DuplicateMatch, findDuplicates } from '@/lib/duplicates';
+import { useSync } from '@/contexts/SyncContext';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { BlotterEntry, ENTRY_STATUSES, EntryStatus, Person, personName } from '@/lib/types';
+import { PersonPicker } from '@/components/PersonPicker';
+import { AliasInput } from '@/components/AliasInput';
+import { PendingPhotos, PhotoCapture } from '@/components/PhotoCapture';
+import { NewPhoto, repository } from '@/lib/repository';
+import { SubjectProfileFields } from '@/components/SubjectProfileFields';
+import { normalizeSubject, SubjectErrors, validateSubject } from '@/lib/subject';
+import { useDebounce } from '@/hooks/useDebounce';
+import { usePersonRegistry } from '@/hooks/usePersonRegistry';
+import { findSubjectMatches } from '@/lib/names';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { ArrowLeft } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { AlertTriangle, ArrowLeft, Copy } from 'lucide-react';
 import { toast } from 'sonner';
 
 const AddEntry = () => {
   const navigate = useNavigate();
+  const { isOnline, syncNow, refreshLists } = useSync();
   const [loading, setLoading] = useState(false);
-  const [formData, setFormData] = useState({
+  const [formData, setFormData] = useState<BlotterEntry>({
     first_name: '',
     last_name: '',
     case_type: '',
     date: new Date().toISOString().split('T')[0],
     blotter_entry: '',
+    status: 'open',
+    aliases: [],
   });
+  // Registry persons this entry involves. Left empty, saving registers the
+  // subject as a new person.
+  const [linkedPersons, setLinkedPersons] = useState<Person[]>([]);
+  const [errors, setErrors] = useState<SubjectErrors>({});
+  // Resized and kept with the queued entry until it syncs.
+  const [photos, setPhotos] = useState<NewPhoto[]>([]);
+  // Entries the new one probably repeats, awaiting the user's choice.
+  const [duplicates, setDuplicates] = useState<DuplicateMatch<BlotterEntry>[]>([]);
+
+  // Warn about registry persons the typed name probably refers to.
+  const typedName = useMemo(
+    () => ({ first_name: formData.first_name, last_name: formData.last_name, aliases: formData.aliases }),
+    [formData.first_name, formData.last_name, formData.aliases]
+  );
+  const subject = useDebounce(typedName, 300);
+  const registry = usePersonRegistry(subject.last_name.trim().length > 0 || Boolean(subject.aliases?.length));
+  const possibleMatches = useMemo(
+    () =>
+      findSubjectMatches(subject, registry, { limit: 5 }).filter(
+        ({ person }) => !linkedPersons.some((linked) => linked.id === person.id)
+      ),
+    [subject, registry, linkedPersons]
+  );
+
+  const handleLinkedPersonsChange = (persons: Person[]) => {
+    // Picking the first person fills in the subject's name.
+    if (linkedPersons.length === 0 && persons.length > 0 && !formData.first_name && !formData.last_name) {
+      setFormData((prev) => ({ ...prev, first_name: persons[0].first_name, last_name: persons[0].last_name }));
+    }
+    setLinkedPersons(persons);
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    const validation = validateSubject(formData);
+    setErrors(validation);
+    if (Object.keys(validation).length > 0) {
+      toast.error('Please correct the highlighted fields');
+      return;
+    }
     setLoading(true);
 
-    try {
-      const { error } = await supabase.from('blotter_entries').insert([formData]);
+    // Best effort: offline, the same day's entries can't be loaded and the
+    // entry is saved without the check rather than not at all.
+    const sameDay =
+      repository.remote && !isOnline
+        ? []
+        : await fetchAllEntries({ filters: { after: formData.date, before: formData.date } }).catch(() => []);
+    const matches = findDuplicates(formData, sameDay);
+    if (matches.length > 0) {
+      setDuplicates(matches);
+      setLoading(false);
+      return;
+    }
+    await saveEntry();
+  };
 
-      if (error) throw error;
+  const saveEntry = async () => {
+    setDuplicates([]);
+    setLoading(true);
 
-      toast.success('Entry added successfully');
+    try {
+      // Always write to the local outbox first so nothing is lost if the
+      // connection drops mid-save; the sync context pushes it to the server.
+      await enqueueEntry(
+        {
+          ...normalizeSubject(formData),
+          person_ids: linkedPersons.length ? linkedPersons.map((person) => person.id) : undefined,
+        },
+        photos
+      );
+
+      if (isOnline) {
+        syncNow({ quiet: true });
+        toast.success('Entry added successfully');
+      } else {
+        toast.success('Saved offline. The entry will sync when the connection returns.');
+      }
       navigate('/');
     } catch (error: any) {
       toast.error('Error adding entry: ' + error.message);
@@ -38,6 +123,30 @@ const AddEntry = () => {
     }
   };
 
+  // Writes the form over an entry it duplicates instead of adding a new one.
+  // Links are only replaced when persons were picked here.
+  const updateExisting = async (existing: BlotterEntry) => {
+    const id = existing.id as number;
+    setDuplicates([]);
+    setLoading(true);
+    try {
+      await repository.updateEntry(id, {
+        ...normalizeSubject(formData),
+        person_ids: linkedPersons.length ? linkedPersons.map((person) => person.id) : undefined,
+      });
+      for (const photo of photos) {
+        await repository.addPhoto(id, photo);
+      }
+      refreshLists();
+      toast.success('Existing entry updated');
+      navigate(`/entry/${id}`);
+    } catch (error) {
+      toast.error('Error updating entry: ' + (error as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleChange = (
     e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
   ) => {
@@ -72,6 +181,14 @@ const AddEntry = () => {
           </CardHeader>
           <CardContent>
             <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label>Existing Person</Label>
+                <PersonPicker value={linkedPersons} onChange={handleLinkedPersonsChange} />
+                <p className="text-xs text-muted-foreground">
+                  Link a repeat subject to their existing record. Leave empty to register a new person.
+                </p>
+              </div>
+
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
                   <Label htmlFor="first_name">First Name</Label>
@@ -95,6 +212,49 @@ const AddEntry = () => {
                 </div>
               </div>
 
+              <div className="space-y-2">
+                <Label htmlFor="aliases">Aliases</Label>
+                <AliasInput
+                  id="aliases"
+                  value={formData.aliases ?? []}
+                  onChange={(aliases) => setFormData((prev) => ({ ...prev, aliases }))}
+                />
+              </div>
+
+              {possibleMatches.length > 0 && (
+                <div className="space-y-2 rounded-md border border-amber-300 bg-amber-50 px-3 py-2 text-sm text-amber-800">
+                  <p className="flex items-center gap-2 font-medium">
+                    <AlertTriangle className="h-4 w-4" />
+                    This may be an existing subject
+                  </p>
+                  <ul className="space-y-1">
+                    {possibleMatches.map(({ person, score }) => (
+                      <li key={person.id} className="flex items-center justify-between gap-2">
+                        <span>
+                          {personName(person)}{' '}
+                          <span className="text-xs text-amber-700">({Math.round(score * 100)}% match)</span>
+                        </span>
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          className="h-7 border-amber-300 bg-white"
+                          onClick={() => setLinkedPersons((prev) => [...prev, person])}
+                        >
+                          Link
+                        </Button>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              <SubjectProfileFields
+                value={formData}
+                onChange={(changes) => setFormData((prev) => ({ ...prev, ...changes }))}
+                errors={errors}
+              />
+
               <div className="space-y-2">
                 <Label htmlFor="case_type">Case Type</Label>
                 <Input
@@ -106,6 +266,25 @@ const AddEntry = () => {
                 />
               </div>
 
+              <div className="space-y-2">
+                <Label htmlFor="status">Status</Label>
+                <Select
+                  value={formData.status}
+                  onValueChange={(value) => setFormData((prev) => ({ ...prev, status: value as EntryStatus }))}
+                >
+                  <SelectTrigger id="status">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ENTRY_STATUSES.map((status) => (
+                      <SelectItem key={status.value} value={status.value}>
+                        {status.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
               <div className="space-y-2">
                 <Label htmlFor="date">Date</Label>
                 <Input
@@ -130,6 +309,12 @@ const AddEntry = () => {
                 />
               </div>
 
+              <div className="space-y-2">
+                <Label>Photos</Label>
+                <PhotoCapture onCapture={(captured) => setPhotos((prev) => [...prev, ...captured])} />
+                <PendingPhotos photos={photos} onChange={setPhotos} />
+              </div>
+
               <div className="flex gap-3 pt-4">
                 <Button
                   type="button"
@@ -151,6 +336,63 @@ const AddEntry = () => {
           </CardContent>
         </Card>
       </div>
+
+      {/* Duplicate Check Dialog */}
+      <Dialog open={duplicates.length > 0} onOpenChange={(open) => !open && setDuplicates([])}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Copy className="h-5 w-5" />
+              Possible Duplicate
+            </DialogTitle>
+            <DialogDescription>
+              The blotter already has {duplicates.length === 1 ? 'an entry' : 'entries'} for{' '}
+              {personName(formData)} on this date that {duplicates.length === 1 ? 'reads' : 'read'} much like this
+              one.
+            </DialogDescription>
+          </DialogHeader>
+          <ul className="space-y-3">
+            {duplicates.map(({ entry, score }) => (
+              <li key={entry.id} className="space-y-2 rounded-md border p-3 text-sm">
+                <div className="flex items-center justify-between gap-2">
+                  <Link
+                    to={`/entry/${entry.id}`}
+                    className="font-medium text-primary underline-offset-4 hover:underline"
+                  >
+                    {personName(entry)} · {entry.case_type}
+                  </Link>
+                  <span className="text-xs text-muted-foreground">{Math.round(score * 100)}% match</span>
+                </div>
+                <p className="line-clamp-3 text-muted-foreground">{entry.blotter_entry}</p>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => updateExisting(entry)}
+                  disabled={!isOnline}
+                >
+                  Update This Entry
+                </Button>
+              </li>
+            ))}
+          </ul>
+          <DialogFooter className="gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => {
+                toast('Entry not saved');
+                navigate('/');
+              }}
+            >
+              Skip
+            </Button>
+            <Button type="button" onClick={saveEntry}>
+              Save as New Entry
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
@@ -0,0 +1,429 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { auth, NewUser } from '@/lib/repository';
+import { ManagedUser } from '@/lib/types';
+import { Role, ROLES, roleLabel } from '@/lib/permissions';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { ArrowLeft, KeyRound, Pencil, ShieldCheck, UserPlus, UserX, UserCheck } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { toast } from 'sonner';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+interface UserFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Editing an existing user when set; inviting a new one otherwise.
+  user: ManagedUser | null;
+  stations: string[];
+  onSubmit: (values: NewUser) => Promise<void>;
+}
+
+const UserFormDialog = ({ open, onOpenChange, user, stations, onSubmit }: UserFormDialogProps) => {
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<Role>('viewer');
+  const [station, setStation] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setEmail(user?.email ?? '');
+    setRole(user?.role ?? 'viewer');
+    setStation(user?.station ?? '');
+  }, [open, user]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user && !EMAIL_PATTERN.test(email.trim())) {
+      toast.error('Enter a valid email address');
+      return;
+    }
+    setSaving(true);
+    try {
+      await onSubmit({ email: email.trim(), role, station: station.trim() || null });
+      onOpenChange(false);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{user ? 'Edit User' : 'Invite User'}</DialogTitle>
+            <DialogDescription>
+              {user
+                ? user.email
+                : 'The new user will be asked to choose their own password when they first sign in.'}
+            </DialogDescription>
+          </DialogHeader>
+          {!user && (
+            <div className="space-y-2">
+              <Label htmlFor="invite-email">Email</Label>
+              <Input
+                id="invite-email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="officer@station.gov.ph"
+                required
+              />
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="user-role">Role</Label>
+            <Select value={role} onValueChange={(value) => setRole(value as Role)}>
+              <SelectTrigger id="user-role">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ROLES.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">{ROLES.find((option) => option.value === role)?.description}</p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="user-station">Station</Label>
+            <Input
+              id="user-station"
+              list="user-stations"
+              value={station}
+              onChange={(e) => setStation(e.target.value)}
+              placeholder="e.g. Station 3, Brgy. San Isidro"
+            />
+            <datalist id="user-stations">
+              {stations.map((name) => (
+                <option key={name} value={name} />
+              ))}
+            </datalist>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving}>
+              {saving ? 'Saving...' : user ? 'Save' : 'Send Invite'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+const AdminUsers = () => {
+  const navigate = useNavigate();
+  const { user: currentUser } = useAuth();
+  const [users, setUsers] = useState<ManagedUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editing, setEditing] = useState<ManagedUser | null>(null);
+  const [deactivating, setDeactivating] = useState<ManagedUser | null>(null);
+  const [resetting, setResetting] = useState<ManagedUser | null>(null);
+  // Shown once after an on-device invite or reset.
+  const [temporaryPassword, setTemporaryPassword] = useState<{ email: string; password: string } | null>(null);
+
+  const fetchUsers = useCallback(async () => {
+    try {
+      setUsers(await auth.listUsers());
+    } catch (error) {
+      toast.error('Error loading users: ' + (error as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchUsers();
+  }, [fetchUsers]);
+
+  const stations = Array.from(new Set(users.map((user) => user.station).filter(Boolean) as string[])).sort();
+
+  const handleSubmit = async (values: NewUser) => {
+    try {
+      if (editing) {
+        await auth.updateUser(editing.id, { role: values.role, station: values.station });
+        toast.success('User updated');
+      } else {
+        const { temporaryPassword } = await auth.inviteUser(values);
+        if (temporaryPassword) {
+          setTemporaryPassword({ email: values.email, password: temporaryPassword });
+        } else {
+          toast.success(`Invitation sent to ${values.email}`);
+        }
+      }
+      await fetchUsers();
+    } catch (error) {
+      toast.error((editing ? 'Error updating user: ' : 'Error inviting user: ') + (error as Error).message);
+      throw error;
+    }
+  };
+
+  const handleSetActive = async (user: ManagedUser, active: boolean) => {
+    try {
+      await auth.updateUser(user.id, { active });
+      toast.success(active ? `${user.email} reactivated` : `${user.email} deactivated`);
+      await fetchUsers();
+    } catch (error) {
+      toast.error('Error updating user: ' + (error as Error).message);
+    } finally {
+      setDeactivating(null);
+    }
+  };
+
+  const handleResetPassword = async () => {
+    if (!resetting) return;
+    try {
+      const { temporaryPassword } = await auth.forcePasswordReset(resetting.id);
+      if (temporaryPassword) {
+        setTemporaryPassword({ email: resetting.email, password: temporaryPassword });
+      } else {
+        toast.success(`Password reset link sent to ${resetting.email}`);
+      }
+      await fetchUsers();
+    } catch (error) {
+      toast.error('Error resetting password: ' + (error as Error).message);
+    } finally {
+      setResetting(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-secondary">
+      {/* Header */}
+      <header className="sticky top-0 z-10 bg-primary px-4 py-4 text-primary-foreground shadow-md">
+        <div className="flex items-center gap-3">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => navigate('/')}
+            className="text-primary-foreground hover:bg-primary/80"
+          >
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <h1 className="text-xl font-bold">Users</h1>
+          <Button
+            variant="secondary"
+            size="sm"
+            className="ml-auto"
+            onClick={() => {
+              setEditing(null);
+              setFormOpen(true);
+            }}
+          >
+            <UserPlus className="mr-2 h-4 w-4" />
+            Invite
+          </Button>
+        </div>
+      </header>
+
+      {/* Content */}
+      <div className="p-4">
+        <Card>
+          <CardContent className="p-0">
+            {loading ? (
+              <div className="flex justify-center py-8">
+                <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent"></div>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Role</TableHead>
+                    <TableHead>Station</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>2FA</TableHead>
+                    <TableHead>Last Sign-in</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {users.map((user) => {
+                    const isSelf = user.id === currentUser?.id;
+                    return (
+                      <TableRow key={user.id} className={user.active ? undefined : 'text-muted-foreground'}>
+                        <TableCell className="font-medium">
+                          {user.email}
+                          {isSelf && <span className="ml-2 text-xs text-muted-foreground">(you)</span>}
+                        </TableCell>
+                        <TableCell>{roleLabel(user.role)}</TableCell>
+                        <TableCell>{user.station ?? '—'}</TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            <Badge variant={user.active ? 'secondary' : 'destructive'}>
+                              {user.active ? 'Active' : 'Deactivated'}
+                            </Badge>
+                            {user.must_change_password && <Badge variant="outline">Password change pending</Badge>}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          {user.mfa_enabled ? (
+                            <Badge variant="outline" className="gap-1">
+                              <ShieldCheck className="h-3 w-3" />
+                              Enrolled
+                            </Badge>
+                          ) : (
+                            <span className="text-muted-foreground">Not enrolled</span>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {user.last_sign_in_at
+                            ? formatDistanceToNow(new Date(user.last_sign_in_at), { addSuffix: true })
+                            : 'Never'}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex justify-end gap-1">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              aria-label="Edit user"
+                              onClick={() => {
+                                setEditing(user);
+                                setFormOpen(true);
+                              }}
+                              disabled={isSelf}
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              aria-label="Force password reset"
+                              onClick={() => setResetting(user)}
+                              disabled={!user.active}
+                            >
+                              <KeyRound className="h-4 w-4" />
+                            </Button>
+                            {user.active ? (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                aria-label="Deactivate user"
+                                onClick={() => setDeactivating(user)}
+                                disabled={isSelf}
+                              >
+                                <UserX className="h-4 w-4 text-destructive" />
+                              </Button>
+                            ) : (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                aria-label="Reactivate user"
+                                onClick={() => handleSetActive(user, true)}
+                              >
+                                <UserCheck className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <UserFormDialog
+        open={formOpen}
+        onOpenChange={setFormOpen}
+        user={editing}
+        stations={stations}
+        onSubmit={handleSubmit}
+      />
+
+      {/* Deactivate Confirmation Dialog */}
+      <AlertDialog open={deactivating !== null} onOpenChange={(open) => !open && setDeactivating(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Deactivate User</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deactivating?.email} will lose access to the blotter immediately. Their entries and history are kept,
+              and the account can be reactivated later.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deactivating && handleSetActive(deactivating, false)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Deactivate
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Password Reset Confirmation Dialog */}
+      <AlertDialog open={resetting !== null} onOpenChange={(open) => !open && setResetting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Force Password Reset</AlertDialogTitle>
+            <AlertDialogDescription>
+              {resetting?.email} will have to choose a new password before they can continue using the blotter.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleResetPassword}>Reset Password</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Temporary Password Dialog */}
+      <Dialog open={temporaryPassword !== null} onOpenChange={(open) => !open && setTemporaryPassword(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Temporary Password</DialogTitle>
+            <DialogDescription>
+              Give this password to {temporaryPassword?.email}. It is shown only once, and they will be asked to
+              change it when they sign in.
+            </DialogDescription>
+          </DialogHeader>
+          <p className="rounded-md bg-muted p-3 text-center font-mono text-lg tracking-wider">
+            {temporaryPassword?.password}
+          </p>
+          <DialogFooter>
+            <Button onClick={() => setTemporaryPassword(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default AdminUsers;
@@ -0,0 +1,253 @@
+import { useState, useEffect } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { AuditEvent } from '@/lib/types';
+import { repository } from '@/lib/repository';
+import { AUDIT_ACTIONS, AUDIT_TABLE_LABELS, formatAuditValue } from '@/lib/audit';
+import { useDebounce } from '@/hooks/useDebounce';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowLeft, ScrollText } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+
+const ROWS_PER_PAGE = 25;
+const ALL_USERS = 'all';
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const ACTION_VARIANTS: Record<AuditEvent['action'], 'default' | 'secondary' | 'destructive'> = {
+  create: 'default',
+  update: 'secondary',
+  delete: 'destructive',
+};
+
+const actionLabel = (action: AuditEvent['action']) =>
+  AUDIT_ACTIONS.find((item) => item.value === action)?.label ?? action;
+
+// Field-by-field changes. Creates and deletes show the whole row on one side.
+const AuditChanges = ({ event }: { event: AuditEvent }) => {
+  const fields = Object.keys(event.after ?? event.before ?? {});
+  if (fields.length === 0) return null;
+  return (
+    <dl className="mt-2 grid gap-x-4 gap-y-1 text-sm sm:grid-cols-[10rem_1fr]">
+      {fields.map((field) => (
+        <div key={field} className="contents">
+          <dt className="text-muted-foreground">{field}</dt>
+          <dd className="break-words">
+            {event.action === 'update' ? (
+              <>
+                <span className="text-muted-foreground line-through">{formatAuditValue(event.before?.[field])}</span>
+                {' → '}
+                <span>{formatAuditValue(event.after?.[field])}</span>
+              </>
+            ) : (
+              formatAuditValue((event.after ?? event.before)?.[field])
+            )}
+          </dd>
+        </div>
+      ))}
+    </dl>
+  );
+};
+
+const AuditLog = () => {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const user = searchParams.get('user') || '';
+  const entry = searchParams.get('entry') || '';
+  const from = searchParams.get('from') || '';
+  const to = searchParams.get('to') || '';
+  const page = Math.max(1, Number.parseInt(searchParams.get('page') || '1', 10) || 1);
+
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [actors, setActors] = useState<string[]>([]);
+  const [totalPages, setTotalPages] = useState(1);
+  const [totalCount, setTotalCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [entryInput, setEntryInput] = useState(entry);
+  const debouncedEntry = useDebounce(entryInput.trim(), 300);
+
+  // Any filter change goes back to page 1.
+  const updateParams = (changes: Record<string, string>, keepPage = false) => {
+    const next = new URLSearchParams(searchParams);
+    Object.entries(changes).forEach(([key, value]) => (value ? next.set(key, value) : next.delete(key)));
+    if (!keepPage) next.delete('page');
+    setSearchParams(next, { replace: !keepPage });
+  };
+
+  useEffect(() => {
+    if (debouncedEntry === entry || (debouncedEntry && !/^\d+$/.test(debouncedEntry))) return;
+    const next = new URLSearchParams(searchParams);
+    if (debouncedEntry) next.set('entry', debouncedEntry);
+    else next.delete('entry');
+    next.delete('page');
+    setSearchParams(next, { replace: true });
+  }, [debouncedEntry, entry, searchParams, setSearchParams]);
+
+  useEffect(() => {
+    repository
+      .listAuditActors()
+      .then(setActors)
+      .catch((error) => toast.error('Error loading users: ' + error.message));
+  }, []);
+
+  useEffect(() => {
+    const fetchEvents = async () => {
+      try {
+        setLoading(true);
+        const { data, count } = await repository.listAuditEvents({
+          actorEmail: user || undefined,
+          entryId: entry ? Number(entry) : undefined,
+          from: DATE_PATTERN.test(from) ? from : undefined,
+          to: DATE_PATTERN.test(to) ? to : undefined,
+          page,
+          pageSize: ROWS_PER_PAGE,
+        });
+        setEvents(data);
+        setTotalCount(count);
+        setTotalPages(Math.max(1, Math.ceil(count / ROWS_PER_PAGE)));
+      } catch (error) {
+        toast.error('Error loading audit log: ' + (error as Error).message);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchEvents();
+  }, [user, entry, from, to, page]);
+
+  return (
+    <div className="min-h-screen bg-secondary">
+      {/* Header */}
+      <header className="sticky top-0 z-10 bg-primary px-4 py-4 text-primary-foreground shadow-md">
+        <div className="flex items-center gap-3">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => navigate('/')}
+            className="text-primary-foreground hover:bg-primary/80"
+          >
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <h1 className="text-xl font-bold">Audit Log</h1>
+        </div>
+      </header>
+
+      {/* Content */}
+      <div className="space-y-4 p-4">
+        {/* Filters */}
+        <Card>
+          <CardContent className="grid gap-4 pt-6 sm:grid-cols-2 lg:grid-cols-4">
+            <div className="space-y-2">
+              <Label>User</Label>
+              <Select value={user || ALL_USERS} onValueChange={(value) => updateParams({ user: value === ALL_USERS ? '' : value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_USERS}>All users</SelectItem>
+                  {actors.map((actor) => (
+                    <SelectItem key={actor} value={actor}>
+                      {actor}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-entry">Entry ID</Label>
+              <Input
+                id="audit-entry"
+                inputMode="numeric"
+                placeholder="Any entry"
+                value={entryInput}
+                onChange={(e) => setEntryInput(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-from">From</Label>
+              <Input id="audit-from" type="date" value={from} onChange={(e) => updateParams({ from: e.target.value })} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-to">To</Label>
+              <Input id="audit-to" type="date" value={to} onChange={(e) => updateParams({ to: e.target.value })} />
+            </div>
+          </CardContent>
+        </Card>
+
+        <p className="text-sm text-muted-foreground">
+          {totalCount} {totalCount === 1 ? 'event' : 'events'}
+          {totalPages > 1 && ` (Page ${page} of ${totalPages})`}
+        </p>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent"></div>
+          </div>
+        ) : events.length === 0 ? (
+          <Card>
+            <CardContent className="flex flex-col items-center gap-2 py-8 text-sm text-muted-foreground">
+              <ScrollText className="h-6 w-6" />
+              No recorded changes match these filters.
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {events.map((event) => (
+              <Card key={event.id}>
+                <CardContent className="pt-4">
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <Badge variant={ACTION_VARIANTS[event.action]}>{actionLabel(event.action)}</Badge>
+                    <span className="font-medium">{AUDIT_TABLE_LABELS[event.table_name] ?? event.table_name}</span>
+                    {event.record_id && <span className="text-muted-foreground">#{event.record_id}</span>}
+                    {event.entry_id !== null && event.table_name !== 'blotter_entries' && (
+                      <span className="text-muted-foreground">on entry #{event.entry_id}</span>
+                    )}
+                    {event.entry_id !== null && event.action !== 'delete' && (
+                      <Link to={`/entry/${event.entry_id}`} className="text-primary hover:underline">
+                        View entry
+                      </Link>
+                    )}
+                  </div>
+                  <p className="mt-1 text-xs text-muted-foreground">
+                    {format(new Date(event.occurred_at), 'MMM d, yyyy h:mm:ss a')} · {event.actor_email ?? 'System'}
+                  </p>
+                  <AuditChanges event={event} />
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+
+        {totalPages > 1 && (
+          <div className="flex flex-col items-center justify-between gap-4 sm:flex-row">
+            <Button
+              variant="outline"
+              onClick={() => updateParams({ page: String(page - 1) }, true)}
+              disabled={page === 1}
+              className="w-full sm:w-auto"
+            >
+              Previous
+            </Button>
+            <div className="text-center text-sm text-muted-foreground">
+              Page {page} of {totalPages}
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => updateParams({ page: String(page + 1) }, true)}
+              disabled={page >= totalPages}
+              className="w-full sm:w-auto"
+            >
+              Next
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AuditLog;
@@ -1,9 +1,14 @@
-import { useState, useEffect, useRef } from 'react';
-import { useNavigate, Link } from 'react-router-dom';
-import { supabase, BlotterEntry } from '@/lib/supabase';
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { useNavigate, useLocation, Link } from 'react-router-dom';
+import { BlotterEntry, personName } from '@/lib/types';
+import { repository } from '@/lib/repository';
 import { useAuth } from '@/contexts/AuthContext';
+import { useSync } from '@/contexts/SyncContext';
+import { OutboxStatus } from '@/lib/outbox';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Card, CardContent, CardHeader } from '@/components/ui/card';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import {
@@ -15,27 +20,81 @@ import {
   SidebarMenuItem,
   SidebarMenuButton,
 } from '@/components/ui/sidebar';
-import { Menu, X, LogOut, Plus, Search, ChevronsUpDown, Check, BookMarked, Settings } from 'lucide-react';
+import { Menu, X, LogOut, Plus, ChevronsUpDown, Check, BookMarked, Settings, CloudOff, RefreshCw, UserRound, ScrollText, Trash2, UsersRound, Download, NotebookText } from 'lucide-react';
 import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
 import { format } from 'date-fns';
 import { toast } from 'sonner';
 import { useDebounce } from '@/hooks/useDebounce';
+import { Highlight } from '@/components/Highlight';
+import { SearchBar } from '@/components/SearchBar';
+import { FilterPanel } from '@/components/FilterPanel';
+import { useListParams } from '@/hooks/useListParams';
+import { matchExcerpt, parseSearchQuery } from '@/lib/search';
+import { EntryFilters, parseSearchInput } from '@/lib/qualifiers';
+import { findNameMatches } from '@/lib/names';
+import { usePersonRegistry } from '@/hooks/usePersonRegistry';
+import { ExportDialog } from '@/components/ExportDialog';
+import { ENTRY_STATUSES } from '@/lib/types';
+
+const SYNC_STATUS_LABELS: Record<OutboxStatus, string> = {
+  pending: 'Pending sync',
+  syncing: 'Syncing...',
+  failed: 'Sync failed',
+};
 
 const BlotterList = () => {
   const [entries, setEntries] = useState<BlotterEntry[]>([]);
+  // Entries per linked person, to flag repeat subjects.
+  const [personCounts, setPersonCounts] = useState<Record<number, number>>({});
+  // First photo of each entry, shown as the card's avatar.
+  const [thumbnails, setThumbnails] = useState<Record<number, string>>({});
   const [loading, setLoading] = useState(true);
-  const [firstNameSearch, setFirstNameSearch] = useState('');
-  const [lastNameSearch, setLastNameSearch] = useState('');
-  const debouncedFirstName = useDebounce(firstNameSearch, 500);
-  const debouncedLastName = useDebounce(lastNameSearch, 500);
-  const [currentPage, setCurrentPage] = useState(1);
+  // Search, filters, sort and page live in the URL; see useListParams.
+  const [params, updateParams] = useListParams();
+  const [search, setSearch] = useState(params.q);
+  const debouncedSearch = useDebounce(search, 500);
+  // Qualifiers (type:, after:, ...) become filters; the rest is full text.
+  const searchInput = useMemo(() => parseSearchInput(params.q), [params.q]);
+  const searchQuery = useMemo(() => parseSearchQuery(searchInput.text), [searchInput]);
+  const filters = useMemo<EntryFilters>(() => {
+    const merged: EntryFilters = { ...searchInput.filters };
+    if (params.types.length) merged.caseTypeIn = params.types;
+    // Panel dates and after:/before: qualifiers combine to the narrower range.
+    if (params.from && (!merged.after || params.from > merged.after)) merged.after = params.from;
+    if (params.to && (!merged.before || params.to < merged.before)) merged.before = params.to;
+    return merged;
+  }, [searchInput, params.types, params.from, params.to]);
+  const sort = useMemo(
+    () =>
+      params.sort
+        ? { field: params.sort, direction: params.dir }
+        : params.dir === 'asc'
+          ? { field: 'date' as const, direction: params.dir }
+          : undefined,
+    [params.sort, params.dir]
+  );
+  // Names are typed inconsistently, so name searches also list registry
+  // persons that sound or spell alike. first:/last: qualifiers take priority
+  // over the free text.
+  const nameQuery = useMemo(() => {
+    const qualified = [searchInput.filters.firstName, searchInput.filters.lastName].filter(Boolean).join(' ');
+    return qualified || [...searchQuery.terms, ...searchQuery.phrases.flat()].join(' ');
+  }, [searchInput, searchQuery]);
+  const registry = usePersonRegistry(nameQuery.length > 0);
+  const nameMatches = useMemo(() => findNameMatches(nameQuery, registry, { limit: 8 }), [nameQuery, registry]);
+  const currentPage = params.page;
+  const [caseTypes, setCaseTypes] = useState<string[]>([]);
+  const [hasLoaded, setHasLoaded] = useState(false);
   const [totalPages, setTotalPages] = useState(1);
   const [totalCount, setTotalCount] = useState(0);
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
+  const [showExportDialog, setShowExportDialog] = useState(false);
   const ROWS_PER_PAGE = 20;
   
-  const { signOut, session } = useAuth();
+  const { signOut, session, can } = useAuth();
+  const { outbox, isOnline, syncNow, lastSyncedAt } = useSync();
   const navigate = useNavigate();
+  const location = useLocation();
 
   // Handle sidebar toggle and outside click
   useEffect(() => {
@@ -67,40 +126,28 @@ const BlotterList = () => {
     return () => window.removeEventListener('resize', handleResize);
   }, []);
 
-  // Initial fetch on component mount
+  // Push the typed search into the URL once it settles (resets to page 1).
+  const urlQuery = useRef(params.q);
+  urlQuery.current = params.q;
   useEffect(() => {
-    if (!session) return;
-    
-    const fetchInitialEntries = async () => {
-      try {
-        setLoading(true);
-        
-        const { count, data, error } = await supabase
-          .from('blotter_entries')
-          .select('*', { count: 'exact' })
-          .order('date', { ascending: false })
-          .range((currentPage - 1) * ROWS_PER_PAGE, (currentPage * ROWS_PER_PAGE) - 1);
-        
-        if (error) throw error;
-        
-        setTotalCount(count || 0);
-        const totalPages = Math.ceil((count || 0) / ROWS_PER_PAGE);
-        setTotalPages(totalPages);
-        setEntries(data || []);
-      } catch (error: any) {
-        toast.error('Error loading entries: ' + error.message);
-      } finally {
-        setLoading(false);
-      }
-    };
-    
-    fetchInitialEntries();
-  }, [session]);
+    if (debouncedSearch !== urlQuery.current) {
+      updateParams({ q: debouncedSearch }, { replace: true });
+    }
+  }, [debouncedSearch, updateParams]);
+
+  // Follow the URL when it changes underneath us, e.g. Back/Forward.
+  useEffect(() => {
+    setSearch(params.q);
+  }, [params.q]);
 
-  // Update search and reset page when debounced values change
+  // Case types for the type: autocomplete
   useEffect(() => {
-    setCurrentPage(1);
-  }, [debouncedFirstName, debouncedLastName]);
+    if (!session) return;
+    repository
+      .listCaseTypes()
+      .then(setCaseTypes)
+      .catch((error) => console.error('Unable to load case types', error));
+  }, [session, lastSyncedAt]);
 
   // Fetch entries when search terms or page changes
   useEffect(() => {
@@ -110,43 +157,55 @@ const BlotterList = () => {
       try {
         setLoading(true);
         
-        let query = supabase
-          .from('blotter_entries')
-          .select('*', { count: 'exact' })
-          .order('date', { ascending: false });
-        
-        if (debouncedFirstName) {
-          query = query.ilike('first_name', `%${debouncedFirstName.toLowerCase()}%`);
-        }
-        if (debouncedLastName) {
-          query = query.ilike('last_name', `%${debouncedLastName.toLowerCase()}%`);
-        }
-        
-        const { count, data, error } = await query
-          .range((currentPage - 1) * ROWS_PER_PAGE, (currentPage * ROWS_PER_PAGE) - 1);
-        
-        if (error) throw error;
+        const { count, data } = await repository.listEntries({
+          search: searchInput.text,
+          filters,
+          sort,
+          page: currentPage,
+          pageSize: ROWS_PER_PAGE,
+        });
         
         setTotalCount(count || 0);
         const totalPages = Math.ceil((count || 0) / ROWS_PER_PAGE);
         setTotalPages(totalPages);
         setEntries(data || []);
+
+        const personIds = Array.from(new Set((data || []).flatMap((entry) => entry.person_ids ?? [])));
+        const [counts, thumbs] = await Promise.all([
+          personIds.length ? repository.countPersonEntries(personIds) : {},
+          repository.getThumbnails((data || []).map((entry) => entry.id as number)),
+        ]);
+        setPersonCounts(counts);
+        setThumbnails(thumbs);
       } catch (error: any) {
         toast.error('Error loading entries: ' + error.message);
       } finally {
         setLoading(false);
+        setHasLoaded(true);
       }
     };
     
     fetchEntries();
-  }, [debouncedFirstName, debouncedLastName, currentPage, session]);
+  }, [searchInput, filters, sort, currentPage, session, lastSyncedAt]);
+
+  // Describes the selection in export headers.
+  const exportCriteria = [
+    params.q && `Search "${params.q}"`,
+    params.types.length > 0 && `Case types: ${params.types.join(', ')}`,
+    params.from && `From ${params.from}`,
+    params.to && `To ${params.to}`,
+  ]
+    .filter(Boolean)
+    .join('; ');
 
   const handlePageChange = (newPage: number) => {
-    setCurrentPage(newPage);
+    updateParams({ page: newPage });
     window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
-  if (loading) {
+  // Only the first load replaces the page; later fetches keep the search box
+  // mounted so typing and autocomplete aren't interrupted.
+  if (loading && !hasLoaded) {
     return (
       <div className="flex min-h-screen items-center justify-center">
         <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent"></div>
@@ -205,6 +264,92 @@ const BlotterList = () => {
                     </Link>
                   </SidebarMenuButton>
                 </SidebarMenuItem>
+                <SidebarMenuItem>
+                  <SidebarMenuButton 
+                    asChild 
+                    tooltip="Logbook"
+                    className="md:justify-start"
+                  >
+                    <Link 
+                      to="/logbook" 
+                      className="flex items-center space-x-2 w-full h-full px-4 py-2"
+                      onClick={() => {
+                        if (window.innerWidth < 768) {
+                          setIsSidebarOpen(false);
+                        }
+                      }}
+                    >
+                      <NotebookText className="h-5 w-5" />
+                      <span className="md:hidden">Logbook</span>
+                    </Link>
+                  </SidebarMenuButton>
+                </SidebarMenuItem>
+                {can('audit:view') && (
+                    <SidebarMenuItem>
+                      <SidebarMenuButton 
+                        asChild 
+                        tooltip="Audit Log"
+                        className="md:justify-start"
+                      >
+                        <Link 
+                          to="/audit" 
+                          className="flex items-center space-x-2 w-full h-full px-4 py-2"
+                          onClick={() => {
+                            if (window.innerWidth < 768) {
+                              setIsSidebarOpen(false);
+                            }
+                          }}
+                        >
+                          <ScrollText className="h-5 w-5" />
+                          <span className="md:hidden">Audit Log</span>
+                        </Link>
+                      </SidebarMenuButton>
+                    </SidebarMenuItem>
+                )}
+                {can('entries:manage_trash') && (
+                    <SidebarMenuItem>
+                      <SidebarMenuButton 
+                        asChild 
+                        tooltip="Trash"
+                        className="md:justify-start"
+                      >
+                        <Link 
+                          to="/trash" 
+                          className="flex items-center space-x-2 w-full h-full px-4 py-2"
+                          onClick={() => {
+                            if (window.innerWidth < 768) {
+                              setIsSidebarOpen(false);
+                            }
+                          }}
+                        >
+                          <Trash2 className="h-5 w-5" />
+                          <span className="md:hidden">Trash</span>
+                        </Link>
+                      </SidebarMenuButton>
+                    </SidebarMenuItem>
+                )}
+                {can('users:manage') && (
+                    <SidebarMenuItem>
+                      <SidebarMenuButton 
+                        asChild 
+                        tooltip="Users"
+                        className="md:justify-start"
+                      >
+                        <Link 
+                          to="/admin/users" 
+                          className="flex items-center space-x-2 w-full h-full px-4 py-2"
+                          onClick={() => {
+                            if (window.innerWidth < 768) {
+                              setIsSidebarOpen(false);
+                            }
+                          }}
+                        >
+                          <UsersRound className="h-5 w-5" />
+                          <span className="md:hidden">Users</span>
+                        </Link>
+                      </SidebarMenuButton>
+                    </SidebarMenuItem>
+                )}
                 <SidebarMenuItem>
                   <SidebarMenuButton 
                     asChild 
@@ -259,32 +404,30 @@ const BlotterList = () => {
             {/* Search and Filter Section */}
             <div className="border-b p-4 space-y-4 bg-background">
               <div className="w-full max-w-2xl space-y-4">
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  <div className="relative">
-                    <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
-                    <Input
-                      placeholder="Search by first name..."
-                      className="pl-10 w-full text-foreground bg-background"
-                      value={firstNameSearch}
-                      onChange={(e) => setFirstNameSearch(e.target.value)}
-                    />
-                  </div>
-                  <div className="relative">
-                    <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
-                    <Input
-                      placeholder="Search by last name..."
-                      className="pl-10 w-full text-foreground bg-background"
-                      value={lastNameSearch}
-                      onChange={(e) => setLastNameSearch(e.target.value)}
-                    />
-                  </div>
-                </div>
+                <SearchBar
+                  value={search}
+                  onChange={setSearch}
+                  caseTypes={caseTypes}
+                  errors={searchInput.errors}
+                />
+                <FilterPanel
+                  value={params}
+                  onChange={(changes) => updateParams(changes)}
+                  caseTypes={caseTypes}
+                  searching={searchQuery.terms.length > 0 || searchQuery.phrases.length > 0}
+                />
               </div>
               {totalCount > 0 && (
-                <div className="text-sm text-muted-foreground">
-                  Found {totalCount} {totalCount === 1 ? 'entry' : 'entries'}
-                  {(firstNameSearch || lastNameSearch) && ` matching ${firstNameSearch ? `first name: "${firstNameSearch}"` : ''}${firstNameSearch && lastNameSearch ? ' and ' : ''}${lastNameSearch ? `last name: "${lastNameSearch}"` : ''}`}
-                  {totalPages > 1 && ` (Page ${currentPage} of ${totalPages})`}
+                <div className="flex items-center justify-between gap-2">
+                  <div className="text-sm text-muted-foreground">
+                    Found {totalCount} {totalCount === 1 ? 'entry' : 'entries'}
+                    {params.q && ` matching "${params.q}"`}
+                    {totalPages > 1 && ` (Page ${currentPage} of ${totalPages})`}
+                  </div>
+                  <Button variant="outline" size="sm" onClick={() => setShowExportDialog(true)}>
+                    <Download className="mr-2 h-4 w-4" />
+                    Export
+                  </Button>
                 </div>
               )}
             </div>
@@ -292,13 +435,89 @@ const BlotterList = () => {
 
           {/* Main Content */}
           <main className="p-4">
+            {!isOnline && (
+              <div className="mb-4 flex items-center gap-2 rounded-md border border-amber-300 bg-amber-50 px-3 py-2 text-sm text-amber-800">
+                <CloudOff className="h-4 w-4" />
+                You are offline. New entries are saved on this device and will sync automatically.
+              </div>
+            )}
+
+            {currentPage === 1 && nameMatches.length > 0 && (
+              <div className="mb-4 rounded-md border bg-background px-3 py-2">
+                <p className="mb-2 text-sm font-medium">Possible name matches</p>
+                <div className="flex flex-wrap gap-2">
+                  {nameMatches.map(({ person, score }) => (
+                    <Link
+                      key={person.id}
+                      to={`/person/${person.id}`}
+                      state={{ from: `${location.pathname}${location.search}` }}
+                      className="inline-flex items-center gap-1 rounded-full border px-2.5 py-0.5 text-sm hover:bg-secondary"
+                    >
+                      <UserRound className="h-3.5 w-3.5" />
+                      {personName(person)}
+                      <span className="text-xs text-muted-foreground">{Math.round(score * 100)}%</span>
+                    </Link>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Entries waiting in the offline outbox */}
+            {currentPage === 1 && outbox.length > 0 && (
+              <div className="mb-4 grid gap-4">
+                {outbox.map((item) => (
+                  <Card key={item.local_id} className="border-dashed">
+                    <CardHeader className="pb-2">
+                      <div className="flex flex-col sm:flex-row sm:justify-between sm:items-start gap-2">
+                        <div>
+                          <h3 className="font-semibold">
+                            {item.entry.first_name} {item.entry.last_name}
+                          </h3>
+                          <p className="text-sm text-muted-foreground">
+                            {format(new Date(item.entry.date), 'MMMM d, yyyy')}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-2 self-start sm:self-auto">
+                          <span className="inline-flex items-center rounded-full bg-primary/10 px-2.5 py-0.5 text-xs font-medium text-primary">
+                            {item.entry.case_type}
+                          </span>
+                          <Badge variant={item.status === 'failed' ? 'destructive' : 'secondary'}>
+                            {SYNC_STATUS_LABELS[item.status]}
+                          </Badge>
+                        </div>
+                      </div>
+                    </CardHeader>
+                    <CardContent>
+                      <p className="text-sm text-muted-foreground line-clamp-2">
+                        {item.entry.blotter_entry}
+                      </p>
+                      {item.status === 'failed' && (
+                        <div className="mt-2 flex items-center justify-between gap-2">
+                          <p className="text-xs text-destructive">{item.error}</p>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => syncNow({ includeFailed: true })}
+                            disabled={!isOnline}
+                          >
+                            <RefreshCw className="mr-2 h-4 w-4" />
+                            Retry
+                          </Button>
+                        </div>
+                      )}
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            )}
+
             <div className="grid gap-4">
-              {entries.length === 0 ? (
+              {entries.length === 0 && outbox.length === 0 ? (
                 <div className="flex flex-col items-center justify-center py-12 text-center">
                   <BookMarked className="h-12 w-12 text-muted-foreground mb-4" />
                   <h3 className="text-lg font-medium">No entries found</h3>
                   <p className="text-sm text-muted-foreground">
-                    {(firstNameSearch || lastNameSearch)
+                    {params.q || filters.caseTypeIn || filters.after || filters.before
                       ? 'Try adjusting your search terms'
                       : 'Create a new entry to get started'}
                   </p>
@@ -308,29 +527,75 @@ const BlotterList = () => {
                   <Card key={entry.id} className="hover:shadow-md transition-shadow">
                     <CardHeader className="pb-2">
                       <div className="flex flex-col sm:flex-row sm:justify-between sm:items-start gap-2">
-                        <div>
-                          <h3 className="font-semibold">
-                            {entry.first_name} {entry.last_name}
-                          </h3>
-                          <p className="text-sm text-muted-foreground">
-                            {format(new Date(entry.date), 'MMMM d, yyyy')}
-                          </p>
+                        <div className="flex items-start gap-3">
+                          <Avatar className="h-12 w-12">
+                            {entry.id !== undefined && thumbnails[entry.id] && (
+                              <AvatarImage src={thumbnails[entry.id]} alt="" className="object-cover" />
+                            )}
+                            <AvatarFallback>
+                              {`${entry.first_name.charAt(0)}${entry.last_name.charAt(0)}`.toUpperCase()}
+                            </AvatarFallback>
+                          </Avatar>
+                          <div>
+                            <h3 className="font-semibold">
+                              <Highlight text={`${entry.first_name} ${entry.last_name}`} query={searchQuery} />
+                            </h3>
+                            {entry.aliases && entry.aliases.length > 0 && (
+                              <div className="mt-1 flex flex-wrap gap-1">
+                                {entry.aliases.map((alias) => (
+                                  <Badge key={alias} variant="secondary" className="font-normal">
+                                    a.k.a. <Highlight text={alias} query={searchQuery} />
+                                  </Badge>
+                                ))}
+                              </div>
+                            )}
+                            {entry.persons && entry.persons.length > 0 && (
+                              <div className="flex flex-wrap items-center gap-2 text-sm">
+                                {entry.persons.map((person) => (
+                                  <Link
+                                    key={person.id}
+                                    to={`/person/${person.id}`}
+                                    state={{ from: `${location.pathname}${location.search}` }}
+                                    className="inline-flex items-center gap-1 text-primary underline-offset-4 hover:underline"
+                                  >
+                                    {personName(person)}
+                                    {(personCounts[person.id] ?? 0) > 1 && (
+                                      <Badge variant="destructive" className="px-1.5 py-0 text-[10px]">
+                                        Repeat subject · {personCounts[person.id]} entries
+                                      </Badge>
+                                    )}
+                                  </Link>
+                                ))}
+                              </div>
+                            )}
+                            <p className="text-sm text-muted-foreground">
+                              {format(new Date(entry.date), 'MMMM d, yyyy')}
+                            </p>
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-2 self-start sm:self-auto">
+                          <span className="inline-flex items-center rounded-full bg-primary/10 px-2.5 py-0.5 text-xs font-medium text-primary">
+                            <Highlight text={entry.case_type} query={searchQuery} />
+                          </span>
+                          <Badge variant="outline">
+                            {ENTRY_STATUSES.find((s) => s.value === (entry.status ?? 'open'))?.label}
+                          </Badge>
                         </div>
-                        <span className="inline-flex items-center self-start sm:self-auto rounded-full bg-primary/10 px-2.5 py-0.5 text-xs font-medium text-primary">
-                          {entry.case_type}
-                        </span>
                       </div>
                     </CardHeader>
                     <CardContent>
                       <p className="text-sm text-muted-foreground line-clamp-2">
-                        {entry.blotter_entry}
+                        <Highlight text={matchExcerpt(entry.blotter_entry, searchQuery)} query={searchQuery} />
                       </p>
                       <div className="mt-2 flex justify-end">
                         <Button
                           variant="ghost"
                           size="sm"
                           onClick={() => {
-                            navigate(`/entry/${entry.id}`);
+                            // Remember this view so Back from the entry restores it.
+                            navigate(`/entry/${entry.id}`, {
+                              state: { from: `${location.pathname}${location.search}` },
+                            });
                             setIsSidebarOpen(false);
                           }}
                         >
@@ -377,16 +642,26 @@ const BlotterList = () => {
       </SidebarProvider>
 
       {/* Floating Action Button */}
-      <Button
-        onClick={() => {
-          navigate('/add');
-          setIsSidebarOpen(false);
-        }}
-        size="lg"
-        className="fixed right-4 bottom-4 md:right-6 md:bottom-6 h-14 w-14 rounded-full shadow-lg bg-blue-600 hover:bg-blue-700 text-white transition-all duration-200 hover:scale-105"
-      >
-        <Plus className="h-6 w-6" />
-      </Button>
+      {can('entries:create') && (
+        <Button
+          onClick={() => {
+            navigate('/add');
+            setIsSidebarOpen(false);
+          }}
+          size="lg"
+          className="fixed right-4 bottom-4 md:right-6 md:bottom-6 h-14 w-14 rounded-full shadow-lg bg-blue-600 hover:bg-blue-700 text-white transition-all duration-200 hover:scale-105"
+        >
+          <Plus className="h-6 w-6" />
+        </Button>
+      )}
+
+      <ExportDialog
+        open={showExportDialog}
+        onOpenChange={setShowExportDialog}
+        query={{ search: searchInput.text, filters, sort }}
+        count={totalCount}
+        criteria={exportCriteria}
+      />
     </div>
   );
 };
@@ -1,11 +1,24 @@
 import { useState, useEffect } from 'react';
-import { useNavigate, useParams } from 'react-router-dom';
-import { supabase, BlotterEntry } from '@/lib/supabase';
+import { Link, useLocation, useNavigate, useParams } from 'react-router-dom';
+import { BlotterEntry, CIVIL_STATUSES, ENTRY_STATUSES, EntryStatus, SEXES, personName } from '@/lib/types';
+import { PersonPicker } from '@/components/PersonPicker';
+import { AliasInput } from '@/components/AliasInput';
+import { PhotoGallery } from '@/components/PhotoGallery';
+import { EntryHistory } from '@/components/EntryHistory';
+import { SubjectProfileFields } from '@/components/SubjectProfileFields';
+import { computeAge, formatAddress, normalizeSubject, SubjectErrors, validateSubject } from '@/lib/subject';
+import { repository } from '@/lib/repository';
+import { useSync } from '@/contexts/SyncContext';
+import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -16,17 +29,25 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
-import { ArrowLeft, Trash2, Edit2, Save, X } from 'lucide-react';
+import { ArrowLeft, Trash2, Edit2, Save, X, ScrollText, RotateCcw, Printer } from 'lucide-react';
 import { format } from 'date-fns';
 import { toast } from 'sonner';
 
 const EntryDetail = () => {
   const { id } = useParams();
   const navigate = useNavigate();
+  const location = useLocation();
+  const { refreshLists } = useSync();
+  const { can, profile } = useAuth();
+  // The list view (with its filters) we came from, if any.
+  const backTo: string = location.state?.from ?? '/';
   const [entry, setEntry] = useState<BlotterEntry | null>(null);
   const [loading, setLoading] = useState(true);
   const [isEditing, setIsEditing] = useState(false);
+  const [tab, setTab] = useState('details');
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const [deletionReason, setDeletionReason] = useState('');
+  const [errors, setErrors] = useState<SubjectErrors>({});
   const [formData, setFormData] = useState<BlotterEntry>({
     first_name: '',
     last_name: '',
@@ -41,36 +62,33 @@ const EntryDetail = () => {
 
   const fetchEntry = async () => {
     try {
-      const { data, error } = await supabase
-        .from('blotter_entries')
-        .select('*')
-        .eq('id', id)
-        .single();
-
-      if (error) throw error;
+      const data = await repository.getEntry(Number(id));
       setEntry(data);
       setFormData(data);
     } catch (error: any) {
       toast.error('Error loading entry: ' + error.message);
-      navigate('/');
+      navigate(backTo);
     } finally {
       setLoading(false);
     }
   };
 
   const handleUpdate = async () => {
+    const validation = validateSubject(formData);
+    setErrors(validation);
+    if (Object.keys(validation).length > 0) {
+      toast.error('Please correct the highlighted fields');
+      return;
+    }
+
     try {
-      // Exclude id and created_at from update
-      const { id: _, created_at: __, ...updateData } = formData;
+      // Exclude id, created_at and the read-only persons embed from update
+      const { id: _, created_at: __, persons: ___, ...updateData } = formData;
       
-      const { error } = await supabase
-        .from('blotter_entries')
-        .update(updateData)
-        .eq('id', id);
-
-      if (error) throw error;
+      const updated = await repository.updateEntry(Number(id), normalizeSubject(updateData));
 
-      setEntry(formData);
+      setEntry(updated);
+      setFormData(updated);
       setIsEditing(false);
       toast.success('Entry updated successfully');
     } catch (error: any) {
@@ -79,18 +97,29 @@ const EntryDetail = () => {
   };
 
   const handleDelete = async () => {
+    const entryId = Number(id);
     try {
-      const { error } = await supabase.from('blotter_entries').delete().eq('id', id);
+      await repository.deleteEntry(entryId, deletionReason.trim());
 
-      if (error) throw error;
-
-      toast.success('Entry deleted successfully');
-      navigate('/');
+      toast.success('Entry moved to trash', {
+        action: { label: 'Undo', onClick: () => handleRestore(entryId) },
+      });
+      navigate(backTo);
     } catch (error: any) {
       toast.error('Error deleting entry: ' + error.message);
     }
   };
 
+  const handleRestore = async (entryId: number) => {
+    try {
+      await repository.restoreEntries([entryId]);
+      refreshLists();
+      toast.success('Entry restored');
+    } catch (error) {
+      toast.error('Error restoring entry: ' + (error as Error).message);
+    }
+  };
+
   const handleChange = (
     e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
   ) => {
@@ -110,6 +139,26 @@ const EntryDetail = () => {
 
   if (!entry) return null;
 
+  // Trash managers restore anything; others can only undo their own deletions.
+  const canRestore =
+    can('entries:manage_trash') || (can('entries:delete') && entry.deleted_by === profile?.email);
+
+  // Profile fields that were filled in, as label/value pairs.
+  const age = computeAge(entry.date_of_birth);
+  const subjectDetails = [
+    ['Middle Name', entry.middle_name],
+    ['Suffix', entry.suffix],
+    [
+      'Date of Birth',
+      entry.date_of_birth && `${format(new Date(entry.date_of_birth), 'MMMM dd, yyyy')} (age ${age})`,
+    ],
+    ['Sex', SEXES.find((sex) => sex.value === entry.sex)?.label],
+    ['Civil Status', CIVIL_STATUSES.find((status) => status.value === entry.civil_status)?.label],
+    ['Address', formatAddress(entry)],
+    ['Contact Number', entry.contact_number],
+    ['ID Presented', entry.id_type && `${entry.id_type} ${entry.id_number ?? ''}`.trim()],
+  ].filter((detail): detail is [string, string] => Boolean(detail[1]));
+
   return (
     <div className="min-h-screen bg-secondary">
       {/* Header */}
@@ -119,7 +168,7 @@ const EntryDetail = () => {
             <Button
               variant="ghost"
               size="icon"
-              onClick={() => navigate('/')}
+              onClick={() => navigate(backTo)}
               className="text-primary-foreground hover:bg-primary/80"
             >
               <ArrowLeft className="h-5 w-5" />
@@ -135,6 +184,7 @@ const EntryDetail = () => {
                   onClick={() => {
                     setIsEditing(false);
                     setFormData(entry);
+                    setErrors({});
                   }}
                   className="text-primary-foreground hover:bg-primary/80"
                 >
@@ -149,24 +199,51 @@ const EntryDetail = () => {
                   <Save className="h-5 w-5" />
                 </Button>
               </>
-            ) : (
+            ) : entry.deleted_at ? null : (
               <>
                 <Button
                   variant="ghost"
                   size="icon"
-                  onClick={() => setIsEditing(true)}
-                  className="text-primary-foreground hover:bg-primary/80"
-                >
-                  <Edit2 className="h-5 w-5" />
-                </Button>
-                <Button
-                  variant="ghost"
-                  size="icon"
-                  onClick={() => setShowDeleteDialog(true)}
+                  onClick={() => navigate(`/entry/${id}/print`)}
                   className="text-primary-foreground hover:bg-primary/80"
+                  aria-label="Print"
                 >
-                  <Trash2 className="h-5 w-5" />
+                  <Printer className="h-5 w-5" />
                 </Button>
+                {can('audit:view') && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => navigate(`/audit?entry=${id}`)}
+                    className="text-primary-foreground hover:bg-primary/80"
+                    aria-label="Audit log"
+                  >
+                    <ScrollText className="h-5 w-5" />
+                  </Button>
+                )}
+                {can('entries:edit') && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => {
+                      setIsEditing(true);
+                      setTab('details');
+                    }}
+                    className="text-primary-foreground hover:bg-primary/80"
+                  >
+                    <Edit2 className="h-5 w-5" />
+                  </Button>
+                )}
+                {can('entries:delete') && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setShowDeleteDialog(true)}
+                    className="text-primary-foreground hover:bg-primary/80"
+                  >
+                    <Trash2 className="h-5 w-5" />
+                  </Button>
+                )}
               </>
             )}
           </div>
@@ -175,109 +252,272 @@ const EntryDetail = () => {
 
       {/* Content */}
       <div className="p-4">
-        <Card>
-          <CardHeader>
-            <CardTitle>
-              {isEditing ? 'Edit Entry' : 'View Entry'}
-            </CardTitle>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            {isEditing ? (
-              <>
-                <div className="grid grid-cols-2 gap-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="first_name">First Name</Label>
-                    <Input
-                      id="first_name"
-                      name="first_name"
-                      value={formData.first_name}
-                      onChange={handleChange}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="last_name">Last Name</Label>
-                    <Input
-                      id="last_name"
-                      name="last_name"
-                      value={formData.last_name}
-                      onChange={handleChange}
+        {entry.deleted_at && (
+          <Alert variant="destructive" className="mb-4 bg-background">
+            <Trash2 className="h-4 w-4" />
+            <AlertTitle>This entry is in the trash</AlertTitle>
+            <AlertDescription className="space-y-2">
+              <p>
+                Deleted {format(new Date(entry.deleted_at), 'MMMM d, yyyy h:mm a')}
+                {entry.deleted_by && ` by ${entry.deleted_by}`}
+                {entry.deletion_reason && `: ${entry.deletion_reason}`}
+              </p>
+              {canRestore && (
+                <Button variant="outline" size="sm" onClick={() => handleRestore(Number(id)).then(fetchEntry)}>
+                  <RotateCcw className="mr-2 h-4 w-4" />
+                  Restore
+                </Button>
+              )}
+            </AlertDescription>
+          </Alert>
+        )}
+        <Tabs value={tab} onValueChange={setTab}>
+          {!isEditing && (
+            <TabsList className="mb-4">
+              <TabsTrigger value="details">Details</TabsTrigger>
+              <TabsTrigger value="history">History</TabsTrigger>
+            </TabsList>
+          )}
+          <TabsContent value="details" className="mt-0">
+            <Card>
+              <CardHeader>
+                <CardTitle>
+                  {isEditing ? 'Edit Entry' : 'View Entry'}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {isEditing ? (
+                  <>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="first_name">First Name</Label>
+                        <Input
+                          id="first_name"
+                          name="first_name"
+                          value={formData.first_name}
+                          onChange={handleChange}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="last_name">Last Name</Label>
+                        <Input
+                          id="last_name"
+                          name="last_name"
+                          value={formData.last_name}
+                          onChange={handleChange}
+                        />
+                      </div>
+                    </div>
+                    <SubjectProfileFields
+                      value={formData}
+                      onChange={(changes) => setFormData((prev) => ({ ...prev, ...changes }))}
+                      errors={errors}
                     />
-                  </div>
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="case_type">Case Type</Label>
-                  <Input
-                    id="case_type"
-                    name="case_type"
-                    value={formData.case_type}
-                    onChange={handleChange}
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="date">Date</Label>
-                  <Input
-                    id="date"
-                    name="date"
-                    type="date"
-                    value={formData.date}
-                    onChange={handleChange}
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="blotter_entry">Blotter Entry</Label>
-                  <Textarea
-                    id="blotter_entry"
-                    name="blotter_entry"
-                    value={formData.blotter_entry}
-                    onChange={handleChange}
-                    rows={6}
-                  />
-                </div>
-              </>
-            ) : (
-              <>
-                <div className="grid grid-cols-2 gap-4">
-                  <div>
-                    <p className="text-sm text-muted-foreground">First Name</p>
-                    <p className="font-medium">{entry.first_name}</p>
-                  </div>
-                  <div>
-                    <p className="text-sm text-muted-foreground">Last Name</p>
-                    <p className="font-medium">{entry.last_name}</p>
-                  </div>
-                </div>
-                <div>
-                  <p className="text-sm text-muted-foreground">Case Type</p>
-                  <p className="font-medium">{entry.case_type}</p>
-                </div>
-                <div>
-                  <p className="text-sm text-muted-foreground">Date</p>
-                  <p className="font-medium">
-                    {format(new Date(entry.date), 'MMMM dd, yyyy')}
-                  </p>
-                </div>
-                <div>
-                  <p className="text-sm text-muted-foreground">Blotter Entry</p>
-                  <p className="mt-2 whitespace-pre-wrap">{entry.blotter_entry}</p>
-                </div>
-              </>
+                    <div className="space-y-2">
+                      <Label htmlFor="aliases">Aliases</Label>
+                      <AliasInput
+                        id="aliases"
+                        value={formData.aliases ?? []}
+                        onChange={(aliases) => setFormData((prev) => ({ ...prev, aliases }))}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="case_type">Case Type</Label>
+                      <Input
+                        id="case_type"
+                        name="case_type"
+                        value={formData.case_type}
+                        onChange={handleChange}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="status">Status</Label>
+                      <Select
+                        value={formData.status ?? 'open'}
+                        onValueChange={(value) => setFormData((prev) => ({ ...prev, status: value as EntryStatus }))}
+                      >
+                        <SelectTrigger id="status">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {ENTRY_STATUSES.map((status) => (
+                            <SelectItem key={status.value} value={status.value}>
+                              {status.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Persons Involved</Label>
+                      <PersonPicker
+                        value={formData.persons ?? []}
+                        onChange={(persons) =>
+                          setFormData((prev) => ({ ...prev, persons, person_ids: persons.map((person) => person.id) }))
+                        }
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="date">Date</Label>
+                      <Input
+                        id="date"
+                        name="date"
+                        type="date"
+                        value={formData.date}
+                        onChange={handleChange}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="blotter_entry">Blotter Entry</Label>
+                      <Textarea
+                        id="blotter_entry"
+                        name="blotter_entry"
+                        value={formData.blotter_entry}
+                        onChange={handleChange}
+                        rows={6}
+                      />
+                    </div>
+                  </>
+                ) : (
+                  <>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <p className="text-sm text-muted-foreground">First Name</p>
+                        <p className="font-medium">{entry.first_name}</p>
+                      </div>
+                      <div>
+                        <p className="text-sm text-muted-foreground">Last Name</p>
+                        <p className="font-medium">{entry.last_name}</p>
+                      </div>
+                    </div>
+                    {subjectDetails.length > 0 && (
+                      <div className="grid grid-cols-2 gap-4">
+                        {subjectDetails.map(([label, value]) => (
+                          <div key={label}>
+                            <p className="text-sm text-muted-foreground">{label}</p>
+                            <p className="font-medium">{value}</p>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                    {entry.aliases && entry.aliases.length > 0 && (
+                      <div>
+                        <p className="text-sm text-muted-foreground">Aliases</p>
+                        <div className="mt-1 flex flex-wrap gap-2">
+                          {entry.aliases.map((alias) => (
+                            <Badge key={alias} variant="secondary">
+                              {alias}
+                            </Badge>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+                    <div>
+                      <p className="text-sm text-muted-foreground">Case Type</p>
+                      <p className="font-medium">{entry.case_type}</p>
+                    </div>
+                    {entry.persons && entry.persons.length > 0 && (
+                      <div>
+                        <p className="text-sm text-muted-foreground">Persons Involved</p>
+                        <div className="mt-1 flex flex-wrap gap-x-4 gap-y-1">
+                          {entry.persons.map((person) => (
+                            <Link
+                              key={person.id}
+                              to={`/person/${person.id}`}
+                              state={{ from: location.pathname }}
+                              className="font-medium text-primary underline-offset-4 hover:underline"
+                            >
+                              {personName(person)}
+                            </Link>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+                    <div>
+                      <p className="text-sm text-muted-foreground">Status</p>
+                      <p className="font-medium">
+                        {ENTRY_STATUSES.find((status) => status.value === (entry.status ?? 'open'))?.label}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-sm text-muted-foreground">Date</p>
+                      <p className="font-medium">
+                        {format(new Date(entry.date), 'MMMM dd, yyyy')}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-sm text-muted-foreground">Blotter Entry</p>
+                      <p className="mt-2 whitespace-pre-wrap">{entry.blotter_entry}</p>
+                    </div>
+                  </>
+                )}
+              </CardContent>
+            </Card>
+
+            {!isEditing && (
+              <Card className="mt-4">
+                <CardHeader>
+                  <CardTitle>Photos</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <PhotoGallery entryId={Number(id)} />
+                </CardContent>
+              </Card>
             )}
-          </CardContent>
-        </Card>
+          </TabsContent>
+          <TabsContent value="history" className="mt-0">
+            <Card>
+              <CardHeader>
+                <CardTitle>Revision History</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <EntryHistory
+                  entryId={Number(id)}
+                  entry={entry}
+                  canRestore={can('entries:edit') && !entry.deleted_at}
+                  onRestore={(updated) => {
+                    setEntry(updated);
+                    setFormData(updated);
+                  }}
+                />
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
       </div>
 
       {/* Delete Confirmation Dialog */}
-      <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
+      <AlertDialog
+        open={showDeleteDialog}
+        onOpenChange={(open) => {
+          setShowDeleteDialog(open);
+          if (!open) setDeletionReason('');
+        }}
+      >
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle>Delete Entry</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete this entry? This action cannot be undone.
+              The entry will be moved to the trash, where it can be restored until it is purged.
             </AlertDialogDescription>
           </AlertDialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="deletion_reason">Reason for deleting</Label>
+            <Textarea
+              id="deletion_reason"
+              value={deletionReason}
+              onChange={(e) => setDeletionReason(e.target.value)}
+              placeholder="e.g. Duplicate of another entry"
+              rows={3}
+            />
+          </div>
           <AlertDialogFooter>
             <AlertDialogCancel>Cancel</AlertDialogCancel>
-            <AlertDialogAction onClick={handleDelete} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+            <AlertDialogAction
+              onClick={handleDelete}
+              disabled={!deletionReason.trim()}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
               Delete
             </AlertDialogAction>
           </AlertDialogFooter>
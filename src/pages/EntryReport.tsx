@@ -0,0 +1,179 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, FileDown, Printer } from 'lucide-react';
+import { BlotterEntry } from '@/lib/types';
+import { repository } from '@/lib/repository';
+import { appConfig } from '@/lib/config';
+import {
+  CERTIFICATION,
+  downloadEntryReportPdf,
+  entryNumber,
+  PaperSize,
+  ReportField,
+  reportCaseFields,
+  reportSubjectFields,
+  Signatories,
+} from '@/lib/report';
+import { useAuth } from '@/contexts/AuthContext';
+import { PrintPage, ReportCertification, ReportLetterhead, ReportSettings } from '@/components/PrintLayout';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { toast } from 'sonner';
+
+const FieldTable = ({ title, fields }: { title: string; fields: ReportField[] }) => (
+  <table className="mb-5 w-full border-collapse text-sm">
+    <thead>
+      <tr>
+        <th colSpan={2} className="border border-neutral-400 bg-neutral-100 px-2 py-1 text-left">
+          {title}
+        </th>
+      </tr>
+    </thead>
+    <tbody>
+      {fields.map(({ label, value }) => (
+        <tr key={label} className="break-inside-avoid">
+          <th className="w-40 border border-neutral-400 px-2 py-1 text-left align-top font-semibold">{label}</th>
+          <td className="border border-neutral-400 px-2 py-1">{value}</td>
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+const EntryReport = () => {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const { user, profile } = useAuth();
+  const [entry, setEntry] = useState<BlotterEntry | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [paper, setPaper] = useState<PaperSize>('a4');
+  const [signatories, setSignatories] = useState<Signatories>({ dutyOfficer: '', deskSergeant: '' });
+  const [downloading, setDownloading] = useState(false);
+  // Stamped when the page opens; the footer shows it on paper and in the PDF.
+  const [printedAt] = useState(() => new Date());
+
+  const station = profile?.station || appConfig.stationName;
+  const printedBy = user?.email ?? 'Unknown user';
+
+  useEffect(() => {
+    repository
+      .getEntry(Number(id))
+      .then(setEntry)
+      .catch((error) => {
+        toast.error('Error loading entry: ' + (error as Error).message);
+        navigate('/');
+      })
+      .finally(() => setLoading(false));
+  }, [id, navigate]);
+
+  const handleDownload = async () => {
+    if (!entry) return;
+    setDownloading(true);
+    try {
+      await downloadEntryReportPdf(entry, {
+        letterhead: appConfig.letterhead,
+        station,
+        logoUrl: appConfig.letterheadLogo || undefined,
+        paper,
+        ...signatories,
+        printedBy,
+        printedAt,
+      });
+    } catch (error) {
+      toast.error('Error creating PDF: ' + (error as Error).message);
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent"></div>
+      </div>
+    );
+  }
+
+  if (!entry) return null;
+
+  return (
+    <div className="min-h-screen bg-secondary print:min-h-0 print:bg-white">
+      <header className="sticky top-0 z-10 bg-primary px-4 py-4 text-primary-foreground shadow-md print:hidden">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => navigate(`/entry/${id}`)}
+              className="text-primary-foreground hover:bg-primary/80"
+            >
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <h1 className="text-xl font-bold">Print Entry</h1>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={handleDownload}
+              disabled={downloading}
+              className="text-primary-foreground hover:bg-primary/80"
+              aria-label="Download PDF"
+            >
+              <FileDown className="h-5 w-5" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => window.print()}
+              className="text-primary-foreground hover:bg-primary/80"
+              aria-label="Print"
+            >
+              <Printer className="h-5 w-5" />
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <div className="mx-auto max-w-4xl space-y-4 p-4 print:hidden">
+        {entry.deleted_at && (
+          <Alert variant="destructive">
+            <AlertDescription>This entry is in the trash. Restore it before issuing a copy.</AlertDescription>
+          </Alert>
+        )}
+        <ReportSettings
+          paper={paper}
+          onPaperChange={setPaper}
+          signatories={signatories}
+          onSignatoriesChange={setSignatories}
+        />
+      </div>
+
+      <PrintPage paper={paper} footer={`Entry No. ${entryNumber(entry)}`} printedAt={printedAt} printedBy={printedBy}>
+        <ReportLetterhead station={station} title="POLICE BLOTTER ENTRY" subtitle="Certified True Copy" />
+
+        <FieldTable title="Entry" fields={reportCaseFields(entry)} />
+        <FieldTable title="Subject" fields={reportSubjectFields(entry)} />
+
+        <table className="mb-6 w-full border-collapse text-sm">
+          <thead>
+            <tr>
+              <th className="border border-neutral-400 bg-neutral-100 px-2 py-1 text-left">Narrative</th>
+            </tr>
+          </thead>
+          <tbody>
+            <tr>
+              <td className="whitespace-pre-wrap border border-neutral-400 px-3 py-2 leading-relaxed">
+                {entry.blotter_entry}
+              </td>
+            </tr>
+          </tbody>
+        </table>
+
+        <ReportCertification text={CERTIFICATION} signatories={signatories} />
+      </PrintPage>
+    </div>
+  );
+};
+
+export default EntryReport;
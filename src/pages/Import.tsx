@@ -0,0 +1,451 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, Columns3, FileSpreadsheet, History, Upload } from 'lucide-react';
+import { BlotterEntry } from '@/lib/types';
+import { repository } from '@/lib/repository';
+import {
+  checkImportRow,
+  flagRepeatedUpdates,
+  hasIssues,
+  importAction,
+  ImportRow,
+  readImportRows,
+  toEntryUpdate,
+  toNewEntry,
+} from '@/lib/importer';
+import { DuplicateResolution, findImportDuplicates } from '@/lib/duplicates';
+import { fetchAllEntries } from '@/lib/export';
+import {
+  applyMapping,
+  ColumnMapping,
+  findTemplate,
+  mappingProblems,
+  sheetHeaders,
+  suggestMapping,
+  templateMapping,
+} from '@/lib/importMapping';
+import {
+  cancelImport,
+  getPendingImport,
+  IMPORT_CHUNK_SIZE,
+  ImportProgress,
+  importProgress,
+  MAX_ATTEMPTS,
+  PendingImport,
+  runImport,
+  startImport,
+} from '@/lib/bulkImport';
+import { useSync } from '@/contexts/SyncContext';
+import { useDebounce } from '@/hooks/useDebounce';
+import { ImportColumnMapping } from '@/components/ImportColumnMapping';
+import { ImportPreview } from '@/components/ImportPreview';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { toast } from 'sonner';
+
+type Sheet = {
+  fileName: string;
+  headers: string[];
+  // As read, keyed by the file's own headers.
+  rows: Record<string, unknown>[];
+};
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+// The span of the rows' dates, as a string so the effect below can depend on it.
+const dateSpan = (rows: ImportRow[] | null) => {
+  const dates = (rows ?? []).map((row) => row.entry.date).filter((date) => ISO_DATE.test(date)).sort();
+  return dates.length ? `${dates[0]}/${dates[dates.length - 1]}` : '';
+};
+
+const Import = () => {
+  const navigate = useNavigate();
+  const { refreshLists } = useSync();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [sheet, setSheet] = useState<Sheet | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [template, setTemplate] = useState<string | null>(null);
+  // Set once the mapping is confirmed; null while still on the mapping step.
+  const [rows, setRows] = useState<ImportRow[] | null>(null);
+  const [caseTypes, setCaseTypes] = useState<string[]>([]);
+  // Entries already in the blotter over the rows' dates; null while loading.
+  const [existing, setExisting] = useState<BlotterEntry[] | null>(null);
+  const [reading, setReading] = useState(false);
+  const [importing, setImporting] = useState(false);
+  // An import that has started saving, this visit or before a reload.
+  const [pending, setPending] = useState<PendingImport | null>(null);
+  const [progress, setProgress] = useState<ImportProgress | null>(null);
+  // Read between chunks, so a pause takes effect once the current one is saved.
+  const pauseRef = useRef(false);
+  const [pausing, setPausing] = useState(false);
+
+  useEffect(() => {
+    repository
+      .listCaseTypes()
+      .then(setCaseTypes)
+      .catch((error) => toast.error('Error loading case types: ' + (error as Error).message));
+  }, []);
+
+  useEffect(() => {
+    const loadPending = async () => {
+      const unfinished = await getPendingImport();
+      if (!unfinished) return;
+      setPending(unfinished);
+      setProgress(await importProgress(unfinished));
+    };
+    loadPending().catch((error) => toast.error('Error loading unfinished import: ' + (error as Error).message));
+  }, []);
+
+  // Refetched when edits move a date outside the span loaded so far.
+  const currentSpan = useMemo(() => dateSpan(rows), [rows]);
+  const span = useDebounce(currentSpan, 500);
+  useEffect(() => {
+    if (!span) {
+      setExisting([]);
+      return;
+    }
+    let cancelled = false;
+    const [after, before] = span.split('/');
+    setExisting(null);
+    fetchAllEntries({ filters: { after, before } })
+      .then((entries) => !cancelled && setExisting(entries))
+      .catch((error) => {
+        if (cancelled) return;
+        toast.error('Error checking for duplicates: ' + (error as Error).message);
+        setExisting([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [span]);
+
+  const rowChecks = useMemo(() => (rows ?? []).map((row) => checkImportRow(row.entry, { caseTypes })), [rows, caseTypes]);
+  const duplicates = useMemo(() => (rows && existing ? findImportDuplicates(rows, existing) : []), [rows, existing]);
+  const checks = useMemo(() => flagRepeatedUpdates(rows ?? [], duplicates, rowChecks), [rows, duplicates, rowChecks]);
+  const actions = (rows ?? []).map((row, i) => importAction(row, duplicates[i]));
+
+  const included = (rows ?? []).filter((row) => !row.excluded);
+  const toCreate = (rows ?? []).filter((_, i) => actions[i] === 'create');
+  const toUpdate = (rows ?? []).filter((_, i) => actions[i] === 'update');
+  const skippedDuplicates = (rows ?? []).filter((row, i) => !row.excluded && duplicates[i] && actions[i] === 'skip');
+  const blocked = (rows ?? []).filter((_, i) => actions[i] !== 'skip' && hasIssues(checks[i].errors)).length;
+  const checkingDuplicates = rows !== null && (existing === null || span !== currentSpan);
+  const mappingIssues = mappingProblems(mapping);
+  const mappingIncomplete = mappingIssues.missing.length > 0 || mappingIssues.duplicates.length > 0;
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Let the same file be picked again after fixing it.
+    e.target.value = '';
+    if (!file) return;
+
+    setReading(true);
+    try {
+      const XLSX = await import('xlsx');
+      const workbook = XLSX.read(new Uint8Array(await file.arrayBuffer()), { type: 'array' });
+      const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+      const data = XLSX.utils.sheet_to_json(worksheet) as Record<string, unknown>[];
+      if (data.length === 0) {
+        toast.error('The file has no rows to import');
+        return;
+      }
+
+      // A saved template that knows these headers beats fresh suggestions.
+      const headers = sheetHeaders(data);
+      const saved = findTemplate(headers);
+      setSheet({ fileName: file.name, headers, rows: data });
+      setMapping(saved ? templateMapping(saved, headers) : suggestMapping(headers));
+      setTemplate(saved?.name ?? null);
+      setRows(null);
+    } catch (error) {
+      toast.error('Error reading file: ' + (error as Error).message);
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const handleMappingDone = () => {
+    if (!sheet) return;
+    setRows(readImportRows(applyMapping(sheet.rows, mapping)).rows);
+  };
+
+  const handleEntryChange = (rowNumber: number, changes: Partial<BlotterEntry>) =>
+    setRows((prev) =>
+      prev && prev.map((row) => (row.rowNumber === rowNumber ? { ...row, entry: { ...row.entry, ...changes } } : row))
+    );
+
+  const handleExcludedChange = (rowNumbers: number[], excluded: boolean) => {
+    const changed = new Set(rowNumbers);
+    setRows((prev) => prev && prev.map((row) => (changed.has(row.rowNumber) ? { ...row, excluded } : row)));
+  };
+
+  const handleResolutionChange = (rowNumbers: number[], resolution: DuplicateResolution) => {
+    const changed = new Set(rowNumbers);
+    setRows((prev) => prev && prev.map((row) => (changed.has(row.rowNumber) ? { ...row, resolution } : row)));
+  };
+
+  const sendRows = async (current: PendingImport) => {
+    setImporting(true);
+    pauseRef.current = false;
+    try {
+      const finished = await runImport(current, setProgress, () => pauseRef.current);
+      refreshLists();
+      if (finished) {
+        const count = current.entries.length;
+        const updated = current.updates.length;
+        toast.success(
+          `Imported ${count} ${count === 1 ? 'entry' : 'entries'}` + (updated ? `, updated ${updated}` : '')
+        );
+        navigate('/');
+      } else {
+        toast('Import paused. Resume it here, even after closing the page.');
+      }
+    } catch (error) {
+      refreshLists();
+      // Whatever was saved stays in the batch; resuming carries on from there.
+      toast.error('Error importing entries: ' + (error as Error).message);
+    } finally {
+      setProgress((prev) => prev && { saved: prev.saved, total: prev.total });
+      setPausing(false);
+      setImporting(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setImporting(true);
+    try {
+      const updates = (rows ?? []).flatMap((row, i) => {
+        const duplicate = duplicates[i];
+        return actions[i] === 'update' && duplicate?.kind === 'existing'
+          ? [{ id: duplicate.entry.id as number, changes: toEntryUpdate(row.entry) }]
+          : [];
+      });
+      const started = await startImport(
+        sheet?.fileName ?? 'Import',
+        toCreate.map((row) => toNewEntry(row.entry)),
+        updates
+      );
+      setPending(started);
+      setProgress({ saved: 0, total: started.updates.length + started.entries.length });
+      await sendRows(started);
+    } catch (error) {
+      toast.error('Error importing entries: ' + (error as Error).message);
+      setImporting(false);
+    }
+  };
+
+  const handleDiscard = async () => {
+    if (!pending) return;
+    try {
+      await cancelImport(pending);
+      setPending(null);
+      setProgress(null);
+      toast.success('Import stopped. Entries it already saved can be rolled back from the import history.');
+    } catch (error) {
+      toast.error('Error stopping import: ' + (error as Error).message);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-secondary">
+      <header className="sticky top-0 z-10 bg-primary px-4 py-4 text-primary-foreground shadow-md">
+        <div className="flex items-center gap-3">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => navigate('/settings')}
+            className="text-primary-foreground hover:bg-primary/80"
+          >
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <h1 className="flex-1 text-xl font-bold">Import Entries</h1>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => navigate('/imports')}
+            className="text-primary-foreground hover:bg-primary/80"
+            aria-label="Import history"
+          >
+            <History className="h-5 w-5" />
+          </Button>
+        </div>
+      </header>
+
+      <div className="space-y-4 p-4">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".xlsx,.xls,.csv"
+          onChange={handleFile}
+          className="hidden"
+        />
+
+        {pending && progress ? (
+          <Card className="mx-auto max-w-2xl">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <FileSpreadsheet className="h-5 w-5" />
+                {importing ? 'Importing' : 'Unfinished Import'} · {pending.file_name}
+              </CardTitle>
+              <CardDescription>
+                {importing
+                  ? `Saving in chunks of up to ${IMPORT_CHUNK_SIZE} rows. Keep this page open; if it closes, the import resumes from here.`
+                  : 'This import stopped before every row was saved. Resume it to save the rest, or stop it for good.'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <Progress value={progress.total ? (progress.saved / progress.total) * 100 : 100} />
+              <p className="text-sm text-muted-foreground">
+                Saved {progress.saved} of {progress.total} {progress.total === 1 ? 'row' : 'rows'}
+              </p>
+              {progress.retry && (
+                <p className="text-sm text-destructive">
+                  {progress.retry.error}. Trying again ({progress.retry.attempt} of {MAX_ATTEMPTS - 1})...
+                </p>
+              )}
+              <div className="flex flex-wrap justify-end gap-2">
+                {importing ? (
+                  <Button
+                    variant="outline"
+                    disabled={pausing}
+                    onClick={() => {
+                      pauseRef.current = true;
+                      setPausing(true);
+                    }}
+                  >
+                    {pausing ? 'Pausing...' : 'Pause'}
+                  </Button>
+                ) : (
+                  <>
+                    <Button variant="outline" onClick={handleDiscard}>
+                      Stop Import
+                    </Button>
+                    <Button onClick={() => sendRows(pending)}>Resume</Button>
+                  </>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        ) : !sheet ? (
+          <Card className="mx-auto max-w-2xl">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Upload className="h-5 w-5" />
+                Choose a File
+              </CardTitle>
+              <CardDescription>
+                An Excel (.xlsx) or CSV file with one entry per row. Next you match its columns to entry fields, then
+                review every row before anything is saved.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button onClick={() => fileInputRef.current?.click()} disabled={reading} className="w-full">
+                {reading ? 'Reading...' : 'Select File'}
+              </Button>
+              <p className="mt-3 text-sm text-muted-foreground">
+                Headers can be your own. The file needs a narrative, first and last name (or one full name column),
+                case type and date; subject details such as address, contact number and ID are optional.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <Card>
+              <CardContent className="flex flex-col gap-3 pt-6 sm:flex-row sm:items-center sm:justify-between">
+                <div className="flex items-center gap-3">
+                  <FileSpreadsheet className="h-8 w-8 text-primary" />
+                  <div>
+                    <p className="font-medium">{sheet.fileName}</p>
+                    {!rows ? (
+                      <p className="text-sm text-muted-foreground">
+                        Step 1 of 2: match {sheet.headers.length} columns to entry fields
+                      </p>
+                    ) : (
+                      <p className="text-sm text-muted-foreground">
+                        Step 2 of 2: {included.length} of {rows.length} {rows.length === 1 ? 'row' : 'rows'} included
+                        {checkingDuplicates
+                          ? ' · Checking for duplicates...'
+                          : skippedDuplicates.length > 0 &&
+                            ` · ${skippedDuplicates.length} probable ${
+                              skippedDuplicates.length === 1 ? 'duplicate' : 'duplicates'
+                            } skipped`}
+                        {blocked > 0 && (
+                          <span className="text-destructive">
+                            {' '}
+                            · Fix or exclude {blocked} {blocked === 1 ? 'row' : 'rows'} with errors to import
+                          </span>
+                        )}
+                        {toUpdate.length > 0 &&
+                          ` · ${toUpdate.length} existing ${
+                            toUpdate.length === 1 ? 'entry' : 'entries'
+                          } will be updated; rolling back the import won't undo that`}
+                      </p>
+                    )}
+                  </div>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <Button
+                    variant="outline"
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={reading || importing}
+                  >
+                    Choose Another File
+                  </Button>
+                  {!rows ? (
+                    <Button onClick={handleMappingDone} disabled={mappingIncomplete}>
+                      Review Rows
+                    </Button>
+                  ) : (
+                    <>
+                      {/* Going back rebuilds the rows, dropping edits made in the preview. */}
+                      <Button variant="outline" onClick={() => setRows(null)} disabled={importing}>
+                        <Columns3 className="mr-2 h-4 w-4" />
+                        Columns
+                      </Button>
+                      <Button
+                        onClick={handleImport}
+                        disabled={
+                          importing || checkingDuplicates || blocked > 0 || toCreate.length + toUpdate.length === 0
+                        }
+                      >
+                        {importing
+                          ? 'Importing...'
+                          : `Import ${toCreate.length} ${toCreate.length === 1 ? 'Entry' : 'Entries'}` +
+                            (toUpdate.length ? `, Update ${toUpdate.length}` : '')}
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+
+            {!rows ? (
+              <ImportColumnMapping
+                key={sheet.fileName}
+                headers={sheet.headers}
+                rows={sheet.rows.slice(0, 20)}
+                mapping={mapping}
+                onMappingChange={setMapping}
+                template={template}
+                onTemplateChange={setTemplate}
+              />
+            ) : (
+              <ImportPreview
+                rows={rows}
+                checks={checks}
+                duplicates={duplicates}
+                caseTypes={caseTypes}
+                onEntryChange={handleEntryChange}
+                onExcludedChange={handleExcludedChange}
+                onResolutionChange={handleResolutionChange}
+              />
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Import;
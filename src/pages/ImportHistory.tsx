@@ -0,0 +1,199 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { IMPORT_BATCH_STATUSES, ImportBatch, ImportBatchStatus } from '@/lib/types';
+import { repository } from '@/lib/repository';
+import { useAuth } from '@/contexts/AuthContext';
+import { useSync } from '@/contexts/SyncContext';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { ArrowLeft, FileSpreadsheet, Undo2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+
+const STATUS_VARIANTS: Record<ImportBatchStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  in_progress: 'secondary',
+  completed: 'default',
+  cancelled: 'outline',
+  rolled_back: 'destructive',
+};
+
+const statusLabel = (status: ImportBatchStatus) =>
+  IMPORT_BATCH_STATUSES.find((item) => item.value === status)?.label ?? status;
+
+const ImportHistory = () => {
+  const navigate = useNavigate();
+  const { can } = useAuth();
+  const { refreshLists } = useSync();
+  const [batches, setBatches] = useState<ImportBatch[]>([]);
+  const [loading, setLoading] = useState(true);
+  // The batch awaiting confirmation of a rollback.
+  const [rollingBack, setRollingBack] = useState<ImportBatch | null>(null);
+  const [reason, setReason] = useState('');
+
+  const fetchBatches = useCallback(async () => {
+    try {
+      setLoading(true);
+      setBatches(await repository.listImportBatches());
+    } catch (error) {
+      toast.error('Error loading imports: ' + (error as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchBatches();
+  }, [fetchBatches]);
+
+  const closeDialog = () => {
+    setRollingBack(null);
+    setReason('');
+  };
+
+  const handleRollback = async () => {
+    if (!rollingBack) return;
+    if (!reason.trim()) {
+      toast.error('Please give a reason for rolling back');
+      return;
+    }
+    try {
+      const ids = await repository.rollbackImportBatch(rollingBack.id, reason.trim());
+      refreshLists();
+      toast.success(`Moved ${ids.length} ${ids.length === 1 ? 'entry' : 'entries'} from ${rollingBack.file_name} to trash`);
+      closeDialog();
+      fetchBatches();
+    } catch (error) {
+      toast.error('Error rolling back import: ' + (error as Error).message);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-secondary">
+      {/* Header */}
+      <header className="sticky top-0 z-10 bg-primary px-4 py-4 text-primary-foreground shadow-md">
+        <div className="flex items-center gap-3">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => navigate('/import')}
+            className="text-primary-foreground hover:bg-primary/80"
+          >
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <h1 className="text-xl font-bold">Import History</h1>
+        </div>
+      </header>
+
+      {/* Content */}
+      <div className="space-y-4 p-4">
+        <p className="text-sm text-muted-foreground">
+          Every import and the entries it saved. Rolling back an import moves all of its entries to the trash, where
+          they can still be restored. Existing entries it updated keep the update; their history shows what changed.
+        </p>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent"></div>
+          </div>
+        ) : batches.length === 0 ? (
+          <Card>
+            <CardContent className="flex flex-col items-center gap-2 py-8 text-sm text-muted-foreground">
+              <FileSpreadsheet className="h-6 w-6" />
+              Nothing has been imported yet.
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {batches.map((batch) => (
+              <Card key={batch.id}>
+                <CardContent className="flex flex-col gap-3 pt-4 sm:flex-row sm:items-start sm:justify-between">
+                  <div className="space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-medium">{batch.file_name}</span>
+                      <Badge variant={STATUS_VARIANTS[batch.status]}>{statusLabel(batch.status)}</Badge>
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      Imported {format(new Date(batch.created_at), 'MMM d, yyyy h:mm a')}
+                      {batch.created_by && ` by ${batch.created_by}`}
+                    </p>
+                    <p className="text-sm">
+                      {batch.entry_count ?? 0} of {batch.total_rows} {batch.total_rows === 1 ? 'row' : 'rows'} saved
+                    </p>
+                    {batch.rolled_back_at && (
+                      <p className="text-sm text-muted-foreground">
+                        Rolled back {format(new Date(batch.rolled_back_at), 'MMM d, yyyy h:mm a')}
+                        {batch.rolled_back_by && ` by ${batch.rolled_back_by}`}
+                      </p>
+                    )}
+                  </div>
+                  {can('entries:rollback_import') && batch.status !== 'rolled_back' && (
+                    <Button
+                      variant="destructive"
+                      size="sm"
+                      className="shrink-0"
+                      onClick={() => setRollingBack(batch)}
+                      disabled={!batch.entry_count}
+                    >
+                      <Undo2 className="mr-2 h-4 w-4" />
+                      Roll Back
+                    </Button>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Rollback Confirmation Dialog */}
+      <AlertDialog open={rollingBack !== null} onOpenChange={(open) => !open && closeDialog()}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Roll Back Import</AlertDialogTitle>
+            <AlertDialogDescription className="space-y-3">
+              <p>
+                All {rollingBack?.entry_count ?? 0} entries imported from <strong>{rollingBack?.file_name}</strong> will
+                be moved to the trash, including any edited since. Existing entries the import updated are not
+                changed back.
+              </p>
+              <div className="space-y-2">
+                <Label htmlFor="rollback-reason">Reason for rolling back</Label>
+                <Input
+                  id="rollback-reason"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder="e.g. Wrong columns mapped"
+                />
+              </div>
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleRollback}
+              disabled={!reason.trim()}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Roll Back
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default ImportHistory;
@@ -0,0 +1,223 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, FileDown, Printer } from 'lucide-react';
+import { BlotterEntry } from '@/lib/types';
+import { appConfig } from '@/lib/config';
+import { fetchAllEntries } from '@/lib/export';
+import {
+  downloadLogbookPdf,
+  groupLogbook,
+  LOGBOOK_COLUMNS,
+  logbookCells,
+  logbookCertification,
+  logbookDayTitle,
+  logbookPeriod,
+  PaperSize,
+  Signatories,
+} from '@/lib/report';
+import { useAuth } from '@/contexts/AuthContext';
+import { PrintPage, ReportCertification, ReportLetterhead, ReportSettings } from '@/components/PrintLayout';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+
+const Logbook = () => {
+  const navigate = useNavigate();
+  const { user, profile } = useAuth();
+  // The range lives in the URL so a logbook can be bookmarked or reopened.
+  const [searchParams, setSearchParams] = useSearchParams();
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const from = searchParams.get('from') || today;
+  const to = searchParams.get('to') || from;
+  const [entries, setEntries] = useState<BlotterEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [paper, setPaper] = useState<PaperSize>('a4');
+  const [signatories, setSignatories] = useState<Signatories>({ dutyOfficer: '', deskSergeant: '' });
+  const [downloading, setDownloading] = useState(false);
+  const [printedAt] = useState(() => new Date());
+
+  const station = profile?.station || appConfig.stationName;
+  const printedBy = user?.email ?? 'Unknown user';
+  const validRange = from <= to;
+
+  useEffect(() => {
+    if (!validRange) return;
+    let cancelled = false;
+    setLoading(true);
+    fetchAllEntries({ filters: { after: from, before: to }, sort: { field: 'date', direction: 'asc' } })
+      .then((data) => {
+        if (!cancelled) setEntries(data);
+      })
+      .catch((error) => toast.error('Error loading entries: ' + (error as Error).message))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [from, to, validRange]);
+
+  const setRange = (next: { from?: string; to?: string }) => {
+    const range = { from, to, ...next };
+    setSearchParams(range.from === range.to ? { from: range.from } : range, { replace: true });
+  };
+
+  const handleDownload = async () => {
+    setDownloading(true);
+    try {
+      await downloadLogbookPdf(entries, from, to, {
+        letterhead: appConfig.letterhead,
+        station,
+        logoUrl: appConfig.letterheadLogo || undefined,
+        paper,
+        ...signatories,
+        printedBy,
+        printedAt,
+      });
+    } catch (error) {
+      toast.error('Error creating PDF: ' + (error as Error).message);
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const days = groupLogbook(entries);
+  const ready = validRange && !loading;
+
+  return (
+    <div className="min-h-screen bg-secondary print:min-h-0 print:bg-white">
+      <header className="sticky top-0 z-10 bg-primary px-4 py-4 text-primary-foreground shadow-md print:hidden">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => navigate('/')}
+              className="text-primary-foreground hover:bg-primary/80"
+            >
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <h1 className="text-xl font-bold">Logbook</h1>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={handleDownload}
+              disabled={!ready || downloading}
+              className="text-primary-foreground hover:bg-primary/80"
+              aria-label="Download PDF"
+            >
+              <FileDown className="h-5 w-5" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => window.print()}
+              disabled={!ready}
+              className="text-primary-foreground hover:bg-primary/80"
+              aria-label="Print"
+            >
+              <Printer className="h-5 w-5" />
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <div className="mx-auto max-w-4xl space-y-4 p-4 print:hidden">
+        <div className="grid gap-4 sm:grid-cols-3">
+          <div className="space-y-2">
+            <Label htmlFor="logbook-from">From</Label>
+            <Input
+              id="logbook-from"
+              type="date"
+              value={from}
+              onChange={(e) => e.target.value && setRange({ from: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="logbook-to">To</Label>
+            <Input
+              id="logbook-to"
+              type="date"
+              value={to}
+              min={from}
+              onChange={(e) => e.target.value && setRange({ to: e.target.value })}
+            />
+          </div>
+        </div>
+        {!validRange && <p className="text-sm text-destructive">The end date is before the start date.</p>}
+        <ReportSettings
+          paper={paper}
+          onPaperChange={setPaper}
+          signatories={signatories}
+          onSignatoriesChange={setSignatories}
+        />
+      </div>
+
+      {!validRange ? null : loading ? (
+        <div className="flex justify-center py-12">
+          <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent"></div>
+        </div>
+      ) : (
+        <PrintPage
+          paper={paper}
+          footer={`Blotter logbook, ${logbookPeriod(from, to)}`}
+          printedAt={printedAt}
+          printedBy={printedBy}
+        >
+          <ReportLetterhead station={station} title="POLICE BLOTTER LOGBOOK" subtitle={logbookPeriod(from, to)} />
+
+          <table className="mb-6 w-full border-collapse text-xs">
+            <thead>
+              <tr>
+                {LOGBOOK_COLUMNS.map((column) => (
+                  <th key={column} className="border border-neutral-400 bg-neutral-100 px-1.5 py-1 text-left">
+                    {column}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {days.length === 0 && (
+                <tr>
+                  <td colSpan={LOGBOOK_COLUMNS.length} className="border border-neutral-400 px-1.5 py-2 text-center">
+                    No entries for this period.
+                  </td>
+                </tr>
+              )}
+              {days.map((day) => [
+                <tr key={day.date} className="break-after-avoid">
+                  <th
+                    colSpan={LOGBOOK_COLUMNS.length}
+                    className="border border-neutral-400 bg-neutral-50 px-1.5 py-1 text-left"
+                  >
+                    {logbookDayTitle(day)}
+                  </th>
+                </tr>,
+                ...day.rows.map((row) => (
+                  <tr key={row.entry.id} className="break-inside-avoid align-top">
+                    {logbookCells(row).map((cell, i) => (
+                      <td
+                        key={LOGBOOK_COLUMNS[i]}
+                        className={`border border-neutral-400 px-1.5 py-1 ${i < 2 ? 'whitespace-nowrap' : ''}`}
+                      >
+                        {cell}
+                      </td>
+                    ))}
+                  </tr>
+                )),
+              ])}
+            </tbody>
+          </table>
+
+          <ReportCertification text={logbookCertification(entries.length, from, to)} signatories={signatories} />
+        </PrintPage>
+      )}
+    </div>
+  );
+};
+
+export default Logbook;
@@ -1,15 +1,20 @@
 import { useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
+import { auth } from '@/lib/repository';
 import { useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { toast } from 'sonner';
 
 const Login = () => {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  // Asking for a reset link instead of signing in.
+  const [isResetting, setIsResetting] = useState(false);
+  const [resetSentTo, setResetSentTo] = useState<string | null>(null);
   const { signIn, user, loading } = useAuth();
   const navigate = useNavigate();
 
@@ -26,6 +31,23 @@ const Login = () => {
     setIsLoading(false);
   };
 
+  const handleResetRequest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    const { error } = await auth.requestPasswordReset(email);
+    setIsLoading(false);
+    if (error) {
+      toast.error(error.message);
+      return;
+    }
+    setResetSentTo(email.trim());
+  };
+
+  const showSignIn = () => {
+    setIsResetting(false);
+    setResetSentTo(null);
+  };
+
   return (
     <div className="flex min-h-screen items-center justify-center bg-gradient-to-b from-blue-50 to-white p-4">
       <Card className="w-full max-w-md shadow-lg overflow-hidden">
@@ -38,44 +60,94 @@ const Login = () => {
             />
             <div>
               <CardTitle className="text-2xl font-bold">Suspect Profile System</CardTitle>
-              <CardDescription className="text-blue-100">Sign in to manage suspect profiles</CardDescription>
+              <CardDescription className="text-blue-100">
+                {isResetting ? 'Reset your password' : 'Sign in to manage suspect profiles'}
+              </CardDescription>
             </div>
           </div>
         </div>
         <CardContent className="p-6">
-          <form onSubmit={handleSubmit} className="space-y-4">
-            <div className="space-y-2">
-              <Label htmlFor="email">Email</Label>
-              <Input
-                id="email"
-                type="email"
-                placeholder="Enter your email"
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                required
+          {isResetting ? (
+            resetSentTo ? (
+              <div className="space-y-4 text-center">
+                <p className="text-sm text-muted-foreground">
+                  If an account exists for <span className="font-medium text-foreground">{resetSentTo}</span>, a link
+                  to choose a new password is on its way. It can be used once.
+                </p>
+                <Button variant="outline" className="w-full" onClick={showSignIn}>
+                  Back to Sign In
+                </Button>
+              </div>
+            ) : (
+              <form onSubmit={handleResetRequest} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="reset-email">Email</Label>
+                  <Input
+                    id="reset-email"
+                    type="email"
+                    placeholder="Enter your email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    required
+                    disabled={isLoading}
+                  />
+                </div>
+                <Button
+                  type="submit"
+                  className="w-full bg-blue-600 hover:bg-blue-700 text-white"
+                  disabled={isLoading}
+                >
+                  {isLoading ? 'Sending...' : 'Send Reset Link'}
+                </Button>
+                <Button type="button" variant="ghost" className="w-full" onClick={showSignIn} disabled={isLoading}>
+                  Back to Sign In
+                </Button>
+              </form>
+            )
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="email">Email</Label>
+                <Input
+                  id="email"
+                  type="email"
+                  placeholder="Enter your email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                  disabled={isLoading}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="password">Password</Label>
+                <Input
+                  id="password"
+                  type="password"
+                  placeholder="Enter your password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                  disabled={isLoading}
+                />
+              </div>
+              <Button 
+                type="submit" 
+                className="w-full bg-blue-600 hover:bg-blue-700 text-white" 
                 disabled={isLoading}
-              />
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="password">Password</Label>
-              <Input
-                id="password"
-                type="password"
-                placeholder="Enter your password"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                required
+              >
+                {isLoading ? 'Signing in...' : 'Sign In'}
+              </Button>
+              <Button
+                type="button"
+                variant="link"
+                className="w-full"
+                onClick={() => setIsResetting(true)}
                 disabled={isLoading}
-              />
-            </div>
-            <Button 
-              type="submit" 
-              className="w-full bg-blue-600 hover:bg-blue-700 text-white" 
-              disabled={isLoading}
-            >
-              {isLoading ? 'Signing in...' : 'Sign In'}
-            </Button>
-          </form>
+              >
+                Forgot password?
+              </Button>
+            </form>
+          )}
         </CardContent>
       </Card>
     </div>
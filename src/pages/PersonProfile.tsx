@@ -0,0 +1,146 @@
+import { useState, useEffect } from 'react';
+import { Link, useLocation, useNavigate, useParams } from 'react-router-dom';
+import { BlotterEntry, ENTRY_STATUSES, Person, personName } from '@/lib/types';
+import { repository } from '@/lib/repository';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ArrowLeft, UserRound } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+
+const PersonProfile = () => {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const backTo: string = location.state?.from ?? '/';
+  const [person, setPerson] = useState<Person | null>(null);
+  const [entries, setEntries] = useState<BlotterEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchPerson = async () => {
+      try {
+        setLoading(true);
+        const [personData, entryData] = await Promise.all([
+          repository.getPerson(Number(id)),
+          repository.listPersonEntries(Number(id)),
+        ]);
+        setPerson(personData);
+        setEntries(entryData);
+      } catch (error) {
+        toast.error('Error loading person: ' + (error as Error).message);
+        navigate(backTo);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchPerson();
+  }, [id, backTo, navigate]);
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent"></div>
+      </div>
+    );
+  }
+
+  if (!person) return null;
+
+  const caseTypes = Array.from(new Set(entries.map((entry) => entry.case_type)));
+
+  return (
+    <div className="min-h-screen bg-secondary">
+      {/* Header */}
+      <header className="sticky top-0 z-10 bg-primary px-4 py-4 text-primary-foreground shadow-md">
+        <div className="flex items-center gap-3">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => navigate(backTo)}
+            className="text-primary-foreground hover:bg-primary/80"
+          >
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <h1 className="text-xl font-bold">Person Profile</h1>
+        </div>
+      </header>
+
+      {/* Content */}
+      <div className="space-y-4 p-4">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <UserRound className="h-5 w-5" />
+              {personName(person)}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {person.aliases && person.aliases.length > 0 && (
+              <p className="text-sm text-muted-foreground">Also known as {person.aliases.join(', ')}</p>
+            )}
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge variant={entries.length > 1 ? 'destructive' : 'secondary'}>
+                {entries.length} {entries.length === 1 ? 'entry' : 'entries'}
+              </Badge>
+              {caseTypes.map((caseType) => (
+                <span
+                  key={caseType}
+                  className="inline-flex items-center rounded-full bg-primary/10 px-2.5 py-0.5 text-xs font-medium text-primary"
+                >
+                  {caseType}
+                </span>
+              ))}
+            </div>
+            {person.created_at && (
+              <p className="text-sm text-muted-foreground">
+                In the registry since {format(new Date(person.created_at), 'MMMM d, yyyy')}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Timeline, newest first */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Timeline</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {entries.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No blotter entries involve this person.</p>
+            ) : (
+              <ol className="relative space-y-6 border-l pl-6">
+                {entries.map((entry) => (
+                  <li key={entry.id} className="relative">
+                    <span className="absolute -left-[1.85rem] top-1.5 h-3 w-3 rounded-full border-2 border-background bg-primary" />
+                    <div className="flex flex-wrap items-center gap-2">
+                      <p className="text-sm font-medium">{format(new Date(entry.date), 'MMMM d, yyyy')}</p>
+                      <span className="inline-flex items-center rounded-full bg-primary/10 px-2.5 py-0.5 text-xs font-medium text-primary">
+                        {entry.case_type}
+                      </span>
+                      <Badge variant="outline">
+                        {ENTRY_STATUSES.find((s) => s.value === (entry.status ?? 'open'))?.label}
+                      </Badge>
+                    </div>
+                    <p className="mt-1 text-sm text-muted-foreground line-clamp-2">{entry.blotter_entry}</p>
+                    <Link
+                      to={`/entry/${entry.id}`}
+                      state={{ from: location.pathname }}
+                      className="mt-1 inline-block text-sm font-medium text-primary underline-offset-4 hover:underline"
+                    >
+                      View Details
+                    </Link>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default PersonProfile;
@@ -0,0 +1,137 @@
+import { useState } from 'react';
+import { Navigate, useNavigate, useSearchParams } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { auth } from '@/lib/repository';
+import { EMAIL_NAME_RULE, passwordIssues, PASSWORD_RULES } from '@/lib/password';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardTitle } from '@/components/ui/card';
+import { Check, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+
+// Reached from a reset link (?reason=recovery), or by ProtectedRoute when the
+// account still has a temporary password from an invite or an admin reset.
+const SetPassword = () => {
+  const [password, setPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const { user, loading, profile, refreshProfile, signOut } = useAuth();
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent"></div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/login" replace />;
+  }
+
+  const description =
+    profile?.must_change_password && searchParams.get('reason') !== 'recovery'
+      ? 'Replace your temporary password before continuing.'
+      : 'Choose a new password for your account.';
+
+  const issues = passwordIssues(password, user.email);
+  const failed = new Set(issues);
+  const matches = password.length > 0 && password === confirmation;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (issues.length > 0) {
+      toast.error('Password does not meet the requirements');
+      return;
+    }
+    if (!matches) {
+      toast.error('Passwords do not match');
+      return;
+    }
+
+    setIsSaving(true);
+    const { error } = await auth.updatePassword(password);
+    if (error) {
+      toast.error(error.message);
+      setIsSaving(false);
+      return;
+    }
+    await refreshProfile();
+    toast.success('Password updated');
+    navigate('/', { replace: true });
+  };
+
+  const requirements = [...PASSWORD_RULES.map((rule) => rule.label), EMAIL_NAME_RULE];
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gradient-to-b from-blue-50 to-white p-4">
+      <Card className="w-full max-w-md shadow-lg overflow-hidden">
+        <div className="bg-gradient-to-r from-blue-600 to-blue-700 p-6 text-white text-center">
+          <CardTitle className="text-2xl font-bold">Set Password</CardTitle>
+          <CardDescription className="text-blue-100">{description}</CardDescription>
+        </div>
+        <CardContent className="p-6">
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Signed in as <span className="font-medium text-foreground">{user.email}</span>
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="new-password">New password</Label>
+              <Input
+                id="new-password"
+                type="password"
+                autoComplete="new-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+                disabled={isSaving}
+              />
+            </div>
+            <ul className="space-y-1 text-sm">
+              {requirements.map((label) => {
+                const met = password.length > 0 && !failed.has(label);
+                return (
+                  <li key={label} className={cn('flex items-center gap-2', met ? 'text-green-700' : 'text-muted-foreground')}>
+                    {met ? <Check className="h-4 w-4" /> : <X className="h-4 w-4" />}
+                    {label}
+                  </li>
+                );
+              })}
+            </ul>
+            <div className="space-y-2">
+              <Label htmlFor="confirm-password">Confirm password</Label>
+              <Input
+                id="confirm-password"
+                type="password"
+                autoComplete="new-password"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+                required
+                disabled={isSaving}
+              />
+              {confirmation.length > 0 && !matches && (
+                <p className="text-sm text-destructive">Passwords do not match</p>
+              )}
+            </div>
+            <Button
+              type="submit"
+              className="w-full bg-blue-600 hover:bg-blue-700 text-white"
+              disabled={isSaving || issues.length > 0 || !matches}
+            >
+              {isSaving ? 'Saving...' : 'Set Password'}
+            </Button>
+            <Button type="button" variant="ghost" className="w-full" onClick={() => signOut()} disabled={isSaving}>
+              Sign out
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default SetPassword;
@@ -1,6 +1,8 @@
-import { useState, useRef } from 'react';
+import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { supabase } from '@/lib/supabase';
+import { auth, repository } from '@/lib/repository';
+import { useSync } from '@/contexts/SyncContext';
+import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -15,111 +17,100 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
-import { ArrowLeft, Upload, Trash2 } from 'lucide-react';
+import { ArrowLeft, Upload, Trash2, ShieldCheck, Lock } from 'lucide-react';
 import { toast } from 'sonner';
-import * as XLSX from 'xlsx';
+import { MFA_REQUIRED_ROLES } from '@/lib/permissions';
+import { MfaEnrollment } from '@/components/MfaEnrollment';
+import { appConfig } from '@/lib/config';
+import { clearPin, hasPin, PIN_PATTERN, savePin } from '@/lib/idleLock';
 
 const Settings = () => {
   const navigate = useNavigate();
-  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { refreshLists } = useSync();
+  const { user, can, role, mfa, refreshProfile } = useAuth();
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [deleteConfirmation, setDeleteConfirmation] = useState('');
-  const [importing, setImporting] = useState(false);
-
-  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-
-    setImporting(true);
-
-    try {
-      const reader = new FileReader();
-
-      reader.onload = async (event) => {
-        try {
-          const data = new Uint8Array(event.target?.result as ArrayBuffer);
-          const workbook = XLSX.read(data, { type: 'array' });
-          const sheetName = workbook.SheetNames[0];
-          const worksheet = workbook.Sheets[sheetName];
-          const jsonData = XLSX.utils.sheet_to_json(worksheet);
-
-          // Normalize column names (trim spaces, lowercase) and convert Excel dates
-          const normalizedData = jsonData.map((row: any) => {
-            const normalizedRow: any = {};
-            Object.keys(row).forEach((key) => {
-              const normalizedKey = key.trim().toLowerCase();
-              let value = row[key];
-              
-              // Convert Excel serial date to proper date format
-              if (normalizedKey === 'date' && typeof value === 'number') {
-                // Excel stores dates as days since 1900-01-01
-                const excelEpoch = new Date(1900, 0, 1);
-                const date = new Date(excelEpoch.getTime() + (value - 2) * 24 * 60 * 60 * 1000);
-                value = date.toISOString().split('T')[0]; // Format as YYYY-MM-DD
-              }
-              
-              normalizedRow[normalizedKey] = value;
-            });
-            return normalizedRow;
-          });
-
-          // Validate headers
-          const requiredColumns = ['blotter_entry', 'first_name', 'last_name', 'case_type', 'date'];
-          const firstRow = normalizedData[0] as any;
-          const missingColumns = requiredColumns.filter((col) => !(col in firstRow));
-
-          if (missingColumns.length > 0) {
-            toast.error(`Missing columns: ${missingColumns.join(', ')}`);
-            setImporting(false);
-            return;
-          }
-
-          // Insert data
-          const { error } = await supabase.from('blotter_entries').insert(normalizedData);
-
-          if (error) throw error;
-
-          toast.success(`Successfully imported ${normalizedData.length} entries`);
-          navigate('/');
-        } catch (error: any) {
-          toast.error('Error processing file: ' + error.message);
-        } finally {
-          setImporting(false);
-        }
-      };
-
-      reader.readAsArrayBuffer(file);
-    } catch (error: any) {
-      toast.error('Error reading file: ' + error.message);
-      setImporting(false);
-    }
-
-    // Reset input
-    if (fileInputRef.current) {
-      fileInputRef.current.value = '';
-    }
-  };
+  const [deletionReason, setDeletionReason] = useState('');
+  const [showMfaOffDialog, setShowMfaOffDialog] = useState(false);
+  const mfaRequired = role !== null && MFA_REQUIRED_ROLES.includes(role);
+  const [pinSet, setPinSet] = useState(() => (user ? hasPin(user.id) : false));
+  const [pin, setPin] = useState('');
+  const [pinConfirmation, setPinConfirmation] = useState('');
+  const idleBehaviour = [
+    appConfig.idleLockMinutes > 0 && `locks after ${appConfig.idleLockMinutes} minutes`,
+    appConfig.idleSignOutMinutes > 0 && `signs out after ${appConfig.idleSignOutMinutes} minutes`,
+  ].filter(Boolean);
 
   const handleDeleteAll = async () => {
     if (deleteConfirmation !== 'DELETE') {
       toast.error('Please type DELETE to confirm');
       return;
     }
+    if (!deletionReason.trim()) {
+      toast.error('Please give a reason for deleting');
+      return;
+    }
 
     try {
-      const { error } = await supabase.from('blotter_entries').delete().neq('id', 0);
+      const ids = await repository.deleteAllEntries(deletionReason.trim());
 
-      if (error) throw error;
-
-      toast.success('All entries deleted successfully');
+      toast.success(`Moved ${ids.length} entries to trash`, {
+        action: { label: 'Undo', onClick: () => handleUndoDeleteAll(ids) },
+      });
       setShowDeleteDialog(false);
       setDeleteConfirmation('');
+      setDeletionReason('');
       navigate('/');
     } catch (error: any) {
       toast.error('Error deleting entries: ' + error.message);
     }
   };
 
+  const handleUndoDeleteAll = async (ids: number[]) => {
+    try {
+      await repository.restoreEntries(ids);
+      refreshLists();
+      toast.success(`Restored ${ids.length} entries`);
+    } catch (error) {
+      toast.error('Error restoring entries: ' + (error as Error).message);
+    }
+  };
+
+  const handleMfaOff = async () => {
+    try {
+      await auth.unenrollMfa();
+      await refreshProfile();
+      toast.success('Two-factor authentication is off');
+    } catch (error) {
+      toast.error('Error turning off two-factor authentication: ' + (error as Error).message);
+    }
+  };
+
+  const handleSavePin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+    if (pin !== pinConfirmation) {
+      toast.error('PINs do not match');
+      return;
+    }
+    try {
+      await savePin(user.id, pin);
+      setPinSet(true);
+      setPin('');
+      setPinConfirmation('');
+      toast.success('Lock screen PIN saved');
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  const handleClearPin = () => {
+    if (!user) return;
+    clearPin(user.id);
+    setPinSet(false);
+    toast.success('Lock screen PIN removed');
+  };
+
   return (
     <div className="min-h-screen bg-secondary">
       {/* Header */}
@@ -147,27 +138,113 @@ const Settings = () => {
               Import Data
             </CardTitle>
             <CardDescription>
-              Upload an Excel (.xlsx) or CSV file with blotter entries
+              Upload an Excel (.xlsx) or CSV file with blotter entries, then review every row before saving
             </CardDescription>
           </CardHeader>
           <CardContent>
-            <input
-              ref={fileInputRef}
-              type="file"
-              accept=".xlsx,.xls,.csv"
-              onChange={handleFileUpload}
-              className="hidden"
-            />
-            <Button
-              onClick={() => fileInputRef.current?.click()}
-              disabled={importing}
-              className="w-full"
-            >
-              {importing ? 'Importing...' : 'Select File to Import'}
+            <Button onClick={() => navigate('/import')} disabled={!can('entries:import')} className="w-full">
+              Import Entries
             </Button>
-            <p className="mt-3 text-sm text-muted-foreground">
-              Required columns: blotter_entry, first_name, last_name, case_type, date
-            </p>
+            {!can('entries:import') && (
+              <p className="mt-3 text-sm text-destructive">Your role doesn't allow importing entries.</p>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Two-Factor Authentication */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldCheck className="h-5 w-5" />
+              Two-Factor Authentication
+            </CardTitle>
+            <CardDescription>
+              Ask for a code from an authenticator app as well as your password when signing in
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {!mfa?.available ? (
+              <p className="text-sm text-muted-foreground">
+                Two-factor authentication is available when the blotter runs on Supabase.
+              </p>
+            ) : mfa.enrolled ? (
+              <>
+                <p className="text-sm">
+                  <span className="font-medium text-green-700">On.</span> You'll be asked for a code each time you
+                  sign in.
+                </p>
+                <Button
+                  variant="outline"
+                  onClick={() => setShowMfaOffDialog(true)}
+                  disabled={mfaRequired}
+                  className="mt-3 w-full"
+                >
+                  Turn Off
+                </Button>
+                {mfaRequired && (
+                  <p className="mt-3 text-sm text-muted-foreground">Your role requires two-factor authentication.</p>
+                )}
+              </>
+            ) : (
+              <MfaEnrollment onEnrolled={refreshProfile} />
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Lock Screen */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Lock className="h-5 w-5" />
+              Lock Screen
+            </CardTitle>
+            <CardDescription>
+              {idleBehaviour.length > 0
+                ? `When left idle, the app ${idleBehaviour.join(' and ')}.`
+                : 'The idle lock is turned off on this installation.'}{' '}
+              Unlock with your password, or with a PIN set for this device.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSavePin} className="space-y-3">
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor="lock-pin">{pinSet ? 'New PIN' : 'PIN'}</Label>
+                  <Input
+                    id="lock-pin"
+                    type="password"
+                    inputMode="numeric"
+                    autoComplete="off"
+                    value={pin}
+                    onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+                    placeholder="4-8 digits"
+                    maxLength={8}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="lock-pin-confirmation">Confirm PIN</Label>
+                  <Input
+                    id="lock-pin-confirmation"
+                    type="password"
+                    inputMode="numeric"
+                    autoComplete="off"
+                    value={pinConfirmation}
+                    onChange={(e) => setPinConfirmation(e.target.value.replace(/\D/g, ''))}
+                    maxLength={8}
+                  />
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <Button type="submit" className="flex-1" disabled={!PIN_PATTERN.test(pin) || !pinConfirmation}>
+                  {pinSet ? 'Change PIN' : 'Set PIN'}
+                </Button>
+                {pinSet && (
+                  <Button type="button" variant="outline" className="flex-1" onClick={handleClearPin}>
+                    Remove PIN
+                  </Button>
+                )}
+              </div>
+            </form>
           </CardContent>
         </Card>
 
@@ -179,17 +256,21 @@ const Settings = () => {
               Danger Zone
             </CardTitle>
             <CardDescription>
-              Permanently delete all entries from the database
+              Move all entries to the trash
             </CardDescription>
           </CardHeader>
           <CardContent>
             <Button
               variant="destructive"
               onClick={() => setShowDeleteDialog(true)}
+              disabled={!can('entries:delete_all')}
               className="w-full"
             >
               Delete All Entries
             </Button>
+            {!can('entries:delete_all') && (
+              <p className="mt-3 text-sm text-destructive">Only administrators can delete all entries.</p>
+            )}
           </CardContent>
         </Card>
       </div>
@@ -200,7 +281,19 @@ const Settings = () => {
           <AlertDialogHeader>
             <AlertDialogTitle>Delete All Entries</AlertDialogTitle>
             <AlertDialogDescription className="space-y-3">
-              <p>This will permanently delete all blotter entries. This action cannot be undone.</p>
+              <p>
+                This will move every blotter entry to the trash. They can be restored from the trash until they
+                are purged.
+              </p>
+              <div className="space-y-2">
+                <Label htmlFor="delete-all-reason">Reason for deleting</Label>
+                <Input
+                  id="delete-all-reason"
+                  value={deletionReason}
+                  onChange={(e) => setDeletionReason(e.target.value)}
+                  placeholder="e.g. Clearing test data"
+                />
+              </div>
               <div className="space-y-2">
                 <Label htmlFor="delete-confirmation">
                   Type <strong>DELETE</strong> to confirm
@@ -218,13 +311,14 @@ const Settings = () => {
             <AlertDialogCancel
               onClick={() => {
                 setDeleteConfirmation('');
+                setDeletionReason('');
               }}
             >
               Cancel
             </AlertDialogCancel>
             <AlertDialogAction
               onClick={handleDeleteAll}
-              disabled={deleteConfirmation !== 'DELETE'}
+              disabled={deleteConfirmation !== 'DELETE' || !deletionReason.trim()}
               className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
             >
               Delete All
@@ -232,6 +326,22 @@ const Settings = () => {
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      {/* Turn Off Two-Factor Dialog */}
+      <AlertDialog open={showMfaOffDialog} onOpenChange={setShowMfaOffDialog}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Turn Off Two-Factor Authentication</AlertDialogTitle>
+            <AlertDialogDescription>
+              Your password alone will be enough to sign in. You can set up an authenticator app again at any time.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleMfaOff}>Turn Off</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 };
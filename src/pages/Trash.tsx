@@ -0,0 +1,199 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { BlotterEntry } from '@/lib/types';
+import { repository } from '@/lib/repository';
+import { canPurge, purgeableAt } from '@/lib/trash';
+import { useSync } from '@/contexts/SyncContext';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { ArrowLeft, RotateCcw, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+
+const Trash = () => {
+  const navigate = useNavigate();
+  const { refreshLists } = useSync();
+  const [entries, setEntries] = useState<BlotterEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  // How long entries wait before purging, as the backend enforces it.
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  // Entries awaiting confirmation of permanent deletion.
+  const [purging, setPurging] = useState<BlotterEntry[]>([]);
+
+  const fetchTrash = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [deleted, days] = await Promise.all([
+        repository.listDeletedEntries(),
+        repository.getTrashRetentionDays(),
+      ]);
+      setEntries(deleted);
+      setRetentionDays(days);
+    } catch (error) {
+      toast.error('Error loading trash: ' + (error as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTrash();
+  }, [fetchTrash]);
+
+  const handleRestore = async (entry: BlotterEntry) => {
+    try {
+      await repository.restoreEntries([entry.id as number]);
+      setEntries((prev) => prev.filter((e) => e.id !== entry.id));
+      refreshLists();
+      toast.success('Entry restored');
+    } catch (error) {
+      toast.error('Error restoring entry: ' + (error as Error).message);
+    }
+  };
+
+  const handlePurge = async () => {
+    const ids = purging.map((entry) => entry.id as number);
+    try {
+      await repository.purgeEntries(ids);
+      setEntries((prev) => prev.filter((entry) => !ids.includes(entry.id as number)));
+      toast.success(ids.length === 1 ? 'Entry permanently deleted' : `${ids.length} entries permanently deleted`);
+    } catch (error) {
+      toast.error('Error purging entries: ' + (error as Error).message);
+    } finally {
+      setPurging([]);
+    }
+  };
+
+  const isPurgeable = (entry: BlotterEntry) => retentionDays !== null && canPurge(entry, retentionDays);
+  const purgeable = entries.filter(isPurgeable);
+
+  return (
+    <div className="min-h-screen bg-secondary">
+      {/* Header */}
+      <header className="sticky top-0 z-10 bg-primary px-4 py-4 text-primary-foreground shadow-md">
+        <div className="flex items-center gap-3">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => navigate('/')}
+            className="text-primary-foreground hover:bg-primary/80"
+          >
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <h1 className="text-xl font-bold">Trash</h1>
+        </div>
+      </header>
+
+      {/* Content */}
+      <div className="space-y-4 p-4">
+        <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+          <p className="text-sm text-muted-foreground">
+            Deleted entries can be restored, or permanently deleted after {retentionDays ?? '...'} days in the trash.
+          </p>
+          {purgeable.length > 0 && (
+            <Button variant="destructive" size="sm" onClick={() => setPurging(purgeable)}>
+              <Trash2 className="mr-2 h-4 w-4" />
+              Purge {purgeable.length} eligible
+            </Button>
+          )}
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent"></div>
+          </div>
+        ) : entries.length === 0 ? (
+          <Card>
+            <CardContent className="flex flex-col items-center gap-2 py-8 text-sm text-muted-foreground">
+              <Trash2 className="h-6 w-6" />
+              The trash is empty.
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {entries.map((entry) => (
+              <Card key={entry.id}>
+                <CardContent className="flex flex-col gap-3 pt-4 sm:flex-row sm:items-start sm:justify-between">
+                  <div className="space-y-1">
+                    <Link
+                      to={`/entry/${entry.id}`}
+                      state={{ from: '/trash' }}
+                      className="font-medium text-primary underline-offset-4 hover:underline"
+                    >
+                      {entry.first_name} {entry.last_name}
+                    </Link>
+                    <p className="text-sm text-muted-foreground">
+                      {entry.case_type} · {format(new Date(entry.date), 'MMM d, yyyy')}
+                    </p>
+                    <p className="text-sm">
+                      Deleted {format(new Date(entry.deleted_at as string), 'MMM d, yyyy h:mm a')}
+                      {entry.deleted_by && ` by ${entry.deleted_by}`}
+                    </p>
+                    {entry.deletion_reason && (
+                      <p className="text-sm text-muted-foreground">Reason: {entry.deletion_reason}</p>
+                    )}
+                  </div>
+                  <div className="flex shrink-0 gap-2">
+                    <Button variant="outline" size="sm" onClick={() => handleRestore(entry)}>
+                      <RotateCcw className="mr-2 h-4 w-4" />
+                      Restore
+                    </Button>
+                    <Button
+                      variant="destructive"
+                      size="sm"
+                      onClick={() => setPurging([entry])}
+                      disabled={!isPurgeable(entry)}
+                      title={
+                        isPurgeable(entry) || retentionDays === null
+                          ? undefined
+                          : `Can be purged from ${format(purgeableAt(entry, retentionDays) as Date, 'MMM d, yyyy')}`
+                      }
+                    >
+                      <Trash2 className="mr-2 h-4 w-4" />
+                      Purge
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Purge Confirmation Dialog */}
+      <AlertDialog open={purging.length > 0} onOpenChange={(open) => !open && setPurging([])}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Permanently Delete</AlertDialogTitle>
+            <AlertDialogDescription>
+              {purging.length === 1
+                ? 'This entry and its photos will be deleted for good. This action cannot be undone.'
+                : `${purging.length} entries and their photos will be deleted for good. This action cannot be undone.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handlePurge}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete Permanently
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default Trash;
@@ -0,0 +1,95 @@
+import { useState } from 'react';
+import { Navigate, useNavigate } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { auth } from '@/lib/repository';
+import { roleLabel } from '@/lib/permissions';
+import { MFA_CODE_LENGTH, MfaCodeInput, MfaEnrollment } from '@/components/MfaEnrollment';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardTitle } from '@/components/ui/card';
+import { toast } from 'sonner';
+
+// Where ProtectedRoute sends sessions that still need a code from the
+// enrolled authenticator app, or that must enroll one for their role.
+const TwoFactor = () => {
+  const [code, setCode] = useState('');
+  const [isVerifying, setIsVerifying] = useState(false);
+  const { user, loading, role, mfaStep, refreshProfile, signOut } = useAuth();
+  const navigate = useNavigate();
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent"></div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/login" replace />;
+  }
+
+  if (!mfaStep) {
+    return <Navigate to="/" replace />;
+  }
+
+  const handleVerify = async (value = code) => {
+    if (value.length < MFA_CODE_LENGTH) return;
+    setIsVerifying(true);
+    try {
+      await auth.verifyMfa(value);
+      await refreshProfile();
+      toast.success('Welcome back!');
+      navigate('/', { replace: true });
+    } catch (error) {
+      toast.error('That code did not work: ' + (error as Error).message);
+      setCode('');
+      setIsVerifying(false);
+    }
+  };
+
+  const handleEnrolled = async () => {
+    await refreshProfile();
+    navigate('/', { replace: true });
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gradient-to-b from-blue-50 to-white p-4">
+      <Card className="w-full max-w-md shadow-lg overflow-hidden">
+        <div className="bg-gradient-to-r from-blue-600 to-blue-700 p-6 text-white text-center">
+          <CardTitle className="text-2xl font-bold">Two-Factor Authentication</CardTitle>
+          <CardDescription className="text-blue-100">
+            {mfaStep === 'challenge'
+              ? 'Enter the code from your authenticator app'
+              : `${roleLabel(role)} accounts must use an authenticator app`}
+          </CardDescription>
+        </div>
+        <CardContent className="space-y-4 p-6">
+          <p className="text-sm text-muted-foreground">
+            Signed in as <span className="font-medium text-foreground">{user.email}</span>
+          </p>
+          {mfaStep === 'challenge' ? (
+            <>
+              <div className="flex justify-center">
+                <MfaCodeInput value={code} onChange={setCode} onComplete={handleVerify} disabled={isVerifying} />
+              </div>
+              <Button
+                className="w-full bg-blue-600 hover:bg-blue-700 text-white"
+                onClick={() => handleVerify()}
+                disabled={isVerifying || code.length < MFA_CODE_LENGTH}
+              >
+                {isVerifying ? 'Verifying...' : 'Verify'}
+              </Button>
+            </>
+          ) : (
+            <MfaEnrollment onEnrolled={handleEnrolled} />
+          )}
+          <Button variant="ghost" className="w-full" onClick={() => signOut()} disabled={isVerifying}>
+            Sign out
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default TwoFactor;
@@ -1 +1,18 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_DATA_BACKEND?: string;
+  readonly VITE_SUPABASE_URL?: string;
+  readonly VITE_SUPABASE_ANON_KEY?: string;
+  readonly VITE_LOCAL_ADMIN_EMAIL?: string;
+  readonly VITE_LOCAL_ADMIN_PASSWORD?: string;
+  readonly VITE_STATION_NAME?: string;
+  readonly VITE_LETTERHEAD?: string;
+  readonly VITE_LETTERHEAD_LOGO?: string;
+  readonly VITE_IDLE_LOCK_MINUTES?: string;
+  readonly VITE_IDLE_SIGN_OUT_MINUTES?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
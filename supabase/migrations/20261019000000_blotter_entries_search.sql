@@ -0,0 +1,53 @@
+-- Ranked full-text search over blotter entries.
+--
+-- search_vector is kept up to date by a trigger rather than a generated
+-- column because unaccent() and to_char() are not immutable. Weights:
+--   A  first_name, last_name
+--   B  case_type
+--   C  blotter_entry (narrative)
+--   D  date, as "YYYY MM DD Month" so both numeric and month-name searches hit
+-- The client (src/lib/search.ts) builds the tsquery and mirrors this ranking
+-- for the on-device backends.
+
+create extension if not exists unaccent;
+
+alter table public.blotter_entries
+  add column if not exists search_vector tsvector;
+
+create or replace function public.blotter_entries_search_vector()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.search_vector :=
+    setweight(to_tsvector('simple', unaccent(coalesce(new.first_name, '') || ' ' || coalesce(new.last_name, ''))), 'A') ||
+    setweight(to_tsvector('simple', unaccent(coalesce(new.case_type, ''))), 'B') ||
+    setweight(to_tsvector('simple', unaccent(coalesce(new.blotter_entry, ''))), 'C') ||
+    setweight(to_tsvector('simple', coalesce(to_char(new.date, 'YYYY MM DD FMMonth'), '')), 'D');
+  return new;
+end;
+$$;
+
+drop trigger if exists blotter_entries_search_vector on public.blotter_entries;
+create trigger blotter_entries_search_vector
+  before insert or update on public.blotter_entries
+  for each row execute function public.blotter_entries_search_vector();
+
+-- Backfill existing rows through the trigger.
+update public.blotter_entries set first_name = first_name;
+
+create index if not exists blotter_entries_search_vector_idx
+  on public.blotter_entries using gin (search_vector);
+
+-- Returns matching entries best match first. Called through PostgREST's rpc
+-- endpoint, so callers can still use count: 'exact' and .range() for paging.
+create or replace function public.search_blotter_entries(search text)
+returns setof public.blotter_entries
+language sql
+stable
+as $$
+  select e.*
+  from public.blotter_entries e
+  where e.search_vector @@ to_tsquery('simple', search)
+  order by ts_rank(e.search_vector, to_tsquery('simple', search)) desc, e.date desc, e.id desc;
+$$;
@@ -0,0 +1,16 @@
+-- Entry status for the status: search qualifier, and a case type list for
+-- the type: autocomplete.
+
+alter table public.blotter_entries
+  add column if not exists status text not null default 'open'
+  check (status in ('open', 'investigating', 'settled', 'closed'));
+
+create index if not exists blotter_entries_status_idx on public.blotter_entries (status);
+create index if not exists blotter_entries_date_idx on public.blotter_entries (date desc);
+
+-- security_invoker keeps the table's row-level security in force.
+create or replace view public.blotter_case_types
+with (security_invoker = true) as
+  select distinct trim(case_type) as case_type
+  from public.blotter_entries
+  where trim(coalesce(case_type, '')) <> '';
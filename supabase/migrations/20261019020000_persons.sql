@@ -0,0 +1,47 @@
+-- Person registry: one row per real individual, linked to every blotter
+-- entry that involves them through entry_persons.
+
+create table if not exists public.persons (
+  id bigint generated by default as identity primary key,
+  first_name text not null,
+  last_name text not null,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.entry_persons (
+  entry_id bigint not null references public.blotter_entries (id) on delete cascade,
+  person_id bigint not null references public.persons (id) on delete cascade,
+  primary key (entry_id, person_id)
+);
+
+create index if not exists entry_persons_person_id_idx on public.entry_persons (person_id);
+create index if not exists persons_name_idx on public.persons (lower(last_name), lower(first_name));
+
+alter table public.persons enable row level security;
+alter table public.entry_persons enable row level security;
+
+drop policy if exists "Signed-in users manage persons" on public.persons;
+create policy "Signed-in users manage persons"
+  on public.persons for all to authenticated
+  using (true) with check (true);
+
+drop policy if exists "Signed-in users manage entry links" on public.entry_persons;
+create policy "Signed-in users manage entry links"
+  on public.entry_persons for all to authenticated
+  using (true) with check (true);
+
+-- Backfill: existing entries with the same (case-insensitive) name are
+-- assumed to be the same person. Review the registry for false merges.
+insert into public.persons (first_name, last_name, created_at)
+select distinct on (lower(trim(first_name)), lower(trim(last_name)))
+  trim(first_name), trim(last_name), created_at
+from public.blotter_entries
+order by lower(trim(first_name)), lower(trim(last_name)), created_at;
+
+insert into public.entry_persons (entry_id, person_id)
+select e.id, p.id
+from public.blotter_entries e
+join public.persons p
+  on lower(trim(e.first_name)) = lower(p.first_name)
+ and lower(trim(e.last_name)) = lower(p.last_name)
+on conflict do nothing;
@@ -0,0 +1,35 @@
+-- Aliases ("known as" names) on blotter subjects and registry persons.
+-- Entry aliases are searchable at the same weight as the subject's name.
+
+alter table public.blotter_entries
+  add column if not exists aliases text[] not null default '{}';
+
+alter table public.persons
+  add column if not exists aliases text[] not null default '{}';
+
+create or replace function public.blotter_entries_search_vector()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.search_vector :=
+    setweight(to_tsvector('simple', unaccent(
+      coalesce(new.first_name, '') || ' ' || coalesce(new.last_name, '') || ' ' ||
+      array_to_string(coalesce(new.aliases, '{}'), ' ')
+    )), 'A') ||
+    setweight(to_tsvector('simple', unaccent(coalesce(new.case_type, ''))), 'B') ||
+    setweight(to_tsvector('simple', unaccent(coalesce(new.blotter_entry, ''))), 'C') ||
+    setweight(to_tsvector('simple', coalesce(to_char(new.date, 'YYYY MM DD FMMonth'), '')), 'D');
+  return new;
+end;
+$$;
+
+-- Computed column so the person picker can filter on aliases through
+-- PostgREST (`alias_text.ilike.*boy*`).
+create or replace function public.alias_text(public.persons)
+returns text
+language sql
+stable
+as $$
+  select array_to_string($1.aliases, ' ');
+$$;
@@ -0,0 +1,49 @@
+-- Subject profile fields beyond first and last name. All optional; the
+-- client validates formats (src/lib/subject.ts) and the constraints below
+-- guard the enumerated ones.
+
+alter table public.blotter_entries
+  add column if not exists middle_name text,
+  add column if not exists suffix text,
+  add column if not exists date_of_birth date,
+  add column if not exists sex text,
+  add column if not exists civil_status text,
+  add column if not exists barangay text,
+  add column if not exists municipality text,
+  add column if not exists province text,
+  add column if not exists contact_number text,
+  add column if not exists id_type text,
+  add column if not exists id_number text;
+
+alter table public.blotter_entries
+  drop constraint if exists blotter_entries_sex_check,
+  drop constraint if exists blotter_entries_civil_status_check,
+  drop constraint if exists blotter_entries_id_check,
+  add constraint blotter_entries_sex_check
+    check (sex is null or sex in ('male', 'female')),
+  add constraint blotter_entries_civil_status_check
+    check (civil_status is null or civil_status in ('single', 'married', 'widowed', 'separated', 'annulled')),
+  add constraint blotter_entries_id_check
+    check ((id_type is null) = (id_number is null));
+
+create index if not exists blotter_entries_id_number_idx
+  on public.blotter_entries (id_type, id_number)
+  where id_number is not null;
+
+-- Middle names are searchable with the rest of the name.
+create or replace function public.blotter_entries_search_vector()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.search_vector :=
+    setweight(to_tsvector('simple', unaccent(
+      coalesce(new.first_name, '') || ' ' || coalesce(new.middle_name, '') || ' ' ||
+      coalesce(new.last_name, '') || ' ' || array_to_string(coalesce(new.aliases, '{}'), ' ')
+    )), 'A') ||
+    setweight(to_tsvector('simple', unaccent(coalesce(new.case_type, ''))), 'B') ||
+    setweight(to_tsvector('simple', unaccent(coalesce(new.blotter_entry, ''))), 'C') ||
+    setweight(to_tsvector('simple', coalesce(to_char(new.date, 'YYYY MM DD FMMonth'), '')), 'D');
+  return new;
+end;
+$$;
@@ -0,0 +1,42 @@
+-- Photos attached to blotter entries. Images live in the private
+-- "entry-photos" Storage bucket under <entry_id>/<uuid>.jpg, each with a
+-- <uuid>_thumb.jpg thumbnail; both are resized on the device before upload.
+
+create table if not exists public.entry_photos (
+  id bigint generated by default as identity primary key,
+  entry_id bigint not null references public.blotter_entries (id) on delete cascade,
+  path text not null unique,
+  thumbnail_path text not null,
+  width integer not null,
+  height integer not null,
+  created_by uuid default auth.uid() references auth.users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists entry_photos_entry_id_idx on public.entry_photos (entry_id, id);
+
+alter table public.entry_photos enable row level security;
+
+drop policy if exists "Signed-in users manage entry photos" on public.entry_photos;
+create policy "Signed-in users manage entry photos"
+  on public.entry_photos for all to authenticated
+  using (true) with check (true);
+
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values ('entry-photos', 'entry-photos', false, 5242880, array['image/jpeg'])
+on conflict (id) do nothing;
+
+drop policy if exists "Signed-in users read entry photos" on storage.objects;
+create policy "Signed-in users read entry photos"
+  on storage.objects for select to authenticated
+  using (bucket_id = 'entry-photos');
+
+drop policy if exists "Signed-in users upload entry photos" on storage.objects;
+create policy "Signed-in users upload entry photos"
+  on storage.objects for insert to authenticated
+  with check (bucket_id = 'entry-photos');
+
+drop policy if exists "Signed-in users delete entry photos" on storage.objects;
+create policy "Signed-in users delete entry photos"
+  on storage.objects for delete to authenticated
+  using (bucket_id = 'entry-photos');
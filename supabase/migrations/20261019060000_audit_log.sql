@@ -0,0 +1,101 @@
+-- Append-only audit trail. Triggers record every insert, update and delete
+-- on the blotter tables, so bulk imports and "delete all" are covered along
+-- with single edits, and no client can skip or rewrite an event.
+--
+-- Updates store only the fields that changed; inserts store the new row and
+-- deletes the old one. search_vector is derived and left out.
+
+create table if not exists public.audit_log (
+  id bigint generated always as identity primary key,
+  occurred_at timestamptz not null default now(),
+  actor_id uuid,
+  actor_email text,
+  action text not null check (action in ('create', 'update', 'delete')),
+  table_name text not null,
+  record_id text,
+  -- The blotter entry the change belongs to, kept after the entry is gone.
+  entry_id bigint,
+  before jsonb,
+  after jsonb
+);
+
+create index if not exists audit_log_occurred_at_idx on public.audit_log (occurred_at desc);
+create index if not exists audit_log_entry_id_idx on public.audit_log (entry_id, occurred_at desc);
+create index if not exists audit_log_actor_email_idx on public.audit_log (actor_email, occurred_at desc);
+
+create or replace function public.audit_row_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  old_row jsonb := case when tg_op <> 'INSERT' then to_jsonb(old) - 'search_vector' end;
+  new_row jsonb := case when tg_op <> 'DELETE' then to_jsonb(new) - 'search_vector' end;
+  row_data jsonb := coalesce(new_row, old_row);
+  changed_before jsonb;
+  changed_after jsonb;
+begin
+  if tg_op = 'UPDATE' then
+    select jsonb_object_agg(o.key, o.value), jsonb_object_agg(o.key, new_row -> o.key)
+      into changed_before, changed_after
+      from jsonb_each(old_row) o
+     where o.value is distinct from new_row -> o.key;
+    -- Nothing actually changed (e.g. the search backfill); don't log noise.
+    if changed_before is null then
+      return new;
+    end if;
+  end if;
+
+  insert into public.audit_log (actor_id, actor_email, action, table_name, record_id, entry_id, before, after)
+  values (
+    auth.uid(),
+    auth.jwt() ->> 'email',
+    case tg_op when 'INSERT' then 'create' when 'UPDATE' then 'update' else 'delete' end,
+    tg_table_name,
+    coalesce(row_data ->> 'id', row_data ->> 'entry_id'),
+    case when tg_table_name = 'blotter_entries' then (row_data ->> 'id')::bigint else (row_data ->> 'entry_id')::bigint end,
+    case when tg_op = 'UPDATE' then changed_before else old_row end,
+    case when tg_op = 'UPDATE' then changed_after else new_row end
+  );
+  return coalesce(new, old);
+end;
+$$;
+
+drop trigger if exists audit_blotter_entries on public.blotter_entries;
+create trigger audit_blotter_entries
+  after insert or update or delete on public.blotter_entries
+  for each row execute function public.audit_row_change();
+
+drop trigger if exists audit_persons on public.persons;
+create trigger audit_persons
+  after insert or update or delete on public.persons
+  for each row execute function public.audit_row_change();
+
+drop trigger if exists audit_entry_persons on public.entry_persons;
+create trigger audit_entry_persons
+  after insert or update or delete on public.entry_persons
+  for each row execute function public.audit_row_change();
+
+drop trigger if exists audit_entry_photos on public.entry_photos;
+create trigger audit_entry_photos
+  after insert or update or delete on public.entry_photos
+  for each row execute function public.audit_row_change();
+
+-- Readable by signed-in users; written only by the trigger above. With no
+-- insert, update or delete policies, the log can't be edited through the API.
+alter table public.audit_log enable row level security;
+
+drop policy if exists "Signed-in users read the audit log" on public.audit_log;
+create policy "Signed-in users read the audit log"
+  on public.audit_log for select to authenticated
+  using (true);
+
+revoke insert, update, delete, truncate on public.audit_log from anon, authenticated;
+
+-- Distinct actors for the viewer's user filter.
+create or replace view public.audit_actors
+with (security_invoker = true) as
+  select distinct actor_email
+  from public.audit_log
+  where actor_email is not null;
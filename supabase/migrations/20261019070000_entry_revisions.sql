@@ -0,0 +1,77 @@
+-- Every saved version of a blotter entry, so edits to the narrative (or any
+-- other field) never lose what was there before. Revision 1 is the entry as
+-- created; each update that changes something adds the next number.
+-- Restoring an old revision is an ordinary update and so adds one too.
+
+create table if not exists public.entry_revisions (
+  id bigint generated always as identity primary key,
+  -- No foreign key: history outlives the entry, like the audit log.
+  entry_id bigint not null,
+  revision integer not null,
+  created_at timestamptz not null default now(),
+  actor_id uuid,
+  actor_email text,
+  snapshot jsonb not null,
+  unique (entry_id, revision)
+);
+
+-- The entry's own columns; id, timestamps and the search index aren't versioned.
+create or replace function public.entry_revision_snapshot(entry public.blotter_entries)
+returns jsonb
+language sql
+stable
+as $$
+  select to_jsonb(entry) - 'id' - 'created_at' - 'search_vector';
+$$;
+
+create or replace function public.save_entry_revision()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  snapshot jsonb := public.entry_revision_snapshot(new);
+  next_revision integer;
+begin
+  if tg_op = 'UPDATE' and snapshot = public.entry_revision_snapshot(old) then
+    return new;
+  end if;
+
+  -- Entries from before this migration are backfilled below; this covers
+  -- any that slipped in between.
+  if tg_op = 'UPDATE' and not exists (select 1 from public.entry_revisions where entry_id = new.id) then
+    insert into public.entry_revisions (entry_id, revision, created_at, snapshot)
+    values (new.id, 1, old.created_at, public.entry_revision_snapshot(old));
+  end if;
+
+  select coalesce(max(revision), 0) + 1 into next_revision
+    from public.entry_revisions
+   where entry_id = new.id;
+
+  insert into public.entry_revisions (entry_id, revision, actor_id, actor_email, snapshot)
+  values (new.id, next_revision, auth.uid(), auth.jwt() ->> 'email', snapshot);
+  return new;
+end;
+$$;
+
+drop trigger if exists save_entry_revision on public.blotter_entries;
+create trigger save_entry_revision
+  after insert or update on public.blotter_entries
+  for each row execute function public.save_entry_revision();
+
+-- Existing entries start their history at revision 1.
+insert into public.entry_revisions (entry_id, revision, created_at, snapshot)
+select e.id, 1, e.created_at, public.entry_revision_snapshot(e)
+  from public.blotter_entries e
+ where not exists (select 1 from public.entry_revisions r where r.entry_id = e.id);
+
+-- Written only by the trigger.
+alter table public.entry_revisions enable row level security;
+
+drop policy if exists "Signed-in users read entry revisions" on public.entry_revisions;
+create policy "Signed-in users read entry revisions"
+  on public.entry_revisions for select to authenticated
+  using (true);
+
+revoke insert, update, delete, truncate on public.entry_revisions from anon, authenticated;
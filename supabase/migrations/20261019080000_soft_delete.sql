@@ -0,0 +1,83 @@
+-- Deleting an entry moves it to the trash instead of removing the row.
+-- The app hides trashed entries from lists, searches and counts; they can
+-- be restored, or purged for good once they've been in the trash for the
+-- retention period, trash_retention_days() below.
+
+alter table public.blotter_entries
+  add column if not exists deleted_at timestamptz,
+  add column if not exists deleted_by text,
+  add column if not exists deletion_reason text;
+
+create index if not exists blotter_entries_deleted_at_idx
+  on public.blotter_entries (deleted_at desc)
+  where deleted_at is not null;
+
+-- Who deleted is taken from the session, not from the client.
+create or replace function public.stamp_entry_deletion()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.deleted_at is not null and old.deleted_at is null then
+    new.deleted_at := now();
+    new.deleted_by := auth.jwt() ->> 'email';
+  elsif new.deleted_at is null then
+    new.deleted_by := null;
+    new.deletion_reason := null;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists stamp_entry_deletion on public.blotter_entries;
+create trigger stamp_entry_deletion
+  before update of deleted_at on public.blotter_entries
+  for each row execute function public.stamp_entry_deletion();
+
+-- Days an entry stays in the trash before it can be purged. The app reads
+-- it from here (see getTrashRetentionDays). The on-device backends keep a
+-- copy, TRASH_RETENTION_DAYS in src/lib/repository/local.ts; change both.
+create or replace function public.trash_retention_days()
+returns integer
+language sql
+immutable
+as $$
+  select 30;
+$$;
+
+-- Rows can only be removed once they've sat in the trash for the retention period.
+create or replace function public.guard_entry_purge()
+returns trigger
+language plpgsql
+as $$
+declare
+  retention integer := public.trash_retention_days();
+begin
+  if old.deleted_at is null or old.deleted_at > now() - make_interval(days => retention) then
+    raise exception 'Entry % can only be purged % days after it was moved to the trash', old.id, retention
+      using errcode = 'check_violation';
+  end if;
+  return old;
+end;
+$$;
+
+drop trigger if exists guard_entry_purge on public.blotter_entries;
+create trigger guard_entry_purge
+  before delete on public.blotter_entries
+  for each row execute function public.guard_entry_purge();
+
+-- Trashing and restoring aren't edits to the entry, so they don't add revisions.
+create or replace function public.entry_revision_snapshot(entry public.blotter_entries)
+returns jsonb
+language sql
+stable
+as $$
+  select to_jsonb(entry) - 'id' - 'created_at' - 'search_vector' - 'deleted_at' - 'deleted_by' - 'deletion_reason';
+$$;
+
+create or replace view public.blotter_case_types
+with (security_invoker = true) as
+  select distinct trim(case_type) as case_type
+  from public.blotter_entries
+  where trim(coalesce(case_type, '')) <> ''
+    and deleted_at is null;
@@ -0,0 +1,351 @@
+-- Role-based access control. Each account has a profile with one of four
+-- roles; row-level security on every table checks the role's permissions,
+-- which mirror ROLE_PERMISSIONS in src/lib/permissions.ts.
+--
+--   admin         everything, including users, imports and the trash
+--   desk_officer  create, edit and delete entries; import
+--   investigator  create and edit entries
+--   viewer        read only
+--
+-- Accounts that sign themselves up get an inactive profile, and with it no
+-- role and no access, until an admin activates them.
+
+create table if not exists public.profiles (
+  id uuid primary key references auth.users (id) on delete cascade,
+  email text not null,
+  role text not null default 'viewer'
+    check (role in ('admin', 'desk_officer', 'investigator', 'viewer')),
+  active boolean not null default false,
+  created_at timestamptz not null default now()
+);
+
+alter table public.profiles alter column active set default false;
+
+create table if not exists public.role_permissions (
+  role text not null,
+  permission text not null,
+  primary key (role, permission)
+);
+
+insert into public.role_permissions (role, permission) values
+  ('admin', 'entries:create'),
+  ('admin', 'entries:edit'),
+  ('admin', 'entries:delete'),
+  ('admin', 'entries:delete_all'),
+  ('admin', 'entries:import'),
+  ('admin', 'entries:manage_trash'),
+  ('admin', 'audit:view'),
+  ('admin', 'users:manage'),
+  ('desk_officer', 'entries:create'),
+  ('desk_officer', 'entries:edit'),
+  ('desk_officer', 'entries:delete'),
+  ('desk_officer', 'entries:import'),
+  ('investigator', 'entries:create'),
+  ('investigator', 'entries:edit')
+on conflict do nothing;
+
+-- The signed-in user's role, or null for unknown or deactivated accounts.
+-- security definer so policies on profiles don't recurse into themselves.
+create or replace function public.current_user_role()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select role from public.profiles where id = auth.uid() and active;
+$$;
+
+create or replace function public.has_permission(required text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.role_permissions
+    where role = public.current_user_role() and permission = required
+  );
+$$;
+
+-- Any active account with a role may read.
+create or replace function public.has_role()
+returns boolean
+language sql
+stable
+as $$
+  select public.current_user_role() is not null;
+$$;
+
+-- New sign-ups start inactive; activating one makes it a viewer.
+create or replace function public.create_profile_for_user()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.profiles (id, email) values (new.id, coalesce(new.email, ''))
+  on conflict (id) do nothing;
+  return new;
+end;
+$$;
+
+drop trigger if exists create_profile_for_user on auth.users;
+create trigger create_profile_for_user
+  after insert on auth.users
+  for each row execute function public.create_profile_for_user();
+
+-- Everyone who could sign in before this migration could do everything, so
+-- existing accounts start as admins. Review and lower their roles afterwards.
+insert into public.profiles (id, email, role, active)
+select id, coalesce(email, ''), 'admin', true from auth.users
+on conflict (id) do nothing;
+
+alter table public.profiles enable row level security;
+alter table public.role_permissions enable row level security;
+
+drop policy if exists "Users read their own profile" on public.profiles;
+create policy "Users read their own profile"
+  on public.profiles for select to authenticated
+  using (id = auth.uid() or public.has_permission('users:manage'));
+
+drop policy if exists "Admins manage profiles" on public.profiles;
+create policy "Admins manage profiles"
+  on public.profiles for update to authenticated
+  using (public.has_permission('users:manage'))
+  with check (public.has_permission('users:manage'));
+
+drop policy if exists "Signed-in users read role permissions" on public.role_permissions;
+create policy "Signed-in users read role permissions"
+  on public.role_permissions for select to authenticated
+  using (true);
+
+-- Blotter entries. Earlier policies granted every signed-in user full
+-- access; replace them all.
+alter table public.blotter_entries enable row level security;
+
+do $$
+declare
+  policy record;
+begin
+  for policy in select policyname from pg_policies where schemaname = 'public' and tablename = 'blotter_entries' loop
+    execute format('drop policy %I on public.blotter_entries', policy.policyname);
+  end loop;
+end;
+$$;
+
+drop policy if exists "Users with a role read entries" on public.blotter_entries;
+create policy "Users with a role read entries"
+  on public.blotter_entries for select to authenticated
+  using (public.has_role());
+
+drop policy if exists "Entry creators and importers insert entries" on public.blotter_entries;
+create policy "Entry creators and importers insert entries"
+  on public.blotter_entries for insert to authenticated
+  with check (public.has_permission('entries:create') or public.has_permission('entries:import'));
+
+-- Which kind of update (edit, trash, restore) is allowed is checked by the
+-- authorize_entry_update trigger below.
+drop policy if exists "Editors update entries" on public.blotter_entries;
+create policy "Editors update entries"
+  on public.blotter_entries for update to authenticated
+  using (
+    public.has_permission('entries:edit')
+    or public.has_permission('entries:delete')
+    or public.has_permission('entries:manage_trash')
+  );
+
+drop policy if exists "Trash managers purge entries" on public.blotter_entries;
+create policy "Trash managers purge entries"
+  on public.blotter_entries for delete to authenticated
+  using (public.has_permission('entries:manage_trash'));
+
+-- Moving to the trash needs entries:delete; restoring needs trash management,
+-- except that whoever trashed an entry may undo it. Any other change is an
+-- edit, and an edit can't touch the deletion columns, so a forged deleted_by
+-- can't pass the restore check later. Trashing many entries at once is
+-- checked by guard_bulk_trash below.
+create or replace function public.authorize_entry_update()
+returns trigger
+language plpgsql
+as $$
+begin
+  -- Migrations and service-role jobs have no signed-in user.
+  if auth.uid() is null then
+    return new;
+  end if;
+
+  -- Set on insert only. Both columns come from later migrations, hence jsonb.
+  if to_jsonb(new) -> 'import_batch_id' is distinct from to_jsonb(old) -> 'import_batch_id'
+    or to_jsonb(new) -> 'local_id' is distinct from to_jsonb(old) -> 'local_id' then
+    raise exception 'An entry''s import batch and device id can''t be changed'
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  if old.deleted_at is null and new.deleted_at is not null then
+    if not public.has_permission('entries:delete') then
+      raise exception 'Not allowed to delete entries' using errcode = 'insufficient_privilege';
+    end if;
+  elsif old.deleted_at is not null and new.deleted_at is null then
+    if not (
+      public.has_permission('entries:manage_trash')
+      or (public.has_permission('entries:delete') and old.deleted_by = auth.jwt() ->> 'email')
+    ) then
+      raise exception 'Not allowed to restore this entry' using errcode = 'insufficient_privilege';
+    end if;
+  elsif not public.has_permission('entries:edit') then
+    raise exception 'Not allowed to edit entries' using errcode = 'insufficient_privilege';
+  elsif new.deleted_at is distinct from old.deleted_at
+    or new.deleted_by is distinct from old.deleted_by
+    or new.deletion_reason is distinct from old.deletion_reason then
+    raise exception 'Deletion details only change when an entry is trashed or restored'
+      using errcode = 'insufficient_privilege';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists authorize_entry_update on public.blotter_entries;
+create trigger authorize_entry_update
+  before update on public.blotter_entries
+  for each row execute function public.authorize_entry_update();
+
+-- A single update may trash at most one entry, so entries:delete alone can't
+-- empty the blotter with one bulk PATCH. Functions that trash in bulk after
+-- checking their own permission (delete_all_entries, and later the import
+-- rollback) set blotter.bulk_trash for their transaction.
+create or replace function public.guard_bulk_trash()
+returns trigger
+language plpgsql
+as $$
+begin
+  if auth.uid() is null or current_setting('blotter.bulk_trash', true) = 'on' then
+    return null;
+  end if;
+
+  if (
+    select count(*)
+    from new_rows n
+    join old_rows o on o.id = n.id
+    where o.deleted_at is null and n.deleted_at is not null
+  ) > 1 then
+    raise exception 'Entries can only be trashed one at a time' using errcode = 'insufficient_privilege';
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists guard_bulk_trash on public.blotter_entries;
+create trigger guard_bulk_trash
+  after update on public.blotter_entries
+  referencing old table as old_rows new table as new_rows
+  for each statement execute function public.guard_bulk_trash();
+
+-- "Delete all" trashes every live entry; the trash can still restore them.
+-- security definer so only this function, never a client's own update, gets
+-- past guard_bulk_trash. The row triggers still see the caller's session.
+create or replace function public.delete_all_entries(reason text)
+returns setof bigint
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_permission('entries:delete_all') then
+    raise exception 'Not allowed to delete all entries' using errcode = 'insufficient_privilege';
+  end if;
+
+  perform set_config('blotter.bulk_trash', 'on', true);
+  return query
+    update public.blotter_entries
+       set deleted_at = now(), deletion_reason = reason
+     where deleted_at is null
+    returning id;
+end;
+$$;
+
+revoke execute on function public.delete_all_entries(text) from anon;
+
+-- Persons and links are written alongside entries.
+drop policy if exists "Signed-in users manage persons" on public.persons;
+drop policy if exists "Signed-in users manage entry links" on public.entry_persons;
+
+drop policy if exists "Users with a role read persons" on public.persons;
+create policy "Users with a role read persons"
+  on public.persons for select to authenticated
+  using (public.has_role());
+
+drop policy if exists "Entry writers manage persons" on public.persons;
+create policy "Entry writers manage persons"
+  on public.persons for all to authenticated
+  using (public.has_permission('entries:create') or public.has_permission('entries:edit'))
+  with check (public.has_permission('entries:create') or public.has_permission('entries:edit'));
+
+drop policy if exists "Users with a role read entry links" on public.entry_persons;
+create policy "Users with a role read entry links"
+  on public.entry_persons for select to authenticated
+  using (public.has_role());
+
+drop policy if exists "Entry writers manage entry links" on public.entry_persons;
+create policy "Entry writers manage entry links"
+  on public.entry_persons for all to authenticated
+  using (public.has_permission('entries:create') or public.has_permission('entries:edit'))
+  with check (public.has_permission('entries:create') or public.has_permission('entries:edit'));
+
+-- Photos: rows and files.
+drop policy if exists "Signed-in users manage entry photos" on public.entry_photos;
+drop policy if exists "Signed-in users read entry photos" on storage.objects;
+drop policy if exists "Signed-in users upload entry photos" on storage.objects;
+drop policy if exists "Signed-in users delete entry photos" on storage.objects;
+
+drop policy if exists "Users with a role read entry photos" on public.entry_photos;
+create policy "Users with a role read entry photos"
+  on public.entry_photos for select to authenticated
+  using (public.has_role());
+
+drop policy if exists "Entry writers add entry photos" on public.entry_photos;
+create policy "Entry writers add entry photos"
+  on public.entry_photos for insert to authenticated
+  with check (public.has_permission('entries:create') or public.has_permission('entries:edit'));
+
+drop policy if exists "Editors and trash managers delete entry photos" on public.entry_photos;
+create policy "Editors and trash managers delete entry photos"
+  on public.entry_photos for delete to authenticated
+  using (public.has_permission('entries:edit') or public.has_permission('entries:manage_trash'));
+
+drop policy if exists "Users with a role read photo files" on storage.objects;
+create policy "Users with a role read photo files"
+  on storage.objects for select to authenticated
+  using (bucket_id = 'entry-photos' and public.has_role());
+
+drop policy if exists "Entry writers upload photo files" on storage.objects;
+create policy "Entry writers upload photo files"
+  on storage.objects for insert to authenticated
+  with check (
+    bucket_id = 'entry-photos'
+    and (public.has_permission('entries:create') or public.has_permission('entries:edit'))
+  );
+
+drop policy if exists "Editors and trash managers delete photo files" on storage.objects;
+create policy "Editors and trash managers delete photo files"
+  on storage.objects for delete to authenticated
+  using (
+    bucket_id = 'entry-photos'
+    and (public.has_permission('entries:edit') or public.has_permission('entries:manage_trash'))
+  );
+
+-- History.
+drop policy if exists "Signed-in users read the audit log" on public.audit_log;
+drop policy if exists "Signed-in users read entry revisions" on public.entry_revisions;
+
+drop policy if exists "Auditors read the audit log" on public.audit_log;
+create policy "Auditors read the audit log"
+  on public.audit_log for select to authenticated
+  using (public.has_permission('audit:view'));
+
+drop policy if exists "Users with a role read entry revisions" on public.entry_revisions;
+create policy "Users with a role read entry revisions"
+  on public.entry_revisions for select to authenticated
+  using (public.has_role());
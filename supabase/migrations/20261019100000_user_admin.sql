@@ -0,0 +1,116 @@
+-- User administration: stations, forced password changes, invitations, and
+-- a user list with sign-in times for the /admin/users page.
+
+alter table public.profiles
+  add column if not exists station text,
+  add column if not exists must_change_password boolean not null default false;
+
+create index if not exists profiles_email_idx on public.profiles (lower(email));
+
+-- Admins can't lock themselves out by demoting or deactivating their own account.
+create or replace function public.protect_own_profile()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.id = auth.uid() and (new.role <> old.role or new.active <> old.active) then
+    raise exception 'You can''t change your own role or deactivate yourself'
+      using errcode = 'insufficient_privilege';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists protect_own_profile on public.profiles;
+create trigger protect_own_profile
+  before update on public.profiles
+  for each row execute function public.protect_own_profile();
+
+-- Profiles joined with auth.users, which the API can't read directly.
+create or replace function public.admin_list_users()
+returns table (
+  id uuid,
+  email text,
+  role text,
+  station text,
+  active boolean,
+  must_change_password boolean,
+  created_at timestamptz,
+  last_sign_in_at timestamptz
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_permission('users:manage') then
+    raise exception 'Not allowed to manage users' using errcode = 'insufficient_privilege';
+  end if;
+
+  return query
+    select p.id, p.email, p.role, p.station, p.active, p.must_change_password, p.created_at, u.last_sign_in_at
+    from public.profiles p
+    join auth.users u on u.id = p.id
+    order by p.email;
+end;
+$$;
+
+revoke execute on function public.admin_list_users() from anon;
+
+-- Invitations. Admins invite from the app, which then emails the address a
+-- sign-in link; the account only becomes active, with the invited role, once
+-- that link confirms the address. Sign-ups that weren't invited keep the
+-- inactive profile create_profile_for_user gives them, so leave "Confirm
+-- email" on: without it an invited address could be claimed by whoever signs
+-- up with it first.
+create table if not exists public.invitations (
+  email text primary key,
+  role text not null
+    check (role in ('admin', 'desk_officer', 'investigator', 'viewer')),
+  station text,
+  invited_by text default (auth.jwt() ->> 'email'),
+  created_at timestamptz not null default now()
+);
+
+alter table public.invitations enable row level security;
+
+drop policy if exists "Admins manage invitations" on public.invitations;
+create policy "Admins manage invitations"
+  on public.invitations for all to authenticated
+  using (public.has_permission('users:manage'))
+  with check (public.has_permission('users:manage'));
+
+-- Upserts the profile, since this may fire before create_profile_for_user.
+create or replace function public.accept_invitation()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  invitation public.invitations;
+begin
+  delete from public.invitations where email = lower(new.email)
+  returning * into invitation;
+  if not found then
+    return new;
+  end if;
+
+  insert into public.profiles (id, email, role, station, active, must_change_password)
+  values (new.id, coalesce(new.email, ''), invitation.role, invitation.station, true, true)
+  on conflict (id) do update
+    set role = excluded.role,
+        station = excluded.station,
+        active = true,
+        must_change_password = true;
+  return new;
+end;
+$$;
+
+drop trigger if exists accept_invitation on auth.users;
+create trigger accept_invitation
+  after insert or update of email_confirmed_at on auth.users
+  for each row
+  when (new.email_confirmed_at is not null)
+  execute function public.accept_invitation();
@@ -0,0 +1,35 @@
+-- Temporary passwords. Accounts flagged must_change_password (invited, or
+-- reset by an admin) get no role until the password is changed, so the API
+-- refuses them the same way the app's ProtectedRoute does.
+
+create or replace function public.current_user_role()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select role from public.profiles where id = auth.uid() and active and not must_change_password;
+$$;
+
+-- Setting a new password clears the flag. Done here rather than by the app
+-- because users can't update their own profile.
+create or replace function public.clear_must_change_password()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.profiles set must_change_password = false
+  where id = new.id and must_change_password;
+  return new;
+end;
+$$;
+
+drop trigger if exists clear_must_change_password on auth.users;
+create trigger clear_must_change_password
+  after update of encrypted_password on auth.users
+  for each row
+  when (new.encrypted_password is distinct from old.encrypted_password)
+  execute function public.clear_must_change_password();
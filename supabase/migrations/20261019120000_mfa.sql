@@ -0,0 +1,79 @@
+-- Two-factor authentication with Supabase MFA (TOTP) factors.
+--
+-- A session that has passed a code check carries aal2 in its JWT. Accounts
+-- with a verified factor need aal2 to get their role, so a stolen password
+-- alone reads nothing; roles listed in mfa_required_roles (mirroring
+-- MFA_REQUIRED_ROLES in src/lib/permissions.ts) need it whether or not they
+-- have enrolled yet.
+
+create table if not exists public.mfa_required_roles (
+  role text primary key
+);
+
+insert into public.mfa_required_roles (role) values ('admin')
+on conflict do nothing;
+
+alter table public.mfa_required_roles enable row level security;
+
+drop policy if exists "Signed-in users read MFA requirements" on public.mfa_required_roles;
+create policy "Signed-in users read MFA requirements"
+  on public.mfa_required_roles for select to authenticated
+  using (true);
+
+create or replace function public.current_user_role()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select p.role from public.profiles p
+  where p.id = auth.uid()
+    and p.active
+    and not p.must_change_password
+    and (
+      coalesce(auth.jwt() ->> 'aal', 'aal1') = 'aal2'
+      or (
+        not exists (select 1 from auth.mfa_factors f where f.user_id = p.id and f.status = 'verified')
+        and not exists (select 1 from public.mfa_required_roles r where r.role = p.role)
+      )
+    );
+$$;
+
+-- Adds whether each user has an authenticator app. The return type changes,
+-- so the function is replaced rather than redefined.
+drop function if exists public.admin_list_users();
+
+create function public.admin_list_users()
+returns table (
+  id uuid,
+  email text,
+  role text,
+  station text,
+  active boolean,
+  must_change_password boolean,
+  created_at timestamptz,
+  last_sign_in_at timestamptz,
+  mfa_enabled boolean
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_permission('users:manage') then
+    raise exception 'Not allowed to manage users' using errcode = 'insufficient_privilege';
+  end if;
+
+  return query
+    select
+      p.id, p.email, p.role, p.station, p.active, p.must_change_password, p.created_at, u.last_sign_in_at,
+      exists (select 1 from auth.mfa_factors f where f.user_id = p.id and f.status = 'verified')
+    from public.profiles p
+    join auth.users u on u.id = p.id
+    order by p.email;
+end;
+$$;
+
+revoke execute on function public.admin_list_users() from anon;
@@ -0,0 +1,116 @@
+-- Bulk imports. Each run of the importer is an import batch, and every entry
+-- it saves carries the batch's id. The app sends the rows in chunks (see
+-- src/lib/bulkImport.ts) and counts what a batch already holds to resume an
+-- interrupted import. An admin can roll back a whole batch, which moves its
+-- entries to the trash in one transaction.
+
+create table if not exists public.import_batches (
+  id uuid primary key default gen_random_uuid(),
+  file_name text not null,
+  total_rows integer not null check (total_rows >= 0),
+  status text not null default 'in_progress'
+    check (status in ('in_progress', 'completed', 'cancelled', 'rolled_back')),
+  created_at timestamptz not null default now(),
+  created_by text default (auth.jwt() ->> 'email'),
+  rolled_back_at timestamptz,
+  rolled_back_by text
+);
+
+alter table public.blotter_entries
+  add column if not exists import_batch_id uuid references public.import_batches (id);
+
+create index if not exists blotter_entries_import_batch_id_idx
+  on public.blotter_entries (import_batch_id)
+  where import_batch_id is not null;
+
+insert into public.role_permissions (role, permission) values
+  ('admin', 'entries:rollback_import')
+on conflict do nothing;
+
+alter table public.import_batches enable row level security;
+
+drop policy if exists "Importers read import batches" on public.import_batches;
+create policy "Importers read import batches"
+  on public.import_batches for select to authenticated
+  using (public.has_permission('entries:import') or public.has_permission('entries:rollback_import'));
+
+drop policy if exists "Importers start import batches" on public.import_batches;
+create policy "Importers start import batches"
+  on public.import_batches for insert to authenticated
+  with check (public.has_permission('entries:import'));
+
+-- Importers finish or stop a batch; rolling one back goes through the
+-- function below, and after that the batch is final.
+drop policy if exists "Importers update import batches" on public.import_batches;
+create policy "Importers update import batches"
+  on public.import_batches for update to authenticated
+  using (
+    status <> 'rolled_back'
+    and (public.has_permission('entries:import') or public.has_permission('entries:rollback_import'))
+  )
+  with check (status <> 'rolled_back' or public.has_permission('entries:rollback_import'));
+
+-- An import resumed after its batch was rolled back mustn't add to it.
+create or replace function public.guard_import_batch_entry()
+returns trigger
+language plpgsql
+as $$
+begin
+  if exists (select 1 from public.import_batches where id = new.import_batch_id and status = 'rolled_back') then
+    raise exception 'Import batch % has been rolled back', new.import_batch_id
+      using errcode = 'check_violation';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists guard_import_batch_entry on public.blotter_entries;
+create trigger guard_import_batch_entry
+  before insert on public.blotter_entries
+  for each row
+  when (new.import_batch_id is not null)
+  execute function public.guard_import_batch_entry();
+
+-- Runs as the caller, so the authorize_entry_update and stamp_entry_deletion
+-- triggers apply to the trashed entries as they do to any other deletion.
+create or replace function public.rollback_import_batch(batch_id uuid, reason text)
+returns setof bigint
+language plpgsql
+as $$
+begin
+  if not public.has_permission('entries:rollback_import') then
+    raise exception 'Not allowed to roll back imports' using errcode = 'insufficient_privilege';
+  end if;
+
+  -- Trashing the whole batch is the point; see guard_bulk_trash.
+  perform set_config('blotter.bulk_trash', 'on', true);
+
+  update public.import_batches
+     set status = 'rolled_back',
+         rolled_back_at = now(),
+         rolled_back_by = auth.jwt() ->> 'email'
+   where id = batch_id
+     and status <> 'rolled_back';
+  if not found then
+    raise exception 'Import batch % not found or already rolled back', batch_id
+      using errcode = 'no_data_found';
+  end if;
+
+  return query
+    update public.blotter_entries
+       set deleted_at = now(), deletion_reason = reason
+     where import_batch_id = batch_id
+       and deleted_at is null
+    returning id;
+end;
+$$;
+
+-- The batch an entry came from isn't one of its versioned fields.
+create or replace function public.entry_revision_snapshot(entry public.blotter_entries)
+returns jsonb
+language sql
+stable
+as $$
+  select to_jsonb(entry) - 'id' - 'created_at' - 'search_vector' - 'deleted_at' - 'deleted_by' - 'deletion_reason'
+    - 'import_batch_id';
+$$;
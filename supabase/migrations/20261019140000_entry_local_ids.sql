@@ -0,0 +1,35 @@
+-- Entries queued offline (see src/lib/outbox.ts) are saved with the outbox
+-- item's id. A save retried after its response was lost, or sent again from
+-- another tab, then finds the row it already made instead of adding another.
+
+alter table public.blotter_entries
+  add column if not exists local_id uuid;
+
+create unique index if not exists blotter_entries_local_id_key
+  on public.blotter_entries (local_id);
+
+-- The entry saved under a local id, even one row-level security hides from
+-- the caller, such as an entry trashed since. Otherwise the retry misses it,
+-- hits the unique index and the outbox item is parked as failed. Only the
+-- device that queued an entry knows its local id.
+create or replace function public.entry_by_local_id(local_id uuid)
+returns setof public.blotter_entries
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select * from public.blotter_entries as e where e.local_id = entry_by_local_id.local_id;
+$$;
+
+revoke execute on function public.entry_by_local_id(uuid) from anon;
+
+-- Where an entry was first saved isn't one of its versioned fields.
+create or replace function public.entry_revision_snapshot(entry public.blotter_entries)
+returns jsonb
+language sql
+stable
+as $$
+  select to_jsonb(entry) - 'id' - 'created_at' - 'search_vector' - 'deleted_at' - 'deleted_by' - 'deletion_reason'
+    - 'import_batch_id' - 'local_id';
+$$;
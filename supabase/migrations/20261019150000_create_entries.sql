@@ -0,0 +1,87 @@
+-- Saving entries in one call. An entry, the person made for it and the link
+-- between them used to be separate requests, so a failure partway through
+-- left orphan persons or entries without a person, and an import resumed
+-- from its saved count skipped them (see src/lib/bulkImport.ts). Everything
+-- here runs in the caller's transaction: all of it is saved or none of it.
+
+-- Adds aliases to a list, skipping blanks and case-insensitive repeats, as
+-- mergeAliases in src/lib/names.ts does.
+create or replace function public.merge_aliases(existing text[], added text[])
+returns text[]
+language plpgsql
+immutable
+as $$
+declare
+  merged text[] := coalesce(existing, '{}');
+  alias text;
+begin
+  foreach alias in array coalesce(added, '{}') loop
+    alias := trim(alias);
+    if alias <> '' and not exists (select 1 from unnest(merged) as m where lower(m) = lower(alias)) then
+      merged := merged || alias;
+    end if;
+  end loop;
+  return merged;
+end;
+$$;
+
+-- Runs as the caller, so row-level security and the entry triggers apply as
+-- they do to direct inserts. Each element of `entries` is an entry as the
+-- app sends it, with `person_ids` for the persons to link. Entries without
+-- any get a new person made from their names; aliases recorded on an entry
+-- are added to the persons it's linked to. An entry whose local_id is
+-- already saved comes back as it is.
+create or replace function public.create_entries(entries jsonb)
+returns setof public.blotter_entries
+language plpgsql
+as $$
+declare
+  item jsonb;
+  entry public.blotter_entries;
+  entry_aliases text[];
+  linked bigint[];
+begin
+  for item in select value from jsonb_array_elements(entries) loop
+    select * into entry from public.entry_by_local_id((item ->> 'local_id')::uuid);
+    if found then
+      return next entry;
+      continue;
+    end if;
+
+    entry_aliases := array(select jsonb_array_elements_text(coalesce(nullif(item -> 'aliases', 'null'), '[]')));
+    linked := array(select jsonb_array_elements_text(coalesce(nullif(item -> 'person_ids', 'null'), '[]'))::bigint);
+
+    if cardinality(linked) = 0 then
+      insert into public.persons (first_name, last_name, aliases)
+      values (trim(item ->> 'first_name'), trim(item ->> 'last_name'), public.merge_aliases('{}', entry_aliases))
+      returning array[id] into linked;
+    else
+      update public.persons as p
+         set aliases = public.merge_aliases(p.aliases, entry_aliases)
+       where p.id = any(linked)
+         and cardinality(public.merge_aliases(p.aliases, entry_aliases)) <> cardinality(p.aliases);
+    end if;
+
+    -- Every column an entry is created with; new ones belong here too.
+    insert into public.blotter_entries (
+      blotter_entry, first_name, middle_name, last_name, suffix, aliases,
+      date_of_birth, sex, civil_status, barangay, municipality, province,
+      contact_number, id_type, id_number, case_type, date, status,
+      import_batch_id, local_id
+    )
+    select r.blotter_entry, r.first_name, r.middle_name, r.last_name, r.suffix, coalesce(r.aliases, '{}'),
+           r.date_of_birth, r.sex, r.civil_status, r.barangay, r.municipality, r.province,
+           r.contact_number, r.id_type, r.id_number, r.case_type, r.date, coalesce(r.status, 'open'),
+           r.import_batch_id, r.local_id
+      from jsonb_populate_record(null::public.blotter_entries, item) as r
+    returning * into entry;
+
+    insert into public.entry_persons (entry_id, person_id)
+    select entry.id, person_id from unnest(linked) as person_id;
+
+    return next entry;
+  end loop;
+end;
+$$;
+
+revoke execute on function public.create_entries(jsonb) from anon;
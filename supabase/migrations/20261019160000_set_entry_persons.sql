@@ -0,0 +1,22 @@
+-- Relinking an entry's persons in one call. Saving an entry used to delete
+-- every link and insert them again, so each save logged a removal and an
+-- addition per person in the audit log even when nothing changed, and a
+-- failed insert left the entry without its persons.
+
+-- Runs as the caller, so row-level security and the audit trigger apply as
+-- they do to direct changes. Links already in place are left alone.
+create or replace function public.set_entry_persons(entry_id bigint, person_ids bigint[])
+returns void
+language sql
+as $$
+  delete from public.entry_persons as link
+   where link.entry_id = set_entry_persons.entry_id
+     and link.person_id <> all(set_entry_persons.person_ids);
+
+  insert into public.entry_persons (entry_id, person_id)
+  select set_entry_persons.entry_id, person_id
+    from unnest(set_entry_persons.person_ids) as person_id
+  on conflict do nothing;
+$$;
+
+revoke execute on function public.set_entry_persons(bigint, bigint[]) from anon;